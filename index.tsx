@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useMemo, FormEvent, ChangeEvent } from 'react';
+import { createPortal } from 'react-dom';
 import { createRoot } from 'react-dom/client';
 
 // --- 데이터 구조 정의 ---
@@ -6,8 +7,77 @@ interface Member {
   id: number;
   name: string;
   position: string;
+  // 아래 항목은 모두 선택 사항이며 예전 기록에는 없다.
+  phone?: string;
+  address?: string;
+  birthday?: string;
+  registeredOn?: string;
+  // 구역/셀
+  district?: string;
+  notes?: string;
+  // 기부금영수증에 들어가는 주민등록번호 (000000-0000000)
+  residentNumber?: string;
+  // false면 비활동 성도. 삭제하지 않으므로 과거 헌금 내역의 이름은 그대로 남는다.
+  active?: boolean;
+  // 소속 가정. 가정 구성원의 헌금은 가정 합계와 가정 단위 영수증에 함께 잡힌다.
+  householdId?: number;
 }
 
+// 작정헌금. 같은 성도·항목의 기간 내 입금이 이행액으로 잡힌다.
+interface Pledge {
+  id: number;
+  memberId: number;
+  category: string;
+  amount: number;
+  // 'YYYY-MM' 작정 기간 (양 끝 달 포함)
+  startMonth: string;
+  endMonth: string;
+  schedule: PledgeSchedule;
+  memo?: string;
+}
+
+type PledgeSchedule = 'monthly' | 'quarterly' | 'lump';
+
+// 중복 성도 병합 기록. 되돌릴 때 필요한 내용을 함께 남긴다.
+interface MemberMerge {
+  id: number;
+  timestamp: string;
+  survivorId: number;
+  // 병합되어 목록에서 빠진 성도의 당시 정보
+  merged: Member;
+  // 병합된 성도에서 남길 성도로 옮긴 거래와 계수 봉투
+  transactionIds: number[];
+  countingEnvelopes: { sessionId: number; index: number }[];
+  // 병합된 성도가 영수증 수령인이던 가정
+  receiptHouseholdIds: number[];
+  // 병합된 성도의 작정헌금 (작정헌금 도입 이전 기록에는 없다)
+  pledgeIds?: number[];
+  actor?: string;
+  undoneAt?: string;
+}
+
+// 한 봉투로 함께 헌금하는 가족 단위
+interface Household {
+  id: number;
+  name: string;
+  // 가정 단위 영수증을 받을 구성원. 없으면 헌금 내역이 있는 첫 구성원.
+  receiptMemberId?: number;
+}
+
+type PaymentMethod = 'cash' | 'transfer' | 'card' | 'check';
+
+// 출금을 받는 업체·선교사 등. 성도 명단과 따로 관리하고 출금에는 이름으로 기록한다.
+interface Payee {
+  id: number;
+  name: string;
+  kind: PayeeKind;
+  bankAccount?: string;
+  contact?: string;
+  memo?: string;
+}
+
+type PayeeKind = 'company' | 'missionary' | 'person' | 'other';
+
 interface Transaction {
   id: number;
   type: 'income' | 'expense';
@@ -16,11 +86,268 @@ interface Transaction {
   amount: number;
   memberId?: number;
   memo?: string;
+  enteredBy?: string;
+  // 입출금한 재정 계정. 입금은 입력할 때 항목 설정에 지정된 재정으로 채운다.
+  fund?: string;
+  // 주일 계수로 등록된 입금이면 해당 계수 회차
+  countingSessionId?: number;
+  // 한 봉투에 여러 항목을 담아 낸 헌금은 같은 봉투 id로 묶인다.
+  envelopeId?: number;
+  // 없으면 입금은 현금, 출금은 계좌이체로 본다. (결제수단 도입 이전 기록)
+  paymentMethod?: PaymentMethod;
+  // 통장 거래내역과 대사된 경우 통장에 찍힌 날짜
+  bankReconciledOn?: string;
+  // 출금을 받은 곳 (예: 한국전력). 등록된 지급처와 이름으로 연결된다.
+  payee?: string;
+  // 정기 지출에서 등록된 출금이면 해당 정기 지출
+  recurringExpenseId?: number;
+}
+
+// 정기 지출의 반복 규칙. 31일처럼 없는 날은 그 달 말일로 맞춘다.
+type RecurrenceRule =
+  | { kind: 'monthly'; day: number }
+  | { kind: 'weekly'; weekday: number }
+  | { kind: 'yearly'; month: number; day: number };
+
+// 매달 같은 금액으로 나가는 사례비·관리비 같은 출금의 틀
+interface RecurringExpense {
+  id: number;
+  category: string;
+  amount: number;
+  payee?: string;
+  memo?: string;
+  fund?: string;
+  paymentMethod?: PaymentMethod;
+  rule: RecurrenceRule;
+  startDate: string;
+  // 이 날짜까지의 회차는 등록하거나 건너뛰어 처리했다. 없으면 시작일 전날로 본다.
+  handledThrough?: string;
+  active: boolean;
+}
+
+// 월마감·연마감 기록. 마감 시점의 잔액을 남기고, 해제하지 않은 마감 중 가장 늦은 날까지의 거래는 잠근다.
+interface PeriodClosing {
+  id: number;
+  kind: 'month' | 'year';
+  // 'YYYY-MM' (월마감) 또는 'YYYY' (연마감)
+  period: string;
+  periodStart: string;
+  closedThrough: string;
+  income: number;
+  expense: number;
+  // 마감일 기준 잔액. 연마감의 잔액은 다음 해 이월 잔액이 된다.
+  balance: number;
+  fundBalances: { fund: string; balance: number }[];
+  closedAt: string;
+  closedBy: string;
+  reopenedAt?: string;
+  reopenedBy?: string;
+  reopenReason?: string;
+}
+
+// 보관 중인 현금·수표를 은행 통장에 입금한 기록. 전체 잔액은 그대로이다.
+interface CashDeposit {
+  id: number;
+  date: string;
+  amount: number;
+  memo?: string;
+  enteredBy?: string;
+  bankReconciledOn?: string;
+}
+
+// 봉투 수정 화면에서 다루는 한 줄. 새로 추가한 줄은 id가 없다.
+interface EnvelopeLine {
+  id?: number;
+  category: string;
+  amount: number;
+}
+
+// 계수한 현금(권종별 매수)과 현금 외 헌금
+interface CashCount {
+  denominations: Record<number, number>;
+  coins: number;
+  checks: number;
+  transfers: number;
+}
+
+// 마감된 주일 계수 회차. 보고서를 다시 출력할 수 있도록 봉투 내용을 함께 보관한다.
+interface CountingSession {
+  id: number;
+  date: string;
+  counters: string[];
+  // memberId가 없으면 무명 헌금
+  envelopes: { memberId?: number; category: string; amount: number; paymentMethod?: PaymentMethod }[];
+  cash: CashCount;
+  total: number;
+  transactionIds: number[];
+  finalizedAt: string;
+  finalizedBy: string;
+}
+
+// 재정 계정 사이의 이체. 전체 잔액은 그대로이고 두 재정의 잔액만 바뀐다.
+interface FundTransfer {
+  id: number;
+  date: string;
+  fromFund: string;
+  toFund: string;
+  amount: number;
+  memo?: string;
+  enteredBy?: string;
+}
+
+// 제직회에서 승인한 연간 예산. 출금 항목은 예산, 입금 항목은 목표액이다.
+interface BudgetLine {
+  year: number;
+  type: 'income' | 'expense';
+  category: string;
+  amount: number;
+}
+
+// 거래 수정/삭제 이력 (추가만 가능, 삭제 불가)
+interface AuditLogEntry {
+  id: number;
+  timestamp: string;
+  action: 'update' | 'delete';
+  transactionId: number;
+  before: Transaction;
+  after?: Transaction;
+  actor?: string;
+}
+
+// 입금 항목 설정. 배열 순서가 입력 양식·장부·보고서의 표시 순서가 된다.
+interface IncomeCategory {
+  name: string;
+  group: string;
+  fund: string;
+  active: boolean;
+}
+
+// 보고서 그룹별 입금 항목 합계
+interface IncomeGroupTotals {
+  group: string;
+  lines: { category: string; amount: number }[];
+  total: number;
+}
+
+// 기부금영수증에 표기되는 교회(기부금 단체) 정보
+interface ChurchInfo {
+  name: string;
+  registrationNumber: string;
+  address: string;
+  representative: string;
 }
 
 // --- 상수 정의 ---
-const POSITIONS = ["목사", "사모", "부목사", "전도사", "장로", "권사", "집사", "성도", "청년", "중고등부", "주일학교", "무명", "기타"];
-const INCOME_CATEGORIES = ["십일조", "감사헌금", "건축헌금", "선교헌금", "주정헌금", "절기헌금", "생일감사", "심방감사", "일천번제", "기타"];
+const POSITIONS = ["목사", "사모", "부목사", "전도사", "장로", "권사", "집사", "성도", "청년", "중고등부", "주일학교", "기타"];
+
+const PLEDGE_SCHEDULE_LABELS: Record<PledgeSchedule, string> = { monthly: '매월', quarterly: '분기마다', lump: '기간 내 일시' };
+
+const PAYEE_KIND_LABELS: Record<PayeeKind, string> = { company: '업체', missionary: '선교사', person: '개인', other: '기타' };
+
+// 헌금자를 밝히지 않은 입금은 memberId 없이 기록하고 '무명'으로 표시한다.
+const ANONYMOUS_DONOR = '무명';
+
+// 헌금자 선택 값. 'anonymous'는 무명 헌금, ''는 아직 고르지 않은 상태.
+type DonorChoice = number | '' | 'anonymous';
+const parseDonorChoice = (value: string): DonorChoice => (value === '' || value === 'anonymous' ? value : Number(value));
+const memberIdOfChoice = (choice: DonorChoice) => (typeof choice === 'number' ? choice : undefined);
+
+// 예전에 무명 헌금을 기록하려고 만들어 둔 가짜 성도
+const isAnonymousPlaceholder = (member: Member) => member.name.trim() === ANONYMOUS_DONOR || member.position === ANONYMOUS_DONOR;
+const DEFAULT_REPORT_GROUPS = ["경상비", "특별헌금", "기타헌금"];
+// 설정에 없는 항목으로 기록된 입금(가져온 자료 등)을 모아 보여주는 그룹
+const UNGROUPED_REPORT_GROUP = "미분류";
+// 지정되지 않은 입금과 출금은 일반 재정으로 처리한다.
+const GENERAL_FUND = "일반";
+const DEFAULT_FUNDS = [GENERAL_FUND, "선교", "건축"];
+const DEFAULT_INCOME_CATEGORIES: IncomeCategory[] = [
+  { name: "십일조", group: "경상비", fund: GENERAL_FUND, active: true },
+  { name: "선교헌금", group: "특별헌금", fund: "선교", active: true },
+  { name: "건축헌금", group: "특별헌금", fund: "건축", active: true },
+  { name: "감사헌금", group: "경상비", fund: GENERAL_FUND, active: true },
+  { name: "주정헌금", group: "경상비", fund: GENERAL_FUND, active: true },
+  { name: "절기헌금", group: "기타헌금", fund: GENERAL_FUND, active: true },
+  { name: "생일감사", group: "경상비", fund: GENERAL_FUND, active: true },
+  { name: "심방감사", group: "경상비", fund: GENERAL_FUND, active: true },
+  { name: "일천번제", group: "경상비", fund: GENERAL_FUND, active: true },
+  { name: "기타", group: "기타헌금", fund: GENERAL_FUND, active: true },
+];
+// 이름이 기본 항목과 같으면 기본 재정을, 아니면 일반 재정을 쓴다. (재정 도입 이전 데이터용)
+const defaultFundForCategory = (name: string): string =>
+  DEFAULT_INCOME_CATEGORIES.find(c => c.name === name)?.fund ?? GENERAL_FUND;
+const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'transfer', 'card', 'check'];
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: '현금',
+  transfer: '계좌이체',
+  card: '카드',
+  check: '수표',
+};
+// 현금과 수표는 은행에 입금하기 전까지 교회가 보관한다. 나머지는 통장으로 바로 오간다.
+const ON_HAND_METHODS: PaymentMethod[] = ['cash', 'check'];
+const DEFAULT_CHURCH_INFO: ChurchInfo = { name: '구미은혜로교회', registrationNumber: '', address: '', representative: '' };
+
+// 이름·직분 외에 성도 상세 화면에서 입력하는 문자열 항목
+const MEMBER_TEXT_FIELDS = ['phone', 'address', 'birthday', 'registeredOn', 'district', 'notes', 'residentNumber'] as const;
+type MemberProfile = Omit<Member, 'id'>;
+
+const isMemberActive = (member: Member) => member.active !== false;
+
+// 입력한 주민등록번호를 000000-0000000 형태로 맞춘다. 형식이 틀리면 null.
+const normalizeResidentNumber = (value: string): string | null => {
+  const digits = value.replace(/[\s-]/g, '');
+  return /^\d{13}$/.test(digits) ? `${digits.slice(0, 6)}-${digits.slice(6)}` : null;
+};
+
+// 화면에는 생년월일과 성별 자리까지만 보여준다.
+const maskResidentNumber = (value?: string) => (value ? `${value.slice(0, 8)}******` : '');
+
+// 병합으로 사라진 성도 id를 최종적으로 남은 성도 id로 바꾼다. 되돌린 병합은 따르지 않는다.
+const resolveMergedMemberId = (merges: MemberMerge[], memberId: number): number => {
+  let current = memberId;
+  for (let i = 0; i < merges.length; i++) {
+    const merge = merges.find(m => !m.undoneAt && m.merged.id === current);
+    if (!merge) break;
+    current = merge.survivorId;
+  }
+  return current;
+};
+
+// 공백을 뺀 이름 사이의 편집 거리. 한 글자 오타를 비슷한 이름으로 본다.
+const nameDistance = (a: string, b: string): number => {
+  const prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return prev[b.length];
+};
+
+interface DuplicateMemberPair {
+  a: Member;
+  b: Member;
+  reason: '같은 이름' | '비슷한 이름';
+}
+
+// 같은 이름 또는 한 글자만 다른 이름의 성도 쌍을 찾는다. 두 글자 이하 이름은 같은 이름만 본다.
+const findDuplicateMembers = (members: Member[]): DuplicateMemberPair[] => {
+  const normalized = members.map(m => ({ member: m, key: m.name.replace(/\s/g, '') }));
+  const pairs: DuplicateMemberPair[] = [];
+  normalized.forEach((left, i) => {
+    normalized.slice(i + 1).forEach(right => {
+      if (left.key === right.key) {
+        pairs.push({ a: left.member, b: right.member, reason: '같은 이름' });
+      } else if (Math.min(left.key.length, right.key.length) > 2 && nameDistance(left.key, right.key) === 1) {
+        pairs.push({ a: left.member, b: right.member, reason: '비슷한 이름' });
+      }
+    });
+  });
+  return pairs.sort((x, y) => (x.reason === y.reason ? 0 : x.reason === '같은 이름' ? -1 : 1));
+};
 const todayString = () => new Date().toISOString().slice(0, 10);
 
 const getDayOfWeek = (dateString: string): string => {
@@ -33,6 +360,259 @@ const getDayOfWeek = (dateString: string): string => {
     return `(${days[date.getDay()]})`;
 };
 
+// 'YYYY-MM-DD' 문자열 기준 날짜 계산 (시간대 영향을 받지 않도록 UTC로 처리)
+const addDays = (dateString: string, days: number): string => {
+    const date = new Date(`${dateString}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+};
+
+// 회계연도는 시작하는 달이 속한 해로 부른다. 3월 시작이면 2026 회계연도는 2026-03-01 ~ 2027-02-28.
+const fiscalYearRange = (year: number, startMonth: number) => {
+    const month = String(startMonth).padStart(2, '0');
+    return { start: `${year}-${month}-01`, end: addDays(`${year + 1}-${month}-01`, -1) };
+};
+
+const fiscalYearOf = (date: string, startMonth: number): number =>
+    Number(date.slice(5, 7)) >= startMonth ? Number(date.slice(0, 4)) : Number(date.slice(0, 4)) - 1;
+
+// 회계연도의 열두 달 ('YYYY-MM')을 순서대로
+const fiscalMonths = (year: number, startMonth: number): string[] =>
+    Array.from({ length: 12 }, (_, i) => {
+        const offset = startMonth - 1 + i;
+        return `${year + Math.floor(offset / 12)}-${String((offset % 12) + 1).padStart(2, '0')}`;
+    });
+
+const formatFiscalYear = (year: number, startMonth: number): string =>
+    startMonth === 1 ? `${year}년` : `${year} 회계연도`;
+
+// 규칙에 따른 회차 날짜 중 after 다음 날부터 until까지를 차례로 돌려준다.
+const recurrenceDatesBetween = (rule: RecurrenceRule, after: string, until: string): string[] => {
+    const dates: string[] = [];
+    const start = addDays(after, 1);
+    if (start > until) return dates;
+    if (rule.kind === 'weekly') {
+        const offset = (rule.weekday - new Date(`${start}T00:00:00Z`).getUTCDay() + 7) % 7;
+        for (let date = addDays(start, offset); date <= until; date = addDays(date, 7)) dates.push(date);
+        return dates;
+    }
+    let year = Number(start.slice(0, 4));
+    let month = Number(start.slice(5, 7));
+    while (`${year}-${String(month).padStart(2, '0')}` <= until.slice(0, 7)) {
+        if (rule.kind === 'monthly' || rule.month === month) {
+            const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+            const date = `${year}-${String(month).padStart(2, '0')}-${String(Math.min(rule.day, lastDay)).padStart(2, '0')}`;
+            if (date >= start && date <= until) dates.push(date);
+        }
+        month++;
+        if (month > 12) {
+            month = 1;
+            year++;
+        }
+    }
+    return dates;
+};
+
+// 해당 날짜가 속한 주의 주일(일요일) 날짜
+const getWeekStart = (dateString: string): string => {
+    const date = new Date(`${dateString}T00:00:00Z`);
+    return addDays(dateString, -date.getUTCDay());
+};
+
+// 설정 순서상의 위치. 설정에 없는 항목은 맨 뒤로 보낸다.
+const incomeCategoryIndex = (incomeCategories: IncomeCategory[], name: string): number => {
+    const index = incomeCategories.findIndex(c => c.name === name);
+    return index === -1 ? incomeCategories.length : index;
+};
+
+// 항목별 합계를 설정된 보고서 그룹으로 묶는다. 사용 중지된 항목은 금액이 있을 때만 표시한다.
+const groupIncomeTotals = (totals: Map<string, number>, incomeCategories: IncomeCategory[]): IncomeGroupTotals[] => {
+    const groups = new Map<string, IncomeGroupTotals>();
+    const addLine = (group: string, category: string, amount: number) => {
+        const entry = groups.get(group) ?? { group, lines: [], total: 0 };
+        entry.lines.push({ category, amount });
+        entry.total += amount;
+        groups.set(group, entry);
+    };
+    incomeCategories.forEach(c => {
+        const amount = totals.get(c.name) ?? 0;
+        if (c.active || amount > 0) addLine(c.group, c.name, amount);
+    });
+    totals.forEach((amount, category) => {
+        if (!incomeCategories.some(c => c.name === category)) addLine(UNGROUPED_REPORT_GROUP, category, amount);
+    });
+    return Array.from(groups.values());
+};
+
+// 예전 출금은 대부분 통장에서 나갔으므로 현금 시재에서 빼지 않는다.
+const getPaymentMethod = (tx: Transaction): PaymentMethod => tx.paymentMethod ?? (tx.type === 'income' ? 'cash' : 'transfer');
+
+const parsePaymentMethod = (value: string): PaymentMethod | null => {
+    const normalized = value.trim().toLowerCase().replace(/\s/g, '');
+    const found = PAYMENT_METHODS.find(m => m === normalized || PAYMENT_METHOD_LABELS[m] === normalized);
+    if (found) return found;
+    if (['이체', '송금', '온라인', '무통장'].includes(normalized)) return 'transfer';
+    if (['신용카드', '체크카드'].includes(normalized)) return 'card';
+    return null;
+};
+
+// 기준일(포함)까지 교회가 보관 중인 현금·수표와 통장 잔액
+const computeCashPosition = (transactions: Transaction[], deposits: CashDeposit[], untilDate: string): { cashOnHand: number; bankBalance: number } => {
+    let cashOnHand = 0;
+    let bankBalance = 0;
+    transactions.forEach(tx => {
+        if (tx.date > untilDate) return;
+        const amount = tx.type === 'income' ? tx.amount : -tx.amount;
+        if (ON_HAND_METHODS.includes(getPaymentMethod(tx))) cashOnHand += amount;
+        else bankBalance += amount;
+    });
+    deposits.forEach(d => {
+        if (d.date > untilDate) return;
+        cashOnHand -= d.amount;
+        bankBalance += d.amount;
+    });
+    return { cashOnHand, bankBalance };
+};
+
+// 입금 항목에 지정된 재정. 새 입금의 재정을 정할 때만 쓰고, 이미 기록된 입금은 거래에 남은 재정을 따른다.
+const getCategoryFund = (category: string, incomeCategories: IncomeCategory[]): string =>
+    incomeCategories.find(c => c.name === category)?.fund ?? GENERAL_FUND;
+
+const getTransactionFund = (tx: Pick<Transaction, 'type' | 'category' | 'fund'>, incomeCategories: IncomeCategory[]): string =>
+    tx.fund ?? (tx.type === 'income' ? getCategoryFund(tx.category, incomeCategories) : GENERAL_FUND);
+
+// 기준일(포함)까지의 재정별 잔액. 목록에 없는 재정이 거래에 쓰였으면 뒤에 붙인다.
+const computeFundBalances = (
+    transactions: Transaction[],
+    transfers: FundTransfer[],
+    incomeCategories: IncomeCategory[],
+    funds: string[],
+    untilDate: string,
+): Map<string, number> => {
+    const balances = new Map<string, number>(funds.map(f => [f, 0]));
+    const add = (fund: string, amount: number) => balances.set(fund, (balances.get(fund) ?? 0) + amount);
+    transactions.forEach(tx => {
+        if (tx.date > untilDate) return;
+        add(getTransactionFund(tx, incomeCategories), tx.type === 'income' ? tx.amount : -tx.amount);
+    });
+    transfers.forEach(t => {
+        if (t.date > untilDate) return;
+        add(t.fromFund, -t.amount);
+        add(t.toFund, t.amount);
+    });
+    return balances;
+};
+
+const formatKoreanDate = (dateString: string): string => {
+    const [year, month, day] = dateString.split('-');
+    return `${year}년 ${Number(month)}월 ${Number(day)}일`;
+};
+
+const formatDateTime = (isoString: string): string => {
+    const date = new Date(isoString);
+    if (isNaN(date.getTime())) return isoString;
+    return date.toLocaleString('ko-KR', { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+
+// 일괄 등록 시에도 겹치지 않는 id 발급 (Date.now() 기반)
+let lastIssuedId = 0;
+const generateId = (): number => {
+    lastIssuedId = Math.max(Date.now(), lastIssuedId + 1);
+    return lastIssuedId;
+};
+
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+// 큰 데이터(암호화된 백업)도 처리할 수 있도록 나누어 변환한다.
+const bytesToBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    const CHUNK_SIZE = 0x8000;
+    for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+    }
+    return btoa(binary);
+};
+const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+// --- CSV 유틸리티 ---
+// 엑셀에서 한글이 깨지지 않도록 UTF-8 BOM을 붙여 저장한다.
+const toCsv = (rows: (string | number)[][]): string => {
+    const escapeCell = (cell: string | number) => {
+        const text = String(cell);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return '\uFEFF' + rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+};
+
+const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    // 완전히 빈 줄은 제외
+    return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+// '2024.3.1', '2024/03/01', '2024. 3. 1.' 등을 'YYYY-MM-DD'로 변환. 인식할 수 없으면 null.
+const normalizeDateInput = (value: string): string | null => {
+    const match = value.trim().match(/^(\d{4})\s*[-./]\s*(\d{1,2})\s*[-./]\s*(\d{1,2})\.?$/);
+    if (!match) return null;
+    const [, year, month, day] = match;
+    const normalized = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+    const date = new Date(`${normalized}T00:00:00Z`);
+    if (isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== normalized) return null;
+    return normalized;
+};
+
+// '1,000원', '₩1,000' 등을 숫자로 변환. 원 단위 정수가 아니면(예: 1000.5) null.
+const parseAmountInput = (value: string): number | null => {
+    const cleaned = value.replace(/[,원₩\s]/g, '');
+    if (!/^-?\d+(\.0+)?$/.test(cleaned)) return null;
+    return Number(cleaned);
+};
 
 // --- LocalStorage를 위한 커스텀 Hook ---
 function usePersistentState<T>(key: string, defaultValue: T): [T, React.Dispatch<React.SetStateAction<T>>] {
@@ -57,942 +637,7643 @@ function usePersistentState<T>(key: string, defaultValue: T): [T, React.Dispatch
   return [state, setState];
 }
 
-const PasswordModal: React.FC<{
-  mode: 'create' | 'enter';
-  onClose: () => void;
-  onConfirm: (password: string) => void;
-}> = ({ mode, onClose, onConfirm }) => {
-  const [password, setPassword] = useState('');
-  const [confirmPassword, setConfirmPassword] = useState('');
-  const [error, setError] = useState('');
+// --- 인쇄 지원 ---
+// 인쇄용 내용은 #root 밖에 렌더링되며, 인쇄 시에는 이 영역만 출력된다.
+const PrintPortal: React.FC<{ children: React.ReactNode }> = ({ children }) =>
+  createPortal(<div className="print-root">{children}</div>, document.body);
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    setError('');
+// 인쇄할 대상을 지정하면 렌더링이 끝난 뒤 인쇄 대화상자를 연다.
+function usePrintJob<T>(): [T | null, (job: T) => void] {
+  const [job, setJob] = useState<T | null>(null);
 
-    if (!/^\d{4}$/.test(password)) {
-      setError('비밀번호는 4자리 숫자여야 합니다.');
-      return;
-    }
+  useEffect(() => {
+    if (job === null) return;
+    window.print();
+    setJob(null);
+  }, [job]);
 
-    if (mode === 'create' && password !== confirmPassword) {
-      setError('비밀번호가 일치하지 않습니다.');
-      return;
-    }
-    
-    onConfirm(password);
-  };
+  return [job, setJob];
+}
 
-  return (
-    <div className="modal-backdrop">
-      <div className="modal-content">
-        <button onClick={onClose} className="close-btn">&times;</button>
-        <h2>{mode === 'create' ? '비밀번호 설정' : '비밀번호 입력'}</h2>
-        <form onSubmit={handleSubmit}>
-          <div className="form-group">
-            <label htmlFor="password-input">{mode === 'create' ? '새 비밀번호 (4자리 숫자)' : '비밀번호'}</label>
-            <input
-              id="password-input"
-              type="password"
-              value={password}
-              onChange={e => setPassword(e.target.value)}
-              maxLength={4}
-              inputMode="numeric"
-              autoComplete="new-password"
-              required
-              autoFocus
-            />
-          </div>
-          {mode === 'create' && (
-            <div className="form-group">
-              <label htmlFor="confirm-password-input">비밀번호 확인</label>
-              <input
-                id="confirm-password-input"
-                type="password"
-                value={confirmPassword}
-                onChange={e => setConfirmPassword(e.target.value)}
-                maxLength={4}
-                inputMode="numeric"
-                autoComplete="new-password"
-                required
-              />
-            </div>
-          )}
-          {error && <p className="error-message">{error}</p>}
-          <button type="submit" className="submit-btn full-width">확인</button>
-        </form>
-      </div>
-    </div>
-  );
-};
+// --- 백업 파일 스키마 ---
+// v2: 버전 표기 없이 { members, transactions, expenseCategories, ... }를 그대로 저장하던 형식
+// v3: 스키마 버전과 체크섬을 포함한 봉투(envelope) 형식
+// v4: 입금 항목 설정(incomeCategories) 추가
+// v5: 재정 계정(funds)과 재정 간 이체(fundTransfers) 추가
+// v6: 연간 예산(budgets) 추가
+// v7: 주일 계수 회차(countingSessions) 추가
+// v8: 은행 입금 기록(cashDeposits) 추가
+// v9: 통장 대사 완료 월(reconciledThrough) 추가
+// v10: 가정(households) 추가
+// v11: 성도 병합 기록(memberMerges) 추가
+// v12: 작정헌금(pledges) 추가
+// v13: 정기 지출(recurringExpenses) 추가
+// v14: 지급처(payees) 추가
+// v15: 월마감·연마감(periodClosings) 추가
+// v16: 회계연도 시작 월(fiscalYearStartMonth) 추가
+// v17: 입금 거래에도 재정(fund) 기록
+const BACKUP_SCHEMA_VERSION = 17;
+const BACKUP_APP_ID = 'graceway-offering';
 
-const App: React.FC = () => {
-  const [view, setView] = useState<'main' | 'addMember' | 'search' | 'editMembers'>('main');
-  const [activeTab, setActiveTab] = useState<'income' | 'expense'>('income');
-  
-  const [members, setMembers] = usePersistentState<Member[]>('church_members_v2', []);
-  const [transactions, setTransactions] = usePersistentState<Transaction[]>('church_transactions_v2', []);
-  const [expenseCategories, setExpenseCategories] = usePersistentState<string[]>('church_expense_categories_v2', ['운영비', '선교비', '구제비']);
-  const [password, setPassword] = usePersistentState<string | null>('church_app_password_v2', null);
+interface BackupData {
+  members: Member[];
+  households: Household[];
+  memberMerges: MemberMerge[];
+  pledges: Pledge[];
+  transactions: Transaction[];
+  recurringExpenses: RecurringExpense[];
+  payees: Payee[];
+  periodClosings: PeriodClosing[];
+  fiscalYearStartMonth: number;
+  expenseCategories: string[];
+  incomeCategories: IncomeCategory[];
+  funds: string[];
+  fundTransfers: FundTransfer[];
+  budgets: BudgetLine[];
+  countingSessions: CountingSession[];
+  cashDeposits: CashDeposit[];
+  // 'YYYY-MM'. 이 달까지 통장과 장부를 맞춰 보았음을 뜻한다. 없으면 빈 문자열.
+  reconciledThrough: string;
+  auditLog: AuditLogEntry[];
+  churchInfo: ChurchInfo;
+}
 
-  const [showPasswordModal, setShowPasswordModal] = useState(false);
-  const [passwordModalProps, setPasswordModalProps] = useState({
-      mode: 'enter' as 'create' | 'enter',
-      onConfirm: (pw: string) => {},
-      onClose: () => setShowPasswordModal(false)
-  });
+interface BackupFile {
+  app: string;
+  schemaVersion: number;
+  exportedAt: string;
+  checksum: string;
+  data: BackupData;
+}
 
-  // --- 새 성도 추가 핸들러 ---
-  const handleAddMember = (name: string, position: string) => {
-    if (!name.trim()) {
-        alert("성도 이름을 입력해주세요.");
-        return;
-    }
-    const newMember: Member = { id: Date.now(), name, position };
-    setMembers(prev => [...prev, newMember].sort((a, b) => a.name.localeCompare(b.name, 'ko')));
-    setView('main');
-  };
+interface RejectedRecord {
+  kind: string;
+  label: string;
+  reason: string;
+}
 
-  // --- 성도 수정/삭제 핸들러 ---
-  const handleUpdateMember = (id: number, name: string, position: string) => {
-    setMembers(prev => prev.map(m => m.id === id ? { ...m, name, position } : m)
-                           .sort((a, b) => a.name.localeCompare(b.name, 'ko')));
-  };
-  
-  const handleDeleteMember = (id: number) => {
-    setMembers(prev => prev.filter(m => m.id !== id));
-  };
+interface BackupReadResult {
+  data: BackupData;
+  sourceVersion: number;
+  checksumValid: boolean | null;
+  rejected: RejectedRecord[];
+}
 
-  // --- 새 거래 추가 핸들러 ---
-  const handleAddTransaction = (tx: Omit<Transaction, 'id'>) => {
-    setTransactions(prev => [...prev, { ...tx, id: Date.now() }]);
-  };
-  
-  // --- 새 지출 항목 추가 핸들러 ---
-  const handleAddExpenseCategory = (category: string) => {
-    if (category && !expenseCategories.includes(category)) {
-      setExpenseCategories(prev => [...prev, category]);
-    }
-  };
-  
-  // --- 비밀번호 보호 작업 실행기 ---
-  const runProtectedAction = (action: () => void) => {
-    if (password) {
-      setPasswordModalProps({
-        mode: 'enter',
-        onConfirm: (enteredPassword) => {
-          if (enteredPassword === password) {
-            setShowPasswordModal(false);
-            action();
-          } else {
-            alert('비밀번호가 올바르지 않습니다.');
-          }
-        },
-        onClose: () => setShowPasswordModal(false)
-      });
+type ValidationResult<T> = { ok: true; value: T } | { ok: false; reason: string };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidId = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const validateMember = (raw: unknown): ValidationResult<Member> => {
+  if (!isPlainObject(raw)) return { ok: false, reason: '객체 형식이 아닙니다.' };
+  if (!isValidId(raw.id)) return { ok: false, reason: 'id가 숫자가 아닙니다.' };
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return { ok: false, reason: '이름이 비어 있습니다.' };
+  if (raw.position !== undefined && typeof raw.position !== 'string') return { ok: false, reason: '직분 형식이 올바르지 않습니다.' };
+  const badField = MEMBER_TEXT_FIELDS.find(key => raw[key] !== undefined && typeof raw[key] !== 'string');
+  if (badField) return { ok: false, reason: `${badField} 형식이 올바르지 않습니다.` };
+  if (raw.active !== undefined && typeof raw.active !== 'boolean') return { ok: false, reason: '활동 상태 형식이 올바르지 않습니다.' };
+  if (raw.householdId !== undefined && !isValidId(raw.householdId)) return { ok: false, reason: '가정 id가 숫자가 아닙니다.' };
+  return { ok: true, value: { ...raw, id: raw.id, name: raw.name.trim(), position: (raw.position as string | undefined) || '성도' } as Member };
+};
+
+const validateTransaction = (raw: unknown): ValidationResult<Transaction> => {
+  if (!isPlainObject(raw)) return { ok: false, reason: '객체 형식이 아닙니다.' };
+  if (!isValidId(raw.id)) return { ok: false, reason: 'id가 숫자가 아닙니다.' };
+  if (raw.type !== 'income' && raw.type !== 'expense') return { ok: false, reason: `알 수 없는 구분: ${String(raw.type)}` };
+  if (typeof raw.date !== 'string' || normalizeDateInput(raw.date) !== raw.date) return { ok: false, reason: `날짜 형식 오류: ${String(raw.date)}` };
+  if (typeof raw.category !== 'string' || !raw.category.trim()) return { ok: false, reason: '항목이 비어 있습니다.' };
+  if (typeof raw.amount !== 'number' || !Number.isFinite(raw.amount) || raw.amount <= 0) return { ok: false, reason: `금액 오류: ${String(raw.amount)}` };
+  if (raw.memberId !== undefined && raw.memberId !== null && !isValidId(raw.memberId)) return { ok: false, reason: 'memberId가 숫자가 아닙니다.' };
+  if (raw.memo !== undefined && typeof raw.memo !== 'string') return { ok: false, reason: '비고 형식이 올바르지 않습니다.' };
+  if (raw.enteredBy !== undefined && typeof raw.enteredBy !== 'string') return { ok: false, reason: '입력자 형식이 올바르지 않습니다.' };
+  if (raw.fund !== undefined && (typeof raw.fund !== 'string' || !raw.fund.trim())) return { ok: false, reason: '재정 형식이 올바르지 않습니다.' };
+  if (raw.countingSessionId !== undefined && !isValidId(raw.countingSessionId)) return { ok: false, reason: '계수 회차 id가 숫자가 아닙니다.' };
+  if (raw.envelopeId !== undefined && !isValidId(raw.envelopeId)) return { ok: false, reason: '봉투 id가 숫자가 아닙니다.' };
+  if (raw.paymentMethod !== undefined && !PAYMENT_METHODS.includes(raw.paymentMethod as PaymentMethod)) return { ok: false, reason: `알 수 없는 결제수단: ${String(raw.paymentMethod)}` };
+  if (raw.bankReconciledOn !== undefined && (typeof raw.bankReconciledOn !== 'string' || !normalizeDateInput(raw.bankReconciledOn))) return { ok: false, reason: '대사 날짜 형식이 올바르지 않습니다.' };
+  if (raw.payee !== undefined && typeof raw.payee !== 'string') return { ok: false, reason: '지급처 형식이 올바르지 않습니다.' };
+  if (raw.recurringExpenseId !== undefined && !isValidId(raw.recurringExpenseId)) return { ok: false, reason: '정기 지출 id가 숫자가 아닙니다.' };
+  const { memberId, ...rest } = raw;
+  return { ok: true, value: { ...rest, ...(isValidId(memberId) ? { memberId } : {}) } as Transaction };
+};
+
+// 입금 항목 설정은 이름으로 구분하므로 같은 이름이 두 번 나오면 뒤의 것을 거부한다.
+const validateIncomeCategories = (rawList: unknown, rejected: RejectedRecord[]): IncomeCategory[] => {
+  if (!Array.isArray(rawList)) {
+    rejected.push({ kind: '입금 항목', label: '전체', reason: '목록 형식이 아니어서 기본 항목을 사용합니다.' });
+    return DEFAULT_INCOME_CATEGORIES;
+  }
+  const accepted: IncomeCategory[] = [];
+  rawList.forEach((raw, index) => {
+    const label = `${index + 1}번째 ${isPlainObject(raw) && typeof raw.name === 'string' ? raw.name : ''}`.trim();
+    if (!isPlainObject(raw) || typeof raw.name !== 'string' || !raw.name.trim()) {
+      rejected.push({ kind: '입금 항목', label, reason: '항목 이름이 비어 있습니다.' });
+    } else if (accepted.some(c => c.name === raw.name)) {
+      rejected.push({ kind: '입금 항목', label, reason: '중복된 항목 이름입니다.' });
     } else {
-      setPasswordModalProps({
-        mode: 'create',
-        onConfirm: (newPassword) => {
-          setPassword(newPassword);
-          setShowPasswordModal(false);
-          action();
-        },
-        onClose: () => setShowPasswordModal(false)
+      accepted.push({
+        name: raw.name,
+        group: typeof raw.group === 'string' && raw.group.trim() ? raw.group : UNGROUPED_REPORT_GROUP,
+        fund: typeof raw.fund === 'string' && raw.fund.trim() ? raw.fund : defaultFundForCategory(raw.name),
+        active: raw.active !== false,
       });
     }
-    setShowPasswordModal(true);
-  };
+  });
+  return accepted;
+};
 
-  // --- 데이터 저장/불러오기 핸들러 ---
-  const handleSaveData = () => {
-    const performSave = () => {
-        try {
-            const dataToSave = { members, transactions, expenseCategories };
-            const jsonString = JSON.stringify(dataToSave, null, 2);
-            const blob = new Blob([jsonString], { type: 'application/json' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = `church_data_backup_${todayString()}.json`;
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(url);
-            alert('데이터를 성공적으로 저장했습니다.');
-        } catch (error) {
-            console.error('데이터 저장 오류:', error);
-            alert('데이터 저장 중 오류가 발생했습니다.');
-        }
-    };
-    runProtectedAction(performSave);
-  };
+const validateFundTransfer = (raw: unknown): ValidationResult<FundTransfer> => {
+  if (!isPlainObject(raw)) return { ok: false, reason: '객체 형식이 아닙니다.' };
+  if (!isValidId(raw.id)) return { ok: false, reason: 'id가 숫자가 아닙니다.' };
+  if (typeof raw.date !== 'string' || normalizeDateInput(raw.date) !== raw.date) return { ok: false, reason: `날짜 형식 오류: ${String(raw.date)}` };
+  if (typeof raw.fromFund !== 'string' || typeof raw.toFund !== 'string' || !raw.fromFund || !raw.toFund) return { ok: false, reason: '재정이 비어 있습니다.' };
+  if (raw.fromFund === raw.toFund) return { ok: false, reason: '같은 재정 사이의 이체입니다.' };
+  if (typeof raw.amount !== 'number' || !Number.isFinite(raw.amount) || raw.amount <= 0) return { ok: false, reason: `금액 오류: ${String(raw.amount)}` };
+  return { ok: true, value: raw as unknown as FundTransfer };
+};
 
-  const handleLoadData = (event: ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-    const inputElement = event.target;
+const validateHousehold = (raw: unknown): ValidationResult<Household> => {
+  if (!isPlainObject(raw)) return { ok: false, reason: '객체 형식이 아닙니다.' };
+  if (!isValidId(raw.id)) return { ok: false, reason: 'id가 숫자가 아닙니다.' };
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return { ok: false, reason: '가정 이름이 비어 있습니다.' };
+  if (raw.receiptMemberId !== undefined && !isValidId(raw.receiptMemberId)) return { ok: false, reason: '영수증 수령인 id가 숫자가 아닙니다.' };
+  return { ok: true, value: { ...raw, name: raw.name.trim() } as unknown as Household };
+};
 
-    const performLoad = () => {
-        if (!window.confirm('데이터를 불러오면 현재 데이터가 모두 덮어쓰여집니다. 계속하시겠습니까?')) {
-            inputElement.value = '';
-            return;
-        }
+const validatePeriodClosing = (raw: unknown): ValidationResult<PeriodClosing> => {
+  if (!isPlainObject(raw)) return { ok: false, reason: '객체 형식이 아닙니다.' };
+  if (!isValidId(raw.id)) return { ok: false, reason: 'id가 숫자가 아닙니다.' };
+  if (raw.kind !== 'month' && raw.kind !== 'year') return { ok: false, reason: `알 수 없는 마감 구분: ${String(raw.kind)}` };
+  if (typeof raw.period !== 'string' || !(raw.kind === 'month' ? /^\d{4}-\d{2}$/ : /^\d{4}$/).test(raw.period)) return { ok: false, reason: `마감 기간 형식 오류: ${String(raw.period)}` };
+  for (const field of ['periodStart', 'closedThrough']) {
+    if (typeof raw[field] !== 'string' || normalizeDateInput(raw[field] as string) !== raw[field]) return { ok: false, reason: `${field} 날짜 형식 오류: ${String(raw[field])}` };
+  }
+  for (const field of ['income', 'expense', 'balance']) {
+    if (typeof raw[field] !== 'number' || !Number.isFinite(raw[field])) return { ok: false, reason: `${field} 금액 오류: ${String(raw[field])}` };
+  }
+  if (!Array.isArray(raw.fundBalances)) return { ok: false, reason: '재정별 잔액이 배열이 아닙니다.' };
+  if (typeof raw.closedAt !== 'string' || typeof raw.closedBy !== 'string') return { ok: false, reason: '마감한 사람·시각이 없습니다.' };
+  return { ok: true, value: raw as unknown as PeriodClosing };
+};
 
-        const reader = new FileReader();
-        reader.onload = (e) => {
-            try {
-                const text = e.target?.result;
-                if (typeof text !== 'string') throw new Error("파일을 읽을 수 없습니다.");
-                const parsedData = JSON.parse(text);
-                
-                if (parsedData.members && parsedData.transactions && parsedData.expenseCategories) {
-                    setMembers(parsedData.members);
-                    setTransactions(parsedData.transactions);
-                    setExpenseCategories(parsedData.expenseCategories);
-                    alert('데이터를 성공적으로 불러왔습니다.');
-                } else {
-                    alert('유효하지 않은 데이터 파일입니다.');
-                }
-            } catch (error) {
-                console.error("데이터 불러오기 오류:", error);
-                alert('데이터를 불러오는 중 오류가 발생했습니다.');
-            } finally {
-                inputElement.value = '';
-            }
-        };
-        reader.readAsText(file);
-    };
-    runProtectedAction(performLoad);
+const validatePayee = (raw: unknown): ValidationResult<Payee> => {
+  if (!isPlainObject(raw)) return { ok: false, reason: '객체 형식이 아닙니다.' };
+  if (!isValidId(raw.id)) return { ok: false, reason: 'id가 숫자가 아닙니다.' };
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return { ok: false, reason: '이름이 비어 있습니다.' };
+  if (!Object.keys(PAYEE_KIND_LABELS).includes(raw.kind as string)) return { ok: false, reason: `알 수 없는 구분: ${String(raw.kind)}` };
+  for (const field of ['bankAccount', 'contact', 'memo']) {
+    if (raw[field] !== undefined && typeof raw[field] !== 'string') return { ok: false, reason: `${field} 형식이 올바르지 않습니다.` };
+  }
+  return { ok: true, value: raw as unknown as Payee };
+};
+
+const validateRecurringExpense = (raw: unknown): ValidationResult<RecurringExpense> => {
+  if (!isPlainObject(raw)) return { ok: false, reason: '객체 형식이 아닙니다.' };
+  if (!isValidId(raw.id)) return { ok: false, reason: 'id가 숫자가 아닙니다.' };
+  if (typeof raw.category !== 'string' || !raw.category.trim()) return { ok: false, reason: '항목이 비어 있습니다.' };
+  if (typeof raw.amount !== 'number' || !Number.isFinite(raw.amount) || raw.amount <= 0) return { ok: false, reason: `금액 오류: ${String(raw.amount)}` };
+  if (typeof raw.startDate !== 'string' || normalizeDateInput(raw.startDate) !== raw.startDate) return { ok: false, reason: `시작일 형식 오류: ${String(raw.startDate)}` };
+  const rule = raw.rule;
+  const validRule = isPlainObject(rule) && (
+    (rule.kind === 'monthly' && typeof rule.day === 'number' && rule.day >= 1 && rule.day <= 31) ||
+    (rule.kind === 'weekly' && typeof rule.weekday === 'number' && rule.weekday >= 0 && rule.weekday <= 6) ||
+    (rule.kind === 'yearly' && typeof rule.month === 'number' && rule.month >= 1 && rule.month <= 12 && typeof rule.day === 'number' && rule.day >= 1 && rule.day <= 31));
+  if (!validRule) return { ok: false, reason: '반복 규칙이 올바르지 않습니다.' };
+  return { ok: true, value: { ...raw, active: raw.active !== false } as unknown as RecurringExpense };
+};
+
+const validatePledge = (raw: unknown): ValidationResult<Pledge> => {
+  if (!isPlainObject(raw)) return { ok: false, reason: '객체 형식이 아닙니다.' };
+  if (!isValidId(raw.id)) return { ok: false, reason: 'id가 숫자가 아닙니다.' };
+  if (!isValidId(raw.memberId)) return { ok: false, reason: '성도 id가 숫자가 아닙니다.' };
+  if (typeof raw.category !== 'string' || !raw.category.trim()) return { ok: false, reason: '항목이 비어 있습니다.' };
+  if (typeof raw.amount !== 'number' || !Number.isFinite(raw.amount) || raw.amount <= 0) return { ok: false, reason: `금액 오류: ${String(raw.amount)}` };
+  const isMonth = (value: unknown) => typeof value === 'string' && /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+  if (!isMonth(raw.startMonth) || !isMonth(raw.endMonth) || (raw.startMonth as string) > (raw.endMonth as string)) return { ok: false, reason: '작정 기간이 올바르지 않습니다.' };
+  if (!Object.keys(PLEDGE_SCHEDULE_LABELS).includes(raw.schedule as string)) return { ok: false, reason: `알 수 없는 분납 방식: ${String(raw.schedule)}` };
+  return { ok: true, value: raw as unknown as Pledge };
+};
+
+const validateMemberMerge = (raw: unknown): ValidationResult<MemberMerge> => {
+  if (!isPlainObject(raw)) return { ok: false, reason: '객체 형식이 아닙니다.' };
+  if (!isValidId(raw.id) || typeof raw.timestamp !== 'string') return { ok: false, reason: 'id 또는 시각이 올바르지 않습니다.' };
+  if (!isValidId(raw.survivorId)) return { ok: false, reason: '남길 성도 id가 숫자가 아닙니다.' };
+  if (!validateMember(raw.merged).ok) return { ok: false, reason: '병합된 성도 정보가 올바르지 않습니다.' };
+  if (!Array.isArray(raw.transactionIds) || !Array.isArray(raw.countingEnvelopes) || !Array.isArray(raw.receiptHouseholdIds)) return { ok: false, reason: '옮긴 기록 목록이 없습니다.' };
+  return { ok: true, value: raw as unknown as MemberMerge };
+};
+
+const validateCashDeposit = (raw: unknown): ValidationResult<CashDeposit> => {
+  if (!isPlainObject(raw)) return { ok: false, reason: '객체 형식이 아닙니다.' };
+  if (!isValidId(raw.id)) return { ok: false, reason: 'id가 숫자가 아닙니다.' };
+  if (typeof raw.date !== 'string' || normalizeDateInput(raw.date) !== raw.date) return { ok: false, reason: `날짜 형식 오류: ${String(raw.date)}` };
+  if (typeof raw.amount !== 'number' || !Number.isFinite(raw.amount) || raw.amount <= 0) return { ok: false, reason: `금액 오류: ${String(raw.amount)}` };
+  return { ok: true, value: raw as unknown as CashDeposit };
+};
+
+const validateCountingSession = (raw: unknown): ValidationResult<CountingSession> => {
+  if (!isPlainObject(raw)) return { ok: false, reason: '객체 형식이 아닙니다.' };
+  if (!isValidId(raw.id)) return { ok: false, reason: 'id가 숫자가 아닙니다.' };
+  if (typeof raw.date !== 'string' || normalizeDateInput(raw.date) !== raw.date) return { ok: false, reason: `날짜 형식 오류: ${String(raw.date)}` };
+  if (!Array.isArray(raw.counters) || !Array.isArray(raw.envelopes) || !Array.isArray(raw.transactionIds)) return { ok: false, reason: '계수위원 또는 봉투 목록이 없습니다.' };
+  if (!isPlainObject(raw.cash) || typeof raw.total !== 'number') return { ok: false, reason: '계수 금액이 올바르지 않습니다.' };
+  return { ok: true, value: raw as unknown as CountingSession };
+};
+
+// 예산은 연도·구분·항목마다 하나만 둔다.
+const budgetKey = (line: Pick<BudgetLine, 'year' | 'type' | 'category'>) => `${line.year}|${line.type}|${line.category}`;
+
+const validateBudgets = (rawList: unknown, rejected: RejectedRecord[]): BudgetLine[] => {
+  if (!Array.isArray(rawList)) {
+    if (rawList !== undefined) rejected.push({ kind: '예산', label: '전체', reason: '목록 형식이 아닙니다.' });
+    return [];
+  }
+  const accepted = new Map<string, BudgetLine>();
+  rawList.forEach((raw, index) => {
+    const label = `${index + 1}번째 ${isPlainObject(raw) ? `${String(raw.year)} ${String(raw.category)}` : ''}`.trim();
+    if (!isPlainObject(raw) || !Number.isInteger(raw.year) || (raw.type !== 'income' && raw.type !== 'expense') || typeof raw.category !== 'string' || !raw.category) {
+      rejected.push({ kind: '예산', label, reason: '연도, 구분 또는 항목이 올바르지 않습니다.' });
+    } else if (typeof raw.amount !== 'number' || !Number.isFinite(raw.amount) || raw.amount < 0) {
+      rejected.push({ kind: '예산', label, reason: `금액 오류: ${String(raw.amount)}` });
+    } else {
+      const line: BudgetLine = { year: raw.year as number, type: raw.type as BudgetLine['type'], category: raw.category, amount: raw.amount };
+      if (accepted.has(budgetKey(line))) {
+        rejected.push({ kind: '예산', label, reason: '같은 연도·항목의 예산이 중복되었습니다.' });
+      } else {
+        accepted.set(budgetKey(line), line);
+      }
+    }
+  });
+  return Array.from(accepted.values());
+};
+
+const validateAuditLogEntry = (raw: unknown): ValidationResult<AuditLogEntry> => {
+  if (!isPlainObject(raw)) return { ok: false, reason: '객체 형식이 아닙니다.' };
+  if (!isValidId(raw.id) || typeof raw.timestamp !== 'string') return { ok: false, reason: 'id 또는 시각이 올바르지 않습니다.' };
+  if (raw.action !== 'update' && raw.action !== 'delete') return { ok: false, reason: `알 수 없는 작업: ${String(raw.action)}` };
+  if (!isPlainObject(raw.before)) return { ok: false, reason: '변경 전 내용이 없습니다.' };
+  return { ok: true, value: raw as unknown as AuditLogEntry };
+};
+
+// 목록을 검증하여 통과한 레코드만 남기고, 거부된 레코드는 사유와 함께 기록한다.
+const validateRecords = <T extends { id: number }>(
+  rawList: unknown,
+  kind: string,
+  validate: (raw: unknown) => ValidationResult<T>,
+  describe: (raw: unknown) => string,
+  rejected: RejectedRecord[],
+): T[] => {
+  if (!Array.isArray(rawList)) {
+    if (rawList !== undefined) rejected.push({ kind, label: '전체', reason: '목록 형식이 아닙니다.' });
+    return [];
+  }
+  const seenIds = new Set<number>();
+  const accepted: T[] = [];
+  rawList.forEach((raw, index) => {
+    const label = `${index + 1}번째 ${describe(raw)}`.trim();
+    const result = validate(raw);
+    if ('reason' in result) {
+      rejected.push({ kind, label, reason: result.reason });
+    } else if (seenIds.has(result.value.id)) {
+      rejected.push({ kind, label, reason: `중복된 id: ${result.value.id}` });
+    } else {
+      seenIds.add(result.value.id);
+      accepted.push(result.value);
+    }
+  });
+  return accepted;
+};
+
+// 재정이 없는 예전 입금에 당시 항목 설정의 재정을 채운다. 백업 파일과 저장소 변환에서 함께 쓴다.
+const fillIncomeFunds = (transactions: unknown, incomeCategories: unknown): unknown => {
+  if (!Array.isArray(transactions)) return transactions;
+  const categories = Array.isArray(incomeCategories) ? incomeCategories.filter(isPlainObject) : DEFAULT_INCOME_CATEGORIES;
+  const fundOf = (name: unknown): string => {
+    const fund = categories.find(c => c.name === name)?.fund;
+    return typeof fund === 'string' && fund.trim() ? fund : defaultFundForCategory(String(name));
   };
-  
-  // --- 계산 로직 (useMemo로 최적화) ---
-  const { sortedTransactions, balanceData, periodicalSummary, weeklyCategoryTotals, transactionsWithBalance } = useMemo(() => {
-    const sorted = [...transactions].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime() || b.id - a.id);
-    
-    const todayStr = todayString();
-    let previousBalance = 0;
-    let todaysChange = 0;
+  return transactions.map(tx => isPlainObject(tx) && tx.type === 'income' && tx.fund === undefined ? { ...tx, fund: fundOf(tx.category) } : tx);
+};
 
-    transactions.forEach(tx => {
-        const amount = tx.type === 'income' ? tx.amount : -tx.amount;
-        if (tx.date < todayStr) {
-            previousBalance += amount;
-        } else if (tx.date === todayStr) {
-            todaysChange += amount;
-        }
-    });
+const describeRawRecord = (raw: unknown): string => {
+  if (!isPlainObject(raw)) return '';
+  return [raw.date, raw.name, raw.category, raw.amount !== undefined ? `${String(raw.amount)}원` : undefined]
+    .filter(v => v !== undefined && v !== '')
+    .map(String)
+    .join(' ');
+};
 
-    const todaysBalance = previousBalance + todaysChange;
-    
-    // 표시 순서: 십일조 -> 선교헌금 -> ... -> 기타
-    // 코드 내 정렬을 위해 표시 순서의 역순으로 배열 정의
-    const categoryOrder = ["기타", "일천번제", "심방감사", "생일감사", "절기헌금", "주정헌금", "감사헌금", "건축헌금", "선교헌금", "십일조"];
-    
-    const getMemberNameForSort = (memberId?: number): string => {
-        if (memberId === undefined) return '무명';
-        return members.find(m => m.id === memberId)?.name || '미지정';
-    };
+// 버전 N의 데이터를 N+1로 올리는 변환 함수들
+const BACKUP_MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  2: data => ({
+    ...data,
+    auditLog: data.auditLog ?? [],
+    churchInfo: data.churchInfo ?? DEFAULT_CHURCH_INFO,
+  }),
+  3: data => ({
+    ...data,
+    incomeCategories: data.incomeCategories ?? DEFAULT_INCOME_CATEGORIES,
+  }),
+  // 재정 지정은 validateIncomeCategories에서 항목 이름으로 채운다.
+  4: data => ({
+    ...data,
+    funds: data.funds ?? DEFAULT_FUNDS,
+    fundTransfers: data.fundTransfers ?? [],
+  }),
+  5: data => ({
+    ...data,
+    budgets: data.budgets ?? [],
+  }),
+  6: data => ({
+    ...data,
+    countingSessions: data.countingSessions ?? [],
+  }),
+  7: data => ({
+    ...data,
+    cashDeposits: data.cashDeposits ?? [],
+  }),
+  8: data => ({
+    ...data,
+    reconciledThrough: data.reconciledThrough ?? '',
+  }),
+  9: data => ({
+    ...data,
+    households: data.households ?? [],
+  }),
+  10: data => ({
+    ...data,
+    memberMerges: data.memberMerges ?? [],
+  }),
+  11: data => ({
+    ...data,
+    pledges: data.pledges ?? [],
+  }),
+  12: data => ({
+    ...data,
+    recurringExpenses: data.recurringExpenses ?? [],
+  }),
+  13: data => ({
+    ...data,
+    payees: data.payees ?? [],
+  }),
+  14: data => ({
+    ...data,
+    periodClosings: data.periodClosings ?? [],
+  }),
+  15: data => ({
+    ...data,
+    fiscalYearStartMonth: data.fiscalYearStartMonth ?? 1,
+  }),
+  16: data => ({
+    ...data,
+    transactions: fillIncomeFunds(data.transactions, data.incomeCategories),
+  }),
+};
 
-    let runningBalance = 0;
-    const withBalance = [...transactions]
-        .sort((a, b) => {
-            // 1. Primary sort: date, ascending (for correct running balance calc)
-            const dateCompare = new Date(a.date).getTime() - new Date(b.date).getTime();
-            if (dateCompare !== 0) return dateCompare;
+const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
 
-            // 2. Secondary sort for same-day transactions:
-            // Income transactions should come before expense transactions.
-            if (a.type !== b.type) {
-                return a.type === 'income' ? -1 : 1;
-            }
+const createBackupFile = async (data: BackupData): Promise<BackupFile> => ({
+  app: BACKUP_APP_ID,
+  schemaVersion: BACKUP_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  checksum: await sha256Hex(JSON.stringify(data)),
+  data,
+});
 
-            // If both are income transactions, apply custom sorting logic.
-            if (a.type === 'income') {
-                const indexA = categoryOrder.indexOf(a.category);
-                const indexB = categoryOrder.indexOf(b.category);
-                // 배열에 없는 항목은 맨 뒤로
-                const effectiveIndexA = indexA === -1 ? categoryOrder.length : indexA;
-                const effectiveIndexB = indexB === -1 ? categoryOrder.length : indexB;
+// 백업 파일을 읽어 현재 버전으로 올리고 레코드 단위로 검증한다.
+// 파일 자체를 쓸 수 없는 경우에만 예외를 던진다.
+const readBackupFile = async (text: string): Promise<BackupReadResult> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('JSON 형식의 백업 파일이 아닙니다.');
+  }
+  if (!isPlainObject(parsed)) throw new Error('유효하지 않은 데이터 파일입니다.');
 
-                // a) Sort by custom category order
-                if (effectiveIndexA !== effectiveIndexB) {
-                    // 최종 표시는 reverse되므로, 표시 순서의 역순인 categoryOrder 배열의 index 순으로 정렬
-                    return effectiveIndexA - effectiveIndexB;
-                }
-                
-                // b) Within the same category, sort by member name (alphabetical)
-                const nameA = getMemberNameForSort(a.memberId);
-                const nameB = getMemberNameForSort(b.memberId);
-                // 최종 표시는 reverse되므로, 가나다순으로 표시하려면 여기서는 가나다 역순으로 정렬
-                const nameCompare = nameB.localeCompare(nameA, 'ko');
-                if (nameCompare !== 0) {
-                    return nameCompare;
-                }
-            }
-            
-            // For expenses, or as a final fallback for incomes, sort by creation order (ID).
-            return a.id - b.id;
-        })
-        .map(tx => {
-            runningBalance += (tx.type === 'income' ? tx.amount : -tx.amount);
-            return { ...tx, balance: runningBalance };
-        })
-        .reverse(); // Reverse the whole array to show most recent transactions first.
-        
-    const today = new Date(todayStr);
-    const yearStartStr = today.getFullYear() + '-01-01';
-    const weekStart = new Date(today);
-    weekStart.setDate(today.getDate() - today.getDay()); // 0: Sunday
-    const weekStartStr = weekStart.toISOString().slice(0, 10);
+  let sourceVersion: number;
+  let payload: Record<string, unknown>;
+  let checksumValid: boolean | null = null;
 
-    let weeklyIncome = 0;
-    let weeklyExpense = 0;
-    let yearlyIncome = 0;
-    let yearlyExpense = 0;
-    
-    const gyeongsangbiCategories = ["주정헌금", "십일조", "감사헌금", "생일감사", "심방감사", "일천번제"];
-    const weeklyGyeongsangbiBreakdown: { [key: string]: number } = Object.fromEntries(
-        gyeongsangbiCategories.map(cat => [cat, 0])
-    );
-    let weeklySeongyo = 0;
-    let weeklyGeonchuk = 0;
-    
-    transactions.forEach(tx => {
-        const amount = tx.amount;
-        if (tx.date >= yearStartStr) {
-            if (tx.type === 'income') yearlyIncome += amount;
-            else yearlyExpense += amount;
-        }
-        if (tx.date >= weekStartStr) {
-            if (tx.type === 'income') {
-                weeklyIncome += amount;
-                if (gyeongsangbiCategories.includes(tx.category)) {
-                    weeklyGyeongsangbiBreakdown[tx.category] += amount;
-                } else if (tx.category === '선교헌금') {
-                    weeklySeongyo += amount;
-                } else if (tx.category === '건축헌금') {
-                    weeklyGeonchuk += amount;
-                }
-            } else {
-                weeklyExpense += amount;
-            }
-        }
-    });
+  if (typeof parsed.schemaVersion === 'number') {
+    if (parsed.app !== BACKUP_APP_ID || !isPlainObject(parsed.data)) throw new Error('유효하지 않은 데이터 파일입니다.');
+    sourceVersion = parsed.schemaVersion;
+    payload = parsed.data;
+    if (typeof parsed.checksum === 'string') {
+      checksumValid = (await sha256Hex(JSON.stringify(parsed.data))) === parsed.checksum;
+    }
+  } else if (parsed.members && parsed.transactions && parsed.expenseCategories) {
+    sourceVersion = 2;
+    payload = parsed;
+  } else {
+    throw new Error('유효하지 않은 데이터 파일입니다.');
+  }
 
-    return {
-      sortedTransactions: sorted,
-      balanceData: { previousBalance, todaysChange, todaysBalance },
-      periodicalSummary: {
-          weeklyIncome,
-          weeklyExpense,
-          yearlyIncome,
-          yearlyExpense,
-          weeklyBalance: weeklyIncome - weeklyExpense,
-          yearlyBalance: yearlyIncome - yearlyExpense,
-      },
-      weeklyCategoryTotals: {
-          weeklyGyeongsangbiBreakdown,
-          weeklySeongyo,
-          weeklyGeonchuk
-      },
-      transactionsWithBalance: withBalance,
-    };
-  }, [transactions, members]);
-  
-  const getMemberName = (id?: number) => members.find(m => m.id === id)?.name || '미지정';
+  if (sourceVersion > BACKUP_SCHEMA_VERSION) {
+    throw new Error(`더 최신 버전(v${sourceVersion})에서 만든 파일입니다. 프로그램을 업데이트해 주세요.`);
+  }
+  for (let version = sourceVersion; version < BACKUP_SCHEMA_VERSION; version++) {
+    const migrate = BACKUP_MIGRATIONS[version];
+    if (!migrate) throw new Error(`v${version} 형식은 변환할 수 없습니다.`);
+    payload = migrate(payload);
+  }
 
-  return (
-    <>
-      <header>
-        <h1>구미은혜로교회 헌금관리</h1>
-        <div className="header-actions">
-            <button onClick={() => setView('addMember')}>새 성도 추가</button>
-            <button onClick={() => setView('search')}>조회</button>
-            <button onClick={() => runProtectedAction(() => setView('editMembers'))}>회원수정</button>
-        </div>
-      </header>
-      <div className="data-management top-data-management">
-          <button onClick={handleSaveData} className="data-btn">데이터 저장</button>
-          <label htmlFor="load-data-input-header" className="data-btn">
-              데이터 불러오기
-          </label>
-          <input 
-              id="load-data-input-header"
-              type="file"
-              accept=".json"
-              onChange={handleLoadData}
-              style={{ display: 'none' }}
-          />
-      </div>
-      <main>
-        {view === 'main' && (
-          <>
-            <div className="card">
-              <div className="tabs">
-                <button className={`tab-button ${activeTab === 'income' ? 'active' : ''}`} onClick={() => setActiveTab('income')}>입금</button>
-                <button className={`tab-button ${activeTab === 'expense' ? 'active' : ''}`} onClick={() => setActiveTab('expense')}>출금</button>
-              </div>
-              {activeTab === 'income' ? (
-                <IncomeForm members={members} onAddTransaction={handleAddTransaction} />
-              ) : (
-                <ExpenseForm members={members} categories={expenseCategories} onAddCategory={handleAddExpenseCategory} onAddTransaction={handleAddTransaction} />
-              )}
-            </div>
-            <PeriodicalSummary {...periodicalSummary} />
-            <WeeklyCategorySummary {...weeklyCategoryTotals} />
-            <BalanceSummary {...balanceData} />
-            <TransactionList 
-              transactions={transactionsWithBalance} 
-              getMemberName={getMemberName}
-              onSaveData={handleSaveData}
-              onLoadData={handleLoadData}
-            />
-          </>
-        )}
-        {view === 'addMember' && <AddMemberModal onAddMember={handleAddMember} onClose={() => setView('main')} />}
-        {view === 'editMembers' && <EditMembersModal members={members} onClose={() => setView('main')} onUpdateMember={handleUpdateMember} onDeleteMember={handleDeleteMember} />}
-        {view === 'search' && <SearchModal transactions={transactions} members={members} getMemberName={getMemberName} incomeCategories={INCOME_CATEGORIES} expenseCategories={expenseCategories} onClose={() => setView('main')} />}
-        {showPasswordModal && <PasswordModal {...passwordModalProps} />}
-      </main>
-    </>
+  const rejected: RejectedRecord[] = [];
+  const members = validateRecords(payload.members, '성도', validateMember, describeRawRecord, rejected);
+  const households = validateRecords(payload.households, '가정', validateHousehold, describeRawRecord, rejected);
+  const memberMerges = validateRecords(payload.memberMerges, '성도 병합', validateMemberMerge, () => '항목', rejected);
+  const pledges = validateRecords(payload.pledges, '작정헌금', validatePledge, describeRawRecord, rejected);
+  const recurringExpenses = validateRecords(payload.recurringExpenses, '정기 지출', validateRecurringExpense, describeRawRecord, rejected);
+  const payees = validateRecords(payload.payees, '지급처', validatePayee, describeRawRecord, rejected);
+  const periodClosings = validateRecords(payload.periodClosings, '마감', validatePeriodClosing, describeRawRecord, rejected);
+  const transactions = validateRecords(payload.transactions, '거래', validateTransaction, describeRawRecord, rejected);
+  const auditLog = validateRecords(payload.auditLog, '변경 이력', validateAuditLogEntry, () => '항목', rejected);
+  const fundTransfers = validateRecords(payload.fundTransfers, '재정 이체', validateFundTransfer, describeRawRecord, rejected);
+  const countingSessions = validateRecords(payload.countingSessions, '계수 회차', validateCountingSession, describeRawRecord, rejected);
+  const cashDeposits = validateRecords(payload.cashDeposits, '은행 입금', validateCashDeposit, describeRawRecord, rejected);
+
+  const incomeCategories = validateIncomeCategories(payload.incomeCategories, rejected);
+  const expenseCategories = Array.isArray(payload.expenseCategories)
+    ? payload.expenseCategories.filter((c): c is string => typeof c === 'string' && c.trim() !== '')
+    : [];
+  const budgets = validateBudgets(payload.budgets, rejected);
+  const reconciledThrough = typeof payload.reconciledThrough === 'string' && /^\d{4}-\d{2}$/.test(payload.reconciledThrough) ? payload.reconciledThrough : '';
+  const funds = Array.isArray(payload.funds)
+    ? Array.from(new Set([GENERAL_FUND, ...payload.funds.filter((f): f is string => typeof f === 'string' && f.trim() !== '')]))
+    : DEFAULT_FUNDS;
+  const fiscalYearStartMonth = typeof payload.fiscalYearStartMonth === 'number' && Number.isInteger(payload.fiscalYearStartMonth) && payload.fiscalYearStartMonth >= 1 && payload.fiscalYearStartMonth <= 12
+    ? payload.fiscalYearStartMonth
+    : 1;
+  const churchInfo = isPlainObject(payload.churchInfo)
+    ? { ...DEFAULT_CHURCH_INFO, ...payload.churchInfo } as ChurchInfo
+    : DEFAULT_CHURCH_INFO;
+
+  return {
+    data: { members, households, memberMerges, pledges, transactions, recurringExpenses, payees, periodClosings, fiscalYearStartMonth, expenseCategories, incomeCategories, funds, fundTransfers, budgets, countingSessions, cashDeposits, reconciledThrough, auditLog, churchInfo },
+    sourceVersion,
+    checksumValid,
+    rejected,
+  };
+};
+
+// --- 백업 파일 암호화 ---
+// 암호문에는 위의 백업 파일(JSON) 전체가 들어간다. 키는 암호 문구에서 PBKDF2로 유도한다.
+const BACKUP_KDF_ITERATIONS = 250000;
+
+interface EncryptedBackupFile {
+  app: string;
+  encrypted: true;
+  encryption: {
+    algorithm: 'AES-GCM';
+    kdf: 'PBKDF2-SHA256';
+    iterations: number;
+    salt: string;
+    iv: string;
+  };
+  ciphertext: string;
+}
+
+const deriveBackupKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const keyMaterial = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
   );
 };
 
-// --- 컴포넌트들 ---
+const encryptBackup = async (plainText: string, passphrase: string): Promise<EncryptedBackupFile> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveBackupKey(passphrase, salt, BACKUP_KDF_ITERATIONS);
+  const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plainText));
+  return {
+    app: BACKUP_APP_ID,
+    encrypted: true,
+    encryption: { algorithm: 'AES-GCM', kdf: 'PBKDF2-SHA256', iterations: BACKUP_KDF_ITERATIONS, salt: bytesToBase64(salt), iv: bytesToBase64(iv) },
+    ciphertext: bytesToBase64(new Uint8Array(cipher)),
+  };
+};
 
-const WeeklyCategorySummary: React.FC<{
-  weeklyGyeongsangbiBreakdown: { [key: string]: number };
-  weeklySeongyo: number;
-  weeklyGeonchuk: number;
-}> = ({ weeklyGyeongsangbiBreakdown, weeklySeongyo, weeklyGeonchuk }) => (
-  <section className="card periodical-summary category-breakdown-summary">
-    <div className="summary-row">
-      <span className="row-label">경상비</span>
-      <div className="row-values gyeongsangbi">
-        {Object.entries(weeklyGyeongsangbiBreakdown).map(([category, amount]) => (
-            <div className="value-item" key={category}>
-              <span className="value-label">{category}</span>
-              <span className="value-amount">{amount.toLocaleString()}원</span>
-            </div>
-        ))}
-      </div>
-    </div>
-    <div className="summary-row">
-      <span className="row-label">특별헌금</span>
-      <div className="row-values">
-        <div className="value-item">
-          <span className="value-label">선교헌금</span>
-          <span className="value-amount">{weeklySeongyo.toLocaleString()}원</span>
-        </div>
-        <div className="value-item">
-          <span className="value-label">건축헌금</span>
-          <span className="value-amount">{weeklyGeonchuk.toLocaleString()}원</span>
-        </div>
-      </div>
-    </div>
-  </section>
-);
+// 암호 문구가 틀리면 AES-GCM 인증 태그 검증이 실패하므로 별도의 오류 메시지로 바꾼다.
+const decryptBackup = async (file: EncryptedBackupFile, passphrase: string): Promise<string> => {
+  const { salt, iv, iterations } = file.encryption;
+  const key = await deriveBackupKey(passphrase, base64ToBytes(salt), iterations);
+  try {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(iv) }, key, base64ToBytes(file.ciphertext));
+    return new TextDecoder().decode(plain);
+  } catch {
+    throw new Error('암호 문구가 올바르지 않거나 파일이 손상되었습니다.');
+  }
+};
 
-const PeriodicalSummary: React.FC<{
-  weeklyIncome: number;
-  weeklyExpense: number;
-  yearlyIncome: number;
-  yearlyExpense: number;
-  weeklyBalance: number;
-  yearlyBalance: number;
-}> = ({ weeklyIncome, weeklyExpense, yearlyIncome, yearlyExpense, weeklyBalance, yearlyBalance }) => (
-  <section className="card periodical-summary">
-    <div className="summary-row">
-      <span className="row-label income-color">수입</span>
-      <div className="row-values">
-        <div className="value-item">
-          <span className="value-label">금주 총액</span>
-          <span className="value-amount">{weeklyIncome.toLocaleString()}원</span>
-        </div>
-        <div className="value-item">
-          <span className="value-label">금년 총액</span>
-          <span className="value-amount">{yearlyIncome.toLocaleString()}원</span>
-        </div>
-      </div>
-    </div>
-    <div className="summary-row">
-      <span className="row-label expense-color">지출</span>
-      <div className="row-values">
-        <div className="value-item">
-          <span className="value-label">금주 총액</span>
-          <span className="value-amount">{weeklyExpense.toLocaleString()}원</span>
+// 암호화된 백업 파일이면 그 내용을, 아니면 null을 돌려준다.
+const parseEncryptedBackup = (text: string): EncryptedBackupFile | null => {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (isPlainObject(parsed) && parsed.app === BACKUP_APP_ID && parsed.encrypted === true && isPlainObject(parsed.encryption) && typeof parsed.ciphertext === 'string') {
+      return parsed as unknown as EncryptedBackupFile;
+    }
+  } catch {
+    // JSON이 아니면 일반 불러오기 단계에서 오류를 알린다.
+  }
+  return null;
+};
+
+// --- LocalStorage 마이그레이션 ---
+// 버전 기록이 없는 저장소는 _v2 키를 쓰던 v2로 본다. 앱을 띄우기 전에 한 번 실행된다.
+const STORAGE_SCHEMA_VERSION = 6;
+const STORAGE_VERSION_KEY = 'church_storage_version';
+
+const STORAGE_MIGRATIONS: Record<number, () => void | Promise<void>> = {
+  // v3: 평문으로 저장하던 PIN을 솔트 해시로 바꾼다.
+  2: async () => {
+    const stored = localStorage.getItem('church_app_password_v2');
+    if (stored === null) return;
+    const pin = JSON.parse(stored);
+    if (typeof pin === 'string' && localStorage.getItem('church_app_pin_v3') === null) {
+      localStorage.setItem('church_app_pin_v3', JSON.stringify(await createStoredPin(pin)));
+    }
+    localStorage.removeItem('church_app_password_v2');
+  },
+  // v4: 하나뿐이던 PIN을 모든 권한을 가진 회계 사용자로 옮긴다.
+  3: () => {
+    const stored = localStorage.getItem('church_app_pin_v3');
+    if (stored === null) return;
+    const pin = JSON.parse(stored);
+    if (pin && localStorage.getItem('church_users_v4') === null) {
+      localStorage.setItem('church_users_v4', JSON.stringify([{ id: Date.now(), name: '회계', role: 'treasurer', pin }]));
+    }
+    localStorage.removeItem('church_app_pin_v3');
+  },
+  // v5: 입금 항목마다 들어갈 재정을 지정한다.
+  4: () => {
+    const stored = localStorage.getItem('church_income_categories_v2');
+    if (stored === null) return;
+    const categories = JSON.parse(stored);
+    if (!Array.isArray(categories)) return;
+    localStorage.setItem('church_income_categories_v2', JSON.stringify(
+      categories.map(c => (c && !c.fund ? { ...c, fund: defaultFundForCategory(c.name) } : c))
+    ));
+  },
+  // v6: 입금 거래에 지금의 항목 설정대로 재정을 기록해 둔다. 이후 항목의 재정을 바꿔도 기존 입금은 옮겨지지 않는다.
+  5: () => {
+    const stored = localStorage.getItem('church_transactions_v2');
+    if (stored === null) return;
+    const categories = localStorage.getItem('church_income_categories_v2');
+    localStorage.setItem('church_transactions_v2', JSON.stringify(
+      fillIncomeFunds(JSON.parse(stored), categories === null ? undefined : JSON.parse(categories))
+    ));
+  },
+};
+
+const detectStorageVersion = (): number => {
+  const stored = Number(localStorage.getItem(STORAGE_VERSION_KEY));
+  if (stored) return stored;
+  if (['church_members_v2', 'church_transactions_v2', 'church_app_password_v2'].some(key => localStorage.getItem(key) !== null)) return 2;
+  return STORAGE_SCHEMA_VERSION;
+};
+
+const migrateLocalStorage = async () => {
+  try {
+    for (let version = detectStorageVersion(); version < STORAGE_SCHEMA_VERSION; version++) {
+      await STORAGE_MIGRATIONS[version]?.();
+    }
+    localStorage.setItem(STORAGE_VERSION_KEY, String(STORAGE_SCHEMA_VERSION));
+  } catch (error) {
+    console.error('저장소 변환 오류:', error);
+  }
+};
+
+// --- 사용자와 권한 ---
+// 각 사용자의 PIN은 PBKDF2(SHA-256)로 솔트를 더해 해시한 값만 저장한다.
+interface StoredPin {
+  salt: string;
+  hash: string;
+  iterations: number;
+}
+
+type UserRole = 'treasurer' | 'counter' | 'viewer';
+
+type Permission =
+  | 'period:close'
+  | 'income:add'
+  | 'expense:add'
+  | 'funds:transfer'
+  | 'transaction:edit'
+  | 'members:manage'
+  | 'data:manage'
+  | 'reports:view'
+  | 'settings:manage'
+  | 'users:manage';
+
+interface AppUser {
+  id: number;
+  name: string;
+  role: UserRole;
+  pin: StoredPin;
+}
+
+// 연속 실패 횟수와 잠금 해제 시각 (새로고침해도 유지)
+interface PinLockState {
+  failedAttempts: number;
+  lockedUntil: number | null;
+}
+
+type PinPromptMode = 'create' | 'enter' | 'change';
+
+interface PinCredentials {
+  userId: number | null;
+  name: string;
+  pin: string;
+  newPin: string | null;
+}
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  treasurer: '회계',
+  counter: '계수위원',
+  viewer: '열람',
+};
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  treasurer: '모든 권한',
+  counter: '입금 등록만 가능',
+  viewer: '조회와 보고서만 가능',
+};
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  treasurer: ['period:close', 'income:add', 'expense:add', 'funds:transfer', 'transaction:edit', 'members:manage', 'data:manage', 'reports:view', 'settings:manage', 'users:manage'],
+  counter: ['income:add'],
+  viewer: ['reports:view'],
+};
+
+const hasPermission = (user: AppUser, permission: Permission) => ROLE_PERMISSIONS[user.role].includes(permission);
+
+const PIN_HASH_ITERATIONS = 100000;
+const PIN_MAX_ATTEMPTS = 5;
+const PIN_LOCK_BASE_SECONDS = 30;
+const PIN_LOCK_MAX_SECONDS = 15 * 60;
+const SESSION_MINUTE_OPTIONS = [0, 10, 30, 60];
+const INITIAL_PIN_LOCK: PinLockState = { failedAttempts: 0, lockedUntil: null };
+
+const derivePinHash = async (pin: string, salt: Uint8Array, iterations: number): Promise<string> => {
+  const keyMaterial = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, keyMaterial, 256);
+  return bytesToBase64(new Uint8Array(bits));
+};
+
+const createStoredPin = async (pin: string): Promise<StoredPin> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { salt: bytesToBase64(salt), hash: await derivePinHash(pin, salt, PIN_HASH_ITERATIONS), iterations: PIN_HASH_ITERATIONS };
+};
+
+const verifyPin = async (pin: string, stored: StoredPin): Promise<boolean> =>
+  (await derivePinHash(pin, base64ToBytes(stored.salt), stored.iterations)) === stored.hash;
+
+// 허용 횟수를 넘기면 실패할 때마다 잠금 시간이 두 배로 늘어난다.
+const registerPinFailure = (state: PinLockState): PinLockState => {
+  const failedAttempts = state.failedAttempts + 1;
+  if (failedAttempts < PIN_MAX_ATTEMPTS) return { failedAttempts, lockedUntil: null };
+  const seconds = Math.min(PIN_LOCK_BASE_SECONDS * 2 ** (failedAttempts - PIN_MAX_ATTEMPTS), PIN_LOCK_MAX_SECONDS);
+  return { failedAttempts, lockedUntil: Date.now() + seconds * 1000 };
+};
+
+const PasswordModal: React.FC<{
+  mode: PinPromptMode;
+  users: AppUser[];
+  defaultUserId: number | null;
+  notice?: string;
+  lockedUntil: number | null;
+  sessionMinutes: number;
+  onSessionMinutesChange: (minutes: number) => void;
+  onClose: () => void;
+  // 실패 시 표시할 오류 메시지를, 성공 시 null을 돌려준다.
+  onConfirm: (credentials: PinCredentials) => Promise<string | null>;
+}> = ({ mode, users, defaultUserId, notice, lockedUntil, sessionMinutes, onSessionMinutesChange, onClose, onConfirm }) => {
+  const [userId, setUserId] = useState<number | ''>(defaultUserId ?? users[0]?.id ?? '');
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [now, setNow] = useState(Date.now);
+
+  const lockRemainingSeconds = lockedUntil ? Math.max(0, Math.ceil((lockedUntil - now) / 1000)) : 0;
+  const isLocked = lockRemainingSeconds > 0;
+
+  useEffect(() => {
+    if (!lockedUntil || lockedUntil <= Date.now()) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (isLocked || submitting) return;
+
+    if (mode === 'create' && !name.trim()) {
+      setError('사용자 이름을 입력해주세요.');
+      return;
+    }
+
+    if (mode !== 'create' && userId === '') {
+      setError('사용자를 선택해주세요.');
+      return;
+    }
+
+    if (!/^\d{4}$/.test(password)) {
+      setError('비밀번호는 4자리 숫자여야 합니다.');
+      return;
+    }
+
+    if (mode === 'create' && password !== confirmPassword) {
+      setError('비밀번호가 일치하지 않습니다.');
+      return;
+    }
+
+    if (mode === 'change') {
+      if (!/^\d{4}$/.test(newPassword)) {
+        setError('새 비밀번호는 4자리 숫자여야 합니다.');
+        return;
+      }
+      if (newPassword !== confirmPassword) {
+        setError('새 비밀번호가 일치하지 않습니다.');
+        return;
+      }
+    }
+
+    setSubmitting(true);
+    const result = await onConfirm({
+      userId: userId === '' ? null : Number(userId),
+      name: name.trim(),
+      pin: password,
+      newPin: mode === 'change' ? newPassword : null,
+    });
+    setSubmitting(false);
+    if (result) {
+      setError(result);
+      setPassword('');
+    }
+  };
+
+  const title = mode === 'create' ? '관리자 등록' : mode === 'change' ? '비밀번호 변경' : '비밀번호 입력';
+
+  return (
+    <div className="modal-backdrop">
+      <div className="modal-content">
+        <button onClick={onClose} className="close-btn">&times;</button>
+        <h2>{title}</h2>
+        {mode === 'create' && <p className="form-hint">처음 등록하는 사용자는 모든 권한을 가진 회계 담당자가 됩니다.</p>}
+        {notice && <p className="form-hint">{notice}</p>}
+        <form onSubmit={handleSubmit}>
+          {mode === 'create' ? (
+            <div className="form-group">
+              <label htmlFor="user-name-input">사용자 이름</label>
+              <input id="user-name-input" type="text" value={name} onChange={e => setName(e.target.value)} required autoFocus />
+            </div>
+          ) : (
+            <div className="form-group">
+              <label htmlFor="user-select">사용자</label>
+              <select id="user-select" value={userId} onChange={e => setUserId(Number(e.target.value))} disabled={isLocked}>
+                {users.map(u => <option key={u.id} value={u.id}>{u.name} ({ROLE_LABELS[u.role]})</option>)}
+              </select>
+            </div>
+          )}
+          <div className="form-group">
+            <label htmlFor="password-input">{mode === 'create' ? '새 비밀번호 (4자리 숫자)' : mode === 'change' ? '현재 비밀번호' : '비밀번호'}</label>
+            <input
+              id="password-input"
+              type="password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              maxLength={4}
+              inputMode="numeric"
+              autoComplete="new-password"
+              disabled={isLocked}
+              required
+              autoFocus={mode !== 'create'}
+            />
+          </div>
+          {mode === 'change' && (
+            <div className="form-group">
+              <label htmlFor="new-password-input">새 비밀번호 (4자리 숫자)</label>
+              <input
+                id="new-password-input"
+                type="password"
+                value={newPassword}
+                onChange={e => setNewPassword(e.target.value)}
+                maxLength={4}
+                inputMode="numeric"
+                autoComplete="new-password"
+                disabled={isLocked}
+                required
+              />
+            </div>
+          )}
+          {mode !== 'enter' && (
+            <div className="form-group">
+              <label htmlFor="confirm-password-input">{mode === 'change' ? '새 비밀번호 확인' : '비밀번호 확인'}</label>
+              <input
+                id="confirm-password-input"
+                type="password"
+                value={confirmPassword}
+                onChange={e => setConfirmPassword(e.target.value)}
+                maxLength={4}
+                inputMode="numeric"
+                autoComplete="new-password"
+                disabled={isLocked}
+                required
+              />
+            </div>
+          )}
+          {mode !== 'change' && (
+            <div className="form-group">
+              <label htmlFor="session-minutes">잠금 해제 유지</label>
+              <select id="session-minutes" value={sessionMinutes} onChange={e => onSessionMinutesChange(Number(e.target.value))}>
+                {SESSION_MINUTE_OPTIONS.map(m => <option key={m} value={m}>{m === 0 ? '매번 비밀번호 입력' : `${m}분 동안 다시 묻지 않기`}</option>)}
+              </select>
+            </div>
+          )}
+          {isLocked && <p className="error-message">입력 시도가 너무 많습니다. {lockRemainingSeconds}초 후에 다시 시도해 주세요.</p>}
+          {error && !isLocked && <p className="error-message">{error}</p>}
+          <button type="submit" className="submit-btn full-width" disabled={isLocked || submitting}>확인</button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+const UsersModal: React.FC<{
+  users: AppUser[];
+  currentUserId: number | null;
+  onAddUser: (name: string, role: UserRole, pin: string) => Promise<void>;
+  onUpdateRole: (id: number, role: UserRole) => void;
+  onResetPin: (id: number, pin: string) => Promise<void>;
+  onDeleteUser: (id: number) => void;
+  onClose: () => void;
+}> = ({ users, currentUserId, onAddUser, onUpdateRole, onResetPin, onDeleteUser, onClose }) => {
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<UserRole>('counter');
+  const [pin, setPin] = useState('');
+
+  const treasurerCount = users.filter(u => u.role === 'treasurer').length;
+  const isLastTreasurer = (user: AppUser) => user.role === 'treasurer' && treasurerCount <= 1;
+
+  const handleAdd = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      alert('사용자 이름을 입력해주세요.');
+      return;
+    }
+    if (users.some(u => u.name === name.trim())) {
+      alert('같은 이름의 사용자가 이미 있습니다.');
+      return;
+    }
+    if (!/^\d{4}$/.test(pin)) {
+      alert('비밀번호는 4자리 숫자여야 합니다.');
+      return;
+    }
+    await onAddUser(name.trim(), role, pin);
+    setName('');
+    setPin('');
+  };
+
+  const handleResetPin = async (user: AppUser) => {
+    const newPin = prompt(`${user.name}님의 새 비밀번호 (4자리 숫자)를 입력하세요:`);
+    if (newPin === null) return;
+    if (!/^\d{4}$/.test(newPin)) {
+      alert('비밀번호는 4자리 숫자여야 합니다.');
+      return;
+    }
+    await onResetPin(user.id, newPin);
+    alert(`${user.name}님의 비밀번호를 재설정했습니다.`);
+  };
+
+  const handleDelete = (user: AppUser) => {
+    if (window.confirm(`${user.name} (${ROLE_LABELS[user.role]}) 사용자를 삭제하시겠습니까?`)) {
+      onDeleteUser(user.id);
+    }
+  };
+
+  return (
+    <div className="modal-backdrop">
+      <div className="modal-content large scrollable">
+        <button onClick={onClose} className="close-btn">&times;</button>
+        <h2>사용자 관리</h2>
+        <ul className="member-list">
+          {users.map(user => (
+            <li key={user.id} className="member-item">
+              <div className="member-info">
+                <span>{user.name}{user.id === currentUserId ? ' (현재 사용자)' : ''}</span>
+                <small>{ROLE_DESCRIPTIONS[user.role]}</small>
+              </div>
+              <div className="member-actions">
+                <select
+                  value={user.role}
+                  onChange={e => onUpdateRole(user.id, e.target.value as UserRole)}
+                  disabled={isLastTreasurer(user)}
+                >
+                  {(Object.keys(ROLE_LABELS) as UserRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                </select>
+                <button onClick={() => handleResetPin(user)} className="edit-btn">비밀번호 재설정</button>
+                <button onClick={() => handleDelete(user)} className="delete-btn" disabled={isLastTreasurer(user)}>삭제</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={handleAdd} className="transaction-form user-add-form">
+          <div className="form-group">
+            <label htmlFor="new-user-name">이름</label>
+            <input id="new-user-name" type="text" value={name} onChange={e => setName(e.target.value)} required />
+          </div>
+          <div className="form-group">
+            <label htmlFor="new-user-role">역할</label>
+            <select id="new-user-role" value={role} onChange={e => setRole(e.target.value as UserRole)}>
+              {(Object.keys(ROLE_LABELS) as UserRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="new-user-pin">비밀번호 (4자리 숫자)</label>
+            <input id="new-user-pin" type="password" value={pin} onChange={e => setPin(e.target.value)} maxLength={4} inputMode="numeric" autoComplete="new-password" required />
+          </div>
+          <button type="submit" className="submit-btn">사용자 추가</button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+const App: React.FC = () => {
+  const [view, setView] = useState<'main' | 'addMember' | 'search' | 'editMembers' | 'auditLog' | 'receipts' | 'weeklyReport' | 'csvImport' | 'users' | 'incomeCategories' | 'funds' | 'budget' | 'counting' | 'bankReconcile' | 'memberDetail' | 'households' | 'duplicates' | 'pledges' | 'recurring' | 'recurringQueue' | 'payees' | 'closings' | 'statement'>('main');
+  const [detailMemberId, setDetailMemberId] = useState<number | null>(null);
+  const [activeTab, setActiveTab] = useState<'income' | 'expense'>('income');
+  
+  const [members, setMembers] = usePersistentState<Member[]>('church_members_v2', []);
+  const [transactions, setTransactions] = usePersistentState<Transaction[]>('church_transactions_v2', []);
+  const [expenseCategories, setExpenseCategories] = usePersistentState<string[]>('church_expense_categories_v2', ['운영비', '선교비', '구제비']);
+  const [users, setUsers] = usePersistentState<AppUser[]>('church_users_v4', []);
+  const [pinLock, setPinLock] = usePersistentState<PinLockState>('church_pin_lock_v3', INITIAL_PIN_LOCK);
+  const [sessionMinutes, setSessionMinutes] = usePersistentState<number>('church_session_minutes_v3', 0);
+  const [session, setSession] = useState<{ userId: number; expiresAt: number } | null>(null);
+  const [lastUserId, setLastUserId] = useState<number | null>(null);
+  const [auditLog, setAuditLog] = usePersistentState<AuditLogEntry[]>('church_audit_log_v2', []);
+  const [churchInfo, setChurchInfo] = usePersistentState<ChurchInfo>('church_info_v2', DEFAULT_CHURCH_INFO);
+  const [incomeCategories, setIncomeCategories] = usePersistentState<IncomeCategory[]>('church_income_categories_v2', DEFAULT_INCOME_CATEGORIES);
+  const [funds, setFunds] = usePersistentState<string[]>('church_funds_v2', DEFAULT_FUNDS);
+  const [fundTransfers, setFundTransfers] = usePersistentState<FundTransfer[]>('church_fund_transfers_v2', []);
+  const [budgets, setBudgets] = usePersistentState<BudgetLine[]>('church_budgets_v2', []);
+  const [countingSessions, setCountingSessions] = usePersistentState<CountingSession[]>('church_counting_sessions_v2', []);
+  const [cashDeposits, setCashDeposits] = usePersistentState<CashDeposit[]>('church_cash_deposits_v2', []);
+  const [households, setHouseholds] = usePersistentState<Household[]>('church_households_v2', []);
+  const [memberMerges, setMemberMerges] = usePersistentState<MemberMerge[]>('church_member_merges_v2', []);
+  const [pledges, setPledges] = usePersistentState<Pledge[]>('church_pledges_v2', []);
+  const [recurringExpenses, setRecurringExpenses] = usePersistentState<RecurringExpense[]>('church_recurring_expenses_v2', []);
+  const [payees, setPayees] = usePersistentState<Payee[]>('church_payees_v2', []);
+  const [periodClosings, setPeriodClosings] = usePersistentState<PeriodClosing[]>('church_period_closings_v2', []);
+  const [fiscalYearStartMonth, setFiscalYearStartMonth] = usePersistentState<number>('church_fiscal_year_start_month_v2', 1);
+  const [reconciledThrough, setReconciledThrough] = usePersistentState<string>('church_reconciled_through_v2', '');
+  const [editingTransaction, setEditingTransaction] = useState<{ transaction: Transaction; actor: string } | null>(null);
+  const [editingEnvelope, setEditingEnvelope] = useState<{ lines: Transaction[]; actor: string } | null>(null);
+  const [importReport, setImportReport] = useState<BackupReadResult | null>(null);
+  const [pendingBackup, setPendingBackup] = useState<BackupReadResult | null>(null);
+  const [mergeSource, setMergeSource] = useState<BackupReadResult | null>(null);
+  const [showSaveModal, setShowSaveModal] = useState(false);
+  const [encryptedBackup, setEncryptedBackup] = useState<EncryptedBackupFile | null>(null);
+
+  const [pinPrompt, setPinPrompt] = useState<{
+    mode: PinPromptMode;
+    permission?: Permission;
+    notice?: string;
+    action?: (user: AppUser) => void;
+  } | null>(null);
+
+  const sessionUser = session ? users.find(u => u.id === session.userId) ?? null : null;
+
+  // --- 마감 잠금 ---
+  const lockedThrough = getLockedThrough(periodClosings);
+
+  // 마감된 날짜가 하나라도 있으면 알리고 false를 돌려준다. 보호 작업의 비밀번호를 묻기 전에 확인한다.
+  const ensurePeriodOpen = (dates: string[]): boolean => {
+    const locked = dates.filter(date => lockedThrough && date <= lockedThrough).sort();
+    if (locked.length === 0) return true;
+    alert(`${formatKoreanDate(lockedThrough)}까지 마감되었습니다. (${locked[0]} 거래)\n마감된 기간의 거래를 추가·수정·삭제하려면 관리자가 먼저 마감을 해제해야 합니다.`);
+    return false;
+  };
+
+  // --- 새 성도 추가 핸들러 ---
+  const handleAddMember = (profile: MemberProfile) => {
+    if (!profile.name.trim()) {
+        alert("성도 이름을 입력해주세요.");
+        return;
+    }
+    const newMember: Member = { ...profile, id: generateId() };
+    setMembers(prev => [...prev, newMember].sort((a, b) => a.name.localeCompare(b.name, 'ko')));
+    setView('main');
+  };
+
+  // --- 성도 수정/활동 상태 핸들러 ---
+  const handleUpdateMember = (id: number, changes: Partial<MemberProfile>) => {
+    setMembers(prev => prev.map(m => m.id === id ? { ...m, ...changes } : m)
+                           .sort((a, b) => a.name.localeCompare(b.name, 'ko')));
+  };
+
+  // 성도는 삭제하지 않고 비활동으로 돌린다. 입력 목록에서만 빠지고 과거 내역의 이름은 유지된다.
+  const handleSetMemberActive = (id: number, active: boolean) => {
+    setMembers(prev => prev.map(m => {
+      if (m.id !== id) return m;
+      const { active: _previous, ...rest } = m;
+      return active ? rest : { ...rest, active: false };
+    }));
+  };
+
+  const openMemberDetail = (id: number) => {
+    setDetailMemberId(id);
+    setView('memberDetail');
+  };
+
+  // --- 성도 병합 핸들러 ---
+  // 병합된 성도의 거래·계수 봉투·영수증 수령인 지정을 남길 성도로 옮기고 목록에서 뺀다.
+  const handleMergeMembers = (survivorId: number, mergedId: number) => {
+    if (!ensurePeriodOpen(transactions.filter(tx => tx.memberId === mergedId).map(tx => tx.date))) return;
+    runProtectedAction('members:manage', user => {
+      const merged = members.find(m => m.id === mergedId);
+      const survivor = members.find(m => m.id === survivorId);
+      if (!merged || !survivor || survivorId === mergedId) return;
+      const transactionIds = transactions.filter(tx => tx.memberId === mergedId).map(tx => tx.id);
+      const countingEnvelopes = countingSessions.flatMap(session =>
+        session.envelopes.map((envelope, index) => ({ sessionId: session.id, index, memberId: envelope.memberId }))
+          .filter(e => e.memberId === mergedId)
+          .map(({ sessionId, index }) => ({ sessionId, index })));
+      const receiptHouseholdIds = households.filter(h => h.receiptMemberId === mergedId).map(h => h.id);
+      const pledgeIds = pledges.filter(p => p.memberId === mergedId).map(p => p.id);
+      if (!window.confirm(`${merged.name} (${merged.position}) 님을 ${survivor.name} (${survivor.position}) 님으로 병합합니다.\n거래 ${transactionIds.length}건이 옮겨지고 ${merged.name} (${merged.position}) 님은 목록에서 빠집니다. 병합 이력에서 되돌릴 수 있습니다.`)) return;
+
+      const transactionIdSet = new Set(transactionIds);
+      setTransactions(prev => prev.map(tx => transactionIdSet.has(tx.id) ? { ...tx, memberId: survivorId } : tx));
+      setCountingSessions(prev => prev.map(session => ({
+        ...session,
+        envelopes: session.envelopes.map(envelope => envelope.memberId === mergedId ? { ...envelope, memberId: survivorId } : envelope),
+      })));
+      setHouseholds(prev => prev.map(h => h.receiptMemberId === mergedId ? { ...h, receiptMemberId: survivorId } : h));
+      setPledges(prev => prev.map(p => p.memberId === mergedId ? { ...p, memberId: survivorId } : p));
+      setMembers(prev => prev.filter(m => m.id !== mergedId));
+      setMemberMerges(prev => [...prev, {
+        id: generateId(),
+        timestamp: new Date().toISOString(),
+        survivorId,
+        merged,
+        transactionIds,
+        countingEnvelopes,
+        receiptHouseholdIds,
+        pledgeIds,
+        actor: user.name,
+      }]);
+    });
+  };
+
+  // 병합을 되돌린다. 그 사이 다른 성도로 바뀐 거래는 건드리지 않는다.
+  const handleUndoMemberMerge = (mergeId: number) => {
+    runProtectedAction('members:manage', () => {
+      const merge = memberMerges.find(m => m.id === mergeId);
+      if (!merge || merge.undoneAt) return;
+      const mergedIdSet = new Set(merge.transactionIds);
+      if (!ensurePeriodOpen(transactions.filter(tx => mergedIdSet.has(tx.id) && tx.memberId === merge.survivorId).map(tx => tx.date))) return;
+      if (members.some(m => m.id === merge.merged.id)) {
+        alert('병합된 성도가 이미 목록에 있어 되돌릴 수 없습니다.');
+        return;
+      }
+      if (!window.confirm(`${merge.merged.name} (${merge.merged.position}) 님의 병합을 되돌리시겠습니까?`)) return;
+      const transactionIdSet = new Set(merge.transactionIds);
+      const envelopeKeys = new Set(merge.countingEnvelopes.map(e => `${e.sessionId}-${e.index}`));
+      const householdIdSet = new Set(merge.receiptHouseholdIds);
+      const pledgeIdSet = new Set(merge.pledgeIds ?? []);
+      setTransactions(prev => prev.map(tx => transactionIdSet.has(tx.id) && tx.memberId === merge.survivorId ? { ...tx, memberId: merge.merged.id } : tx));
+      setCountingSessions(prev => prev.map(session => ({
+        ...session,
+        envelopes: session.envelopes.map((envelope, index) =>
+          envelopeKeys.has(`${session.id}-${index}`) && envelope.memberId === merge.survivorId ? { ...envelope, memberId: merge.merged.id } : envelope),
+      })));
+      setHouseholds(prev => prev.map(h => householdIdSet.has(h.id) && h.receiptMemberId === merge.survivorId ? { ...h, receiptMemberId: merge.merged.id } : h));
+      setPledges(prev => prev.map(p => pledgeIdSet.has(p.id) && p.memberId === merge.survivorId ? { ...p, memberId: merge.merged.id } : p));
+      setMembers(prev => [...prev, merge.merged].sort((a, b) => a.name.localeCompare(b.name, 'ko')));
+      setMemberMerges(prev => prev.map(m => m.id === mergeId ? { ...m, undoneAt: new Date().toISOString() } : m));
+    });
+  };
+
+  // 무명 헌금용으로 만들어 둔 가짜 성도의 입금을 무명 헌금으로 바꾸고 그 성도는 비활동으로 돌린다.
+  const handleConvertAnonymousMember = (memberId: number) => {
+    if (!ensurePeriodOpen(transactions.filter(tx => tx.type === 'income' && tx.memberId === memberId).map(tx => tx.date))) return;
+    runProtectedAction('members:manage', user => {
+      const member = members.find(m => m.id === memberId);
+      if (!member) return;
+      const affected = transactions.filter(tx => tx.type === 'income' && tx.memberId === memberId);
+      if (!window.confirm(`'${member.name} (${member.position})' 앞으로 기록된 입금 ${affected.length}건을 ${ANONYMOUS_DONOR} 헌금으로 바꾸고, 이 성도는 비활동으로 돌립니다. 계속하시겠습니까?`)) return;
+      const toAnonymous = <T extends { memberId?: number }>(record: T): T => {
+        const { memberId: _previous, ...rest } = record;
+        return rest as T;
+      };
+      const affectedIds = new Set(affected.map(tx => tx.id));
+      setTransactions(prev => prev.map(tx => affectedIds.has(tx.id) ? toAnonymous(tx) : tx));
+      setCountingSessions(prev => prev.map(session => ({
+        ...session,
+        envelopes: session.envelopes.map(envelope => envelope.memberId === memberId ? toAnonymous(envelope) : envelope),
+      })));
+      setMembers(prev => prev.map(m => m.id === memberId ? { ...m, active: false } : m));
+      const timestamp = new Date().toISOString();
+      setAuditLog(prev => [
+        ...prev,
+        ...affected.map(tx => ({ id: generateId(), timestamp, action: 'update' as const, transactionId: tx.id, before: tx, after: toAnonymous(tx), actor: user.name })),
+      ]);
+    });
+  };
+
+  // --- 가정 핸들러 ---
+  const handleAddHousehold = (name: string) => {
+    if (!name.trim()) {
+      alert('가정 이름을 입력해주세요.');
+      return;
+    }
+    if (households.some(h => h.name === name.trim())) {
+      alert('이미 있는 가정 이름입니다.');
+      return;
+    }
+    setHouseholds(prev => [...prev, { id: generateId(), name: name.trim() }].sort((a, b) => a.name.localeCompare(b.name, 'ko')));
+  };
+
+  const handleUpdateHousehold = (id: number, changes: Partial<Omit<Household, 'id'>>) => {
+    setHouseholds(prev => prev.map(h => h.id === id ? { ...h, ...changes } : h)
+                              .sort((a, b) => a.name.localeCompare(b.name, 'ko')));
+  };
+
+  const handleSetMemberHousehold = (memberId: number, householdId?: number) => {
+    setMembers(prev => prev.map(m => {
+      if (m.id !== memberId) return m;
+      const { householdId: _previous, ...rest } = m;
+      return householdId === undefined ? rest : { ...rest, householdId };
+    }));
+    // 가정을 떠난 구성원이 영수증 수령인이었다면 지정을 푼다.
+    setHouseholds(prev => prev.map(h => h.receiptMemberId === memberId && h.id !== householdId ? { id: h.id, name: h.name } : h));
+  };
+
+  // 가정을 없애도 구성원과 헌금 내역은 그대로 두고 연결만 끊는다.
+  const handleDeleteHousehold = (id: number) => {
+    setMembers(prev => prev.map(m => {
+      if (m.householdId !== id) return m;
+      const { householdId: _previous, ...rest } = m;
+      return rest;
+    }));
+    setHouseholds(prev => prev.filter(h => h.id !== id));
+  };
+
+  // --- 새 거래 추가 핸들러 ---
+  // 입력한 사용자를 함께 기록한다. 입금과 출금은 필요한 권한이 다르다.
+  // 비밀번호 확인을 취소하면 저장되지 않으므로, 양식은 onDone에서만 비운다.
+  const handleAddTransaction = (tx: Omit<Transaction, 'id'>, onDone: () => void) => {
+    if (!ensurePeriodOpen([tx.date])) return;
+    runProtectedAction(tx.type === 'income' ? 'income:add' : 'expense:add', user => {
+      setTransactions(prev => [...prev, { ...tx, id: generateId(), enteredBy: user.name, fund: getTransactionFund(tx, incomeCategories) }]);
+      onDone();
+    });
+  };
+
+  // --- 봉투 헌금 추가 핸들러 ---
+  // 여러 항목을 한 봉투로 낸 경우 줄마다 입금 거래를 만들고 같은 봉투 id로 묶는다.
+  const handleAddEnvelope = (lines: Omit<Transaction, 'id'>[], onDone: () => void) => {
+    if (!ensurePeriodOpen(lines.map(line => line.date))) return;
+    runProtectedAction('income:add', user => {
+      const envelopeId = lines.length > 1 ? generateId() : undefined;
+      setTransactions(prev => [
+        ...prev,
+        ...lines.map(line => ({ ...line, id: generateId(), enteredBy: user.name, fund: getCategoryFund(line.category, incomeCategories), ...(envelopeId ? { envelopeId } : {}) })),
+      ]);
+      onDone();
+    });
+  };
+
+  // --- 주일 계수 마감 핸들러 ---
+  // 봉투마다 입금 거래를 만들고 회차를 기록한다. 마감한 사용자도 함께 남긴다.
+  const handleFinalizeCounting = (draft: Omit<CountingSession, 'id' | 'transactionIds' | 'finalizedAt' | 'finalizedBy'>, onDone: (session: CountingSession) => void) => {
+    if (!ensurePeriodOpen([draft.date])) return;
+    runProtectedAction('income:add', user => {
+      const sessionId = generateId();
+      const newTransactions: Transaction[] = draft.envelopes.map(envelope => ({
+        id: generateId(),
+        type: 'income',
+        date: draft.date,
+        category: envelope.category,
+        amount: envelope.amount,
+        memberId: envelope.memberId,
+        fund: getCategoryFund(envelope.category, incomeCategories),
+        enteredBy: user.name,
+        countingSessionId: sessionId,
+        paymentMethod: envelope.paymentMethod ?? 'cash',
+      }));
+      const session: CountingSession = {
+        ...draft,
+        id: sessionId,
+        transactionIds: newTransactions.map(tx => tx.id),
+        finalizedAt: new Date().toISOString(),
+        finalizedBy: user.name,
+      };
+      setTransactions(prev => [...prev, ...newTransactions]);
+      setCountingSessions(prev => [...prev, session]);
+      onDone(session);
+    });
+  };
+
+  // --- CSV 가져오기 반영 핸들러 ---
+  const handleImportCsv = (newMembers: Member[], newTransactions: Transaction[], newExpenseCategories: string[]) => {
+    if (!ensurePeriodOpen(newTransactions.map(tx => tx.date))) return;
+    if (newMembers.length > 0) {
+      setMembers(prev => [...prev, ...newMembers].sort((a, b) => a.name.localeCompare(b.name, 'ko')));
+    }
+    if (newTransactions.length > 0) {
+      setTransactions(prev => [...prev, ...newTransactions.map(tx => ({ ...tx, fund: getTransactionFund(tx, incomeCategories) }))]);
+    }
+    if (newExpenseCategories.length > 0) {
+      setExpenseCategories(prev => [...prev, ...newExpenseCategories.filter(c => !prev.includes(c))]);
+    }
+    alert(`가져오기 완료: 성도 ${newMembers.length}명, 거래 ${newTransactions.length}건을 추가했습니다.`);
+    setView('main');
+  };
+
+  // --- 거래 수정/삭제 핸들러 (변경 이력 기록) ---
+  const appendAuditLog = (entry: Omit<AuditLogEntry, 'id' | 'timestamp'>) => {
+    setAuditLog(prev => [...prev, { ...entry, id: generateId(), timestamp: new Date().toISOString() }]);
+  };
+
+  const handleUpdateTransaction = (updated: Transaction) => {
+    const before = transactions.find(tx => tx.id === updated.id);
+    if (!before || !editingTransaction) return;
+    if (!ensurePeriodOpen([updated.date])) return;
+    // 입금 항목을 바꾸면 재정도 새 항목의 재정으로 바뀐다.
+    const after = updated.type === 'income' && updated.category !== before.category
+      ? { ...updated, fund: getCategoryFund(updated.category, incomeCategories) }
+      : updated;
+    setTransactions(prev => prev.map(tx => tx.id === after.id ? after : tx));
+    appendAuditLog({ action: 'update', transactionId: after.id, before, after, actor: editingTransaction.actor });
+    setEditingTransaction(null);
+  };
+
+  const handleDeleteTransaction = (id: number, actor: string) => {
+    const before = transactions.find(tx => tx.id === id);
+    if (!before) return;
+    setTransactions(prev => prev.filter(tx => tx.id !== id));
+    appendAuditLog({ action: 'delete', transactionId: id, before, actor });
+  };
+
+  // 봉투의 줄은 id가 남아 있으면 수정, 빠졌으면 삭제, 새로 생기면 추가한다. 수정·삭제는 줄마다 이력에 남긴다.
+  const handleUpdateEnvelope = (date: string, memberId: number | undefined, paymentMethod: PaymentMethod, lines: EnvelopeLine[]) => {
+    if (!editingEnvelope) return;
+    if (!ensurePeriodOpen([date])) return;
+    const { actor } = editingEnvelope;
+    const before = editingEnvelope.lines;
+    const envelopeId = before[0].envelopeId;
+    const updatedById = new Map<number, Transaction>();
+    lines.forEach(line => {
+      const original = before.find(tx => tx.id === line.id);
+      if (!original) return;
+      const fund = line.category === original.category ? original.fund : getCategoryFund(line.category, incomeCategories);
+      updatedById.set(original.id, { ...original, date, memberId, paymentMethod, category: line.category, amount: line.amount, fund });
+    });
+    const added: Transaction[] = lines
+      .filter(line => line.id === undefined)
+      .map(line => ({ id: generateId(), type: 'income', date, category: line.category, amount: line.amount, memberId, fund: getCategoryFund(line.category, incomeCategories), paymentMethod, enteredBy: actor, envelopeId }));
+    const removed = before.filter(tx => !updatedById.has(tx.id));
+
+    setTransactions(prev => [
+      ...prev.filter(tx => !removed.some(r => r.id === tx.id)).map(tx => updatedById.get(tx.id) ?? tx),
+      ...added,
+    ]);
+    before.forEach(tx => {
+      const after = updatedById.get(tx.id);
+      if (!after) {
+        appendAuditLog({ action: 'delete', transactionId: tx.id, before: tx, actor });
+      } else if (JSON.stringify(after) !== JSON.stringify(tx)) {
+        appendAuditLog({ action: 'update', transactionId: tx.id, before: tx, after, actor });
+      }
+    });
+    setEditingEnvelope(null);
+  };
+
+  const envelopeLinesOf = (tx: Transaction) =>
+    tx.envelopeId === undefined ? [tx] : transactions.filter(t => t.envelopeId === tx.envelopeId);
+
+  const requestEditTransaction = (id: number) => {
+    const tx = transactions.find(t => t.id === id);
+    if (!tx) return;
+    if (!ensurePeriodOpen(envelopeLinesOf(tx).map(line => line.date))) return;
+    runProtectedAction('transaction:edit', user => {
+      if (tx.envelopeId !== undefined) {
+        setEditingEnvelope({ lines: envelopeLinesOf(tx), actor: user.name });
+      } else {
+        setEditingTransaction({ transaction: tx, actor: user.name });
+      }
+    });
+  };
+
+  // 봉투로 묶인 입금은 봉투 전체를 삭제한다.
+  const requestDeleteTransaction = (id: number) => {
+    const tx = transactions.find(t => t.id === id);
+    if (!tx) return;
+    const lines = envelopeLinesOf(tx);
+    if (!ensurePeriodOpen(lines.map(line => line.date))) return;
+    const description = lines.length > 1
+      ? `${tx.date} ${getMemberName(tx.memberId)} 봉투 (${lines.map(l => l.category).join(', ')}) ${lines.reduce((sum, l) => sum + l.amount, 0).toLocaleString()}원 전체를`
+      : `${tx.date} ${tx.category} ${tx.amount.toLocaleString()}원 거래를`;
+    runProtectedAction('transaction:edit', user => {
+      if (window.confirm(`${description} 삭제하시겠습니까?\n삭제 내역은 변경 이력에 기록됩니다.`)) {
+        lines.forEach(line => handleDeleteTransaction(line.id, user.name));
+      }
+    });
+  };
+  
+  // --- 통장 대사 핸들러 ---
+  // 짝이 맞은 장부 항목에 통장 날짜를 기록한다. 이미 같은 날짜로 대사된 항목은 그대로 둔다.
+  const handleApplyReconciliation = (matches: BankMatch[]) => {
+    runProtectedAction('data:manage', user => {
+      // 마감된 기간의 거래는 건드리지 않는다.
+      const open = matches.filter(m => !lockedThrough || m.ledger.date > lockedThrough);
+      const txDates = new Map(open.filter(m => m.ledger.kind === 'transaction').map(m => [m.ledger.id, m.row.date]));
+      const depositDates = new Map(open.filter(m => m.ledger.kind === 'deposit').map(m => [m.ledger.id, m.row.date]));
+      const changed = transactions.filter(tx => txDates.has(tx.id) && tx.bankReconciledOn !== txDates.get(tx.id));
+      setTransactions(prev => prev.map(tx => txDates.has(tx.id) ? { ...tx, bankReconciledOn: txDates.get(tx.id) } : tx));
+      setCashDeposits(prev => prev.map(d => depositDates.has(d.id) ? { ...d, bankReconciledOn: depositDates.get(d.id) } : d));
+      const timestamp = new Date().toISOString();
+      setAuditLog(prev => [
+        ...prev,
+        ...changed.map(tx => ({ id: generateId(), timestamp, action: 'update' as const, transactionId: tx.id, before: tx, after: { ...tx, bankReconciledOn: txDates.get(tx.id) }, actor: user.name })),
+      ]);
+      const skipped = matches.length - open.length;
+      alert(`${open.length}건을 대사 완료로 표시했습니다.${skipped > 0 ? `\n마감된 기간의 ${skipped}건은 제외했습니다.` : ''}`);
+    });
+  };
+
+  // 통장에만 있는 입금을 바로 입금 거래로 등록한다. 통장에서 온 것이므로 대사된 상태로 만든다.
+  const handleCreateIncomeFromBank = (row: BankStatementRow, memberId: number, category: string) => {
+    if (!ensurePeriodOpen([row.date])) return;
+    runProtectedAction('income:add', user => {
+      setTransactions(prev => [...prev, {
+        id: generateId(),
+        type: 'income',
+        date: row.date,
+        category,
+        amount: row.amount,
+        memberId,
+        memo: row.description || undefined,
+        fund: getCategoryFund(category, incomeCategories),
+        paymentMethod: 'transfer',
+        enteredBy: user.name,
+        bankReconciledOn: row.date,
+      }]);
+    });
+  };
+
+  const handleMarkReconciledThrough = (month: string) => {
+    runProtectedAction('data:manage', () => setReconciledThrough(month));
+  };
+
+  // --- 은행 입금 핸들러 ---
+  const handleRecordDeposit = (date: string, amount: number) => {
+    if (!ensurePeriodOpen([date])) return;
+    runProtectedAction('funds:transfer', user => {
+      setCashDeposits(prev => [...prev, { id: generateId(), date, amount, enteredBy: user.name }]);
+    });
+  };
+
+  // --- 재정 계정 핸들러 ---
+  const handleAddFund = (fund: string) => {
+    if (fund && !funds.includes(fund)) {
+      runProtectedAction('settings:manage', () => setFunds(prev => prev.includes(fund) ? prev : [...prev, fund]));
+    }
+  };
+
+  const handleAddFundTransfer = (transfer: Omit<FundTransfer, 'id'>, onDone: () => void) => {
+    if (!ensurePeriodOpen([transfer.date])) return;
+    runProtectedAction('funds:transfer', user => {
+      setFundTransfers(prev => [...prev, { ...transfer, id: generateId(), enteredBy: user.name }]);
+      onDone();
+    });
+  };
+
+  // --- 예산 핸들러 ---
+  // 한 해의 예산을 통째로 바꾼다. 금액이 0인 항목은 예산 없음으로 본다.
+  const handleSaveBudget = (year: number, lines: BudgetLine[], onDone: () => void) => {
+    runProtectedAction('settings:manage', () => {
+      setBudgets(prev => [...prev.filter(b => b.year !== year), ...lines.filter(l => l.amount > 0)]);
+      onDone();
+      alert(`${year}년 예산을 저장했습니다.`);
+    });
+  };
+
+  // --- 작정헌금 핸들러 ---
+  const handleSavePledge = (pledge: Omit<Pledge, 'id'>, id: number | undefined, onDone: () => void) => {
+    runProtectedAction('members:manage', () => {
+      setPledges(prev => id === undefined ? [...prev, { ...pledge, id: generateId() }] : prev.map(p => p.id === id ? { ...pledge, id } : p));
+      onDone();
+    });
+  };
+
+  const handleDeletePledge = (id: number) => {
+    runProtectedAction('members:manage', () => setPledges(prev => prev.filter(p => p.id !== id)));
+  };
+
+  // --- 회계연도 설정 핸들러 ---
+  const handleChangeFiscalStartMonth = (month: number) => {
+    runProtectedAction('settings:manage', () => setFiscalYearStartMonth(month));
+  };
+
+  // --- 마감 핸들러 ---
+  const handleClosePeriod = (kind: PeriodClosing['kind'], period: string) => {
+    runProtectedAction('period:close', user => {
+      const snapshot = buildClosingSnapshot(kind, period, fiscalYearStartMonth, transactions, fundTransfers, incomeCategories, funds);
+      setPeriodClosings(prev => [...prev, { ...snapshot, id: generateId(), closedAt: new Date().toISOString(), closedBy: user.name }]);
+    });
+  };
+
+  // 해제해도 마감 기록은 지우지 않고 해제한 사람과 사유를 남긴다.
+  const handleReopenPeriod = (id: number, reason: string) => {
+    runProtectedAction('period:close', user => {
+      setPeriodClosings(prev => prev.map(c => c.id === id
+        ? { ...c, reopenedAt: new Date().toISOString(), reopenedBy: user.name, ...(reason ? { reopenReason: reason } : {}) }
+        : c));
+    });
+  };
+
+  // --- 지급처 핸들러 ---
+  // 이름을 바꾸면 그 이름으로 기록된 출금과 정기 지출도 함께 바꾸고 변경 이력에 남긴다.
+  const handleSavePayee = (payee: Omit<Payee, 'id'>, id: number | undefined, onDone: () => void) => {
+    const oldName = id === undefined ? undefined : payees.find(p => p.id === id)?.name;
+    if (oldName !== undefined && oldName !== payee.name
+      && !ensurePeriodOpen(transactions.filter(tx => tx.type === 'expense' && tx.payee === oldName).map(tx => tx.date))) return;
+    runProtectedAction('expense:add', user => {
+      if (oldName !== undefined && oldName !== payee.name) {
+        const affected = transactions.filter(tx => tx.type === 'expense' && tx.payee === oldName);
+        if (affected.length > 0 && !window.confirm(`'${oldName}'을(를) '${payee.name}'(으)로 바꿉니다.\n이 지급처로 기록된 출금 ${affected.length}건도 함께 바뀝니다. 계속하시겠습니까?`)) return;
+        setTransactions(prev => prev.map(tx => tx.type === 'expense' && tx.payee === oldName ? { ...tx, payee: payee.name } : tx));
+        setRecurringExpenses(prev => prev.map(t => t.payee === oldName ? { ...t, payee: payee.name } : t));
+        const timestamp = new Date().toISOString();
+        setAuditLog(prev => [
+          ...prev,
+          ...affected.map(tx => ({ id: generateId(), timestamp, action: 'update' as const, transactionId: tx.id, before: tx, after: { ...tx, payee: payee.name }, actor: user.name })),
+        ]);
+      }
+      setPayees(prev => id === undefined ? [...prev, { ...payee, id: generateId() }] : prev.map(p => p.id === id ? { ...payee, id } : p));
+      onDone();
+    });
+  };
+
+  // 출금 입력 화면에서 이름만으로 바로 등록한다. 나머지 정보는 지급처 관리에서 채운다.
+  const handleAddPayee = (name: string) => {
+    if (name && !payees.some(p => p.name === name)) {
+      runProtectedAction('expense:add', () => setPayees(prev => prev.some(p => p.name === name) ? prev : [...prev, { id: generateId(), name, kind: 'other' }]));
+    }
+  };
+
+  // 출금 내역은 그대로 두고 목록에서만 뺀다.
+  const handleDeletePayee = (id: number) => {
+    runProtectedAction('expense:add', () => setPayees(prev => prev.filter(p => p.id !== id)));
+  };
+
+  // 지급처가 생기기 전에는 업체 이름을 비고에 적었으므로, 비고에 이름이 있는 출금에 지급처를 채워 준다.
+  const handleAssignPayeeFromMemo = (name: string) => {
+    runProtectedAction('expense:add', user => {
+      // 마감된 기간의 출금은 건드리지 않는다.
+      const matched = transactions.filter(tx => tx.type === 'expense' && !tx.payee && tx.memo?.includes(name));
+      const affected = matched.filter(tx => !lockedThrough || tx.date > lockedThrough);
+      const lockedNote = matched.length > affected.length ? `\n(마감된 기간의 출금 ${matched.length - affected.length}건은 제외합니다.)` : '';
+      if (affected.length === 0) {
+        if (lockedNote) alert(`지정할 출금이 없습니다.${lockedNote}`);
+        return;
+      }
+      if (!window.confirm(`비고에 '${name}'이(가) 들어 있는 출금 ${affected.length}건의 지급처를 '${name}'(으)로 지정하시겠습니까?${lockedNote}`)) return;
+      const ids = new Set(affected.map(tx => tx.id));
+      setTransactions(prev => prev.map(tx => ids.has(tx.id) ? { ...tx, payee: name } : tx));
+      const timestamp = new Date().toISOString();
+      setAuditLog(prev => [
+        ...prev,
+        ...affected.map(tx => ({ id: generateId(), timestamp, action: 'update' as const, transactionId: tx.id, before: tx, after: { ...tx, payee: name }, actor: user.name })),
+      ]);
+    });
+  };
+
+  // --- 정기 지출 핸들러 ---
+  const handleSaveRecurringExpense = (template: Omit<RecurringExpense, 'id'>, id: number | undefined, onDone: () => void) => {
+    runProtectedAction('expense:add', () => {
+      setRecurringExpenses(prev => id === undefined ? [...prev, { ...template, id: generateId() }] : prev.map(t => t.id === id ? { ...template, id } : t));
+      onDone();
+    });
+  };
+
+  const handleDeleteRecurringExpense = (id: number) => {
+    runProtectedAction('expense:add', () => setRecurringExpenses(prev => prev.filter(t => t.id !== id)));
+  };
+
+  // 회차를 출금으로 등록하고 그 회차까지 처리한 것으로 표시한다.
+  const handlePostRecurring = (postings: RecurringPosting[]) => {
+    if (!ensurePeriodOpen(postings.map(p => p.date))) return;
+    runProtectedAction('expense:add', user => {
+      const templates = new Map(recurringExpenses.map(t => [t.id, t]));
+      const valid = postings.filter(p => templates.has(p.templateId));
+      setTransactions(prev => [
+        ...prev,
+        ...valid.map(p => {
+          const template = templates.get(p.templateId)!;
+          return {
+            id: generateId(),
+            type: 'expense' as const,
+            date: p.date,
+            category: template.category,
+            amount: p.amount,
+            ...(template.payee ? { payee: template.payee } : {}),
+            memo: p.memo,
+            fund: template.fund ?? GENERAL_FUND,
+            paymentMethod: template.paymentMethod ?? 'transfer',
+            recurringExpenseId: template.id,
+            enteredBy: user.name,
+          };
+        }),
+      ]);
+      markRecurringHandled(valid);
+    });
+  };
+
+  const handleSkipRecurring = (templateId: number, occurrence: string) => {
+    runProtectedAction('expense:add', () => markRecurringHandled([{ templateId, occurrence }]));
+  };
+
+  const markRecurringHandled = (handled: { templateId: number; occurrence: string }[]) => {
+    setRecurringExpenses(prev => prev.map(t => {
+      const latest = handled.filter(h => h.templateId === t.id).reduce((max, h) => h.occurrence > max ? h.occurrence : max, recurringHandledThrough(t));
+      return latest === recurringHandledThrough(t) ? t : { ...t, handledThrough: latest };
+    }));
+  };
+
+  // 앱을 열 때 처리할 차례가 된 정기 지출이 있으면 확인 목록을 먼저 보여준다.
+  useEffect(() => {
+    if (findDueRecurringExpenses(recurringExpenses, todayString()).length > 0) setView('recurringQueue');
+  }, []);
+
+  // 출금 날짜가 속한 회계연도의 예산과 집행액
+  const getExpenseBudgetStatus = (category: string, date: string): { yearLabel: string; budget: number; spent: number } | null => {
+    const year = fiscalYearOf(date, fiscalYearStartMonth);
+    const line = budgets.find(b => b.year === year && b.type === 'expense' && b.category === category);
+    if (!line) return null;
+    const { start, end } = fiscalYearRange(year, fiscalYearStartMonth);
+    const spent = transactions
+      .filter(tx => tx.type === 'expense' && tx.category === category && tx.date >= start && tx.date <= end)
+      .reduce((sum, tx) => sum + tx.amount, 0);
+    return { yearLabel: formatFiscalYear(year, fiscalYearStartMonth), budget: line.amount, spent };
+  };
+
+  // --- 새 지출 항목 추가 핸들러 ---
+  const handleAddExpenseCategory = (category: string) => {
+    if (category && !expenseCategories.includes(category)) {
+      runProtectedAction('expense:add', () => setExpenseCategories(prev => prev.includes(category) ? prev : [...prev, category]));
+    }
+  };
+  
+  // --- 권한 확인 작업 실행기 ---
+  // 잠금 해제 세션의 사용자에게 권한이 있으면 바로 실행하고, 아니면 비밀번호를 묻는다.
+  const sessionDuration = () => sessionMinutes * 60 * 1000;
+
+  useEffect(() => {
+    if (session === null) return;
+    const timer = setTimeout(() => setSession(null), Math.max(0, session.expiresAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [session]);
+
+  const runProtectedAction = (permission: Permission, action: (user: AppUser) => void) => {
+    if (users.length === 0) {
+      setPinPrompt({ mode: 'create', permission, action });
+      return;
+    }
+    if (sessionUser && session && Date.now() < session.expiresAt) {
+      if (hasPermission(sessionUser, permission)) {
+        // 보호 작업을 할 때마다 세션 만료 시각을 연장한다.
+        setSession({ userId: sessionUser.id, expiresAt: Date.now() + sessionDuration() });
+        action(sessionUser);
+        return;
+      }
+      setPinPrompt({ mode: 'enter', permission, action, notice: `${sessionUser.name}님에게는 이 작업 권한이 없습니다. 권한이 있는 사용자로 확인해 주세요.` });
+      return;
+    }
+    setPinPrompt({ mode: 'enter', permission, action });
+  };
+
+  const startSession = (user: AppUser) => {
+    setLastUserId(user.id);
+    setSession(sessionMinutes > 0 ? { userId: user.id, expiresAt: Date.now() + sessionDuration() } : null);
+  };
+
+  const handlePinConfirm = async ({ userId, name, pin, newPin }: PinCredentials): Promise<string | null> => {
+    if (!pinPrompt) return null;
+
+    if (pinPrompt.mode === 'create') {
+      const firstUser: AppUser = { id: generateId(), name, role: 'treasurer', pin: await createStoredPin(pin) };
+      setUsers([firstUser]);
+      startSession(firstUser);
+      setPinPrompt(null);
+      pinPrompt.action?.(firstUser);
+      return null;
+    }
+
+    const user = users.find(u => u.id === userId);
+    if (!user) return '사용자를 선택해주세요.';
+    if (pinLock.lockedUntil && pinLock.lockedUntil > Date.now()) return '잠시 후에 다시 시도해 주세요.';
+
+    if (!(await verifyPin(pin, user.pin))) {
+      const next = registerPinFailure(pinLock);
+      setPinLock(next);
+      return next.lockedUntil
+        ? `비밀번호가 ${next.failedAttempts}회 틀렸습니다. 잠시 동안 입력이 제한됩니다.`
+        : `비밀번호가 올바르지 않습니다. (${next.failedAttempts}/${PIN_MAX_ATTEMPTS}회)`;
+    }
+    setPinLock(INITIAL_PIN_LOCK);
+
+    if (pinPrompt.mode === 'change' && newPin) {
+      const newStoredPin = await createStoredPin(newPin);
+      setUsers(prev => prev.map(u => u.id === user.id ? { ...u, pin: newStoredPin } : u));
+      setPinPrompt(null);
+      alert('비밀번호를 변경했습니다.');
+      return null;
+    }
+
+    if (pinPrompt.permission && !hasPermission(user, pinPrompt.permission)) {
+      return `${user.name}님(${ROLE_LABELS[user.role]})에게는 이 작업 권한이 없습니다.`;
+    }
+    startSession(user);
+    setPinPrompt(null);
+    pinPrompt.action?.(user);
+    return null;
+  };
+
+  const handleLockSession = () => setSession(null);
+
+  // --- 사용자 관리 핸들러 ---
+  const handleAddUser = async (name: string, role: UserRole, pin: string) => {
+    const newUser: AppUser = { id: generateId(), name, role, pin: await createStoredPin(pin) };
+    setUsers(prev => [...prev, newUser]);
+  };
+
+  const handleUpdateUserRole = (id: number, role: UserRole) => {
+    setUsers(prev => prev.map(u => u.id === id ? { ...u, role } : u));
+  };
+
+  const handleResetUserPin = async (id: number, pin: string) => {
+    const newStoredPin = await createStoredPin(pin);
+    setUsers(prev => prev.map(u => u.id === id ? { ...u, pin: newStoredPin } : u));
+  };
+
+  const handleDeleteUser = (id: number) => {
+    setUsers(prev => prev.filter(u => u.id !== id));
+    if (session?.userId === id) setSession(null);
+  };
+
+  // --- 입금 항목 설정 핸들러 ---
+  // 이름을 바꾸면 해당 항목으로 기록된 입금 내역도 함께 바꾸고 변경 이력에 남긴다.
+  const handleRenameIncomeCategory = (oldName: string, newName: string) => {
+    if (!ensurePeriodOpen(transactions.filter(tx => tx.type === 'income' && tx.category === oldName).map(tx => tx.date))) return;
+    runProtectedAction('settings:manage', user => {
+      const affected = transactions.filter(tx => tx.type === 'income' && tx.category === oldName);
+      if (!window.confirm(`'${oldName}' 항목을 '${newName}'(으)로 바꿉니다.\n이 항목으로 기록된 입금 ${affected.length}건도 함께 바뀝니다. 계속하시겠습니까?`)) return;
+      setIncomeCategories(prev => prev.map(c => c.name === oldName ? { ...c, name: newName } : c));
+      setTransactions(prev => prev.map(tx => tx.type === 'income' && tx.category === oldName ? { ...tx, category: newName } : tx));
+      setBudgets(prev => prev.map(b => b.type === 'income' && b.category === oldName ? { ...b, category: newName } : b));
+      setPledges(prev => prev.map(p => p.category === oldName ? { ...p, category: newName } : p));
+      const timestamp = new Date().toISOString();
+      setAuditLog(prev => [
+        ...prev,
+        ...affected.map(tx => ({ id: generateId(), timestamp, action: 'update' as const, transactionId: tx.id, before: tx, after: { ...tx, category: newName }, actor: user.name })),
+      ]);
+    });
+  };
+
+  // --- 데이터 저장/불러오기 핸들러 ---
+  const currentBackupData = (): BackupData => ({ members, households, memberMerges, pledges, transactions, recurringExpenses, payees, periodClosings, fiscalYearStartMonth, expenseCategories, incomeCategories, funds, fundTransfers, budgets, countingSessions, cashDeposits, reconciledThrough, auditLog, churchInfo });
+
+  const handleSaveData = () => {
+    runProtectedAction('data:manage', () => setShowSaveModal(true));
+  };
+
+  // 암호 문구가 없으면 일반 JSON으로 저장한다.
+  const performSave = async (passphrase: string | null) => {
+    try {
+        const backup = await createBackupFile(currentBackupData());
+        const jsonString = JSON.stringify(backup, null, 2);
+        if (passphrase) {
+            const encrypted = await encryptBackup(jsonString, passphrase);
+            downloadFile(JSON.stringify(encrypted), `church_data_backup_${todayString()}.enc.json`, 'application/json');
+        } else {
+            downloadFile(jsonString, `church_data_backup_${todayString()}.json`, 'application/json');
+        }
+        setShowSaveModal(false);
+        alert('데이터를 성공적으로 저장했습니다.');
+    } catch (error) {
+        console.error('데이터 저장 오류:', error);
+        alert('데이터 저장 중 오류가 발생했습니다.');
+    }
+  };
+
+  const handleLoadData = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    // 같은 파일을 다시 선택해도 onChange가 발생하도록 바로 비운다.
+    event.target.value = '';
+
+    const performLoad = () => {
+        const reader = new FileReader();
+        reader.onload = async (e) => {
+            try {
+                const text = e.target?.result;
+                if (typeof text !== 'string') throw new Error("파일을 읽을 수 없습니다.");
+                const encrypted = parseEncryptedBackup(text);
+                if (encrypted) {
+                    setEncryptedBackup(encrypted);
+                    return;
+                }
+                await openBackupText(text);
+            } catch (error) {
+                console.error("데이터 불러오기 오류:", error);
+                alert(error instanceof Error ? error.message : '데이터를 불러오는 중 오류가 발생했습니다.');
+            }
+        };
+        reader.readAsText(file);
+    };
+    runProtectedAction('data:manage', performLoad);
+  };
+
+  const openBackupText = async (text: string) => {
+    const result = await readBackupFile(text);
+    if (result.checksumValid === false && !window.confirm('파일의 체크섬이 일치하지 않습니다. 파일이 손상되었거나 수정되었을 수 있습니다.\n그래도 불러오시겠습니까?')) {
+        return;
+    }
+    setPendingBackup(result);
+  };
+
+  const handleDecryptBackup = async (passphrase: string): Promise<string | null> => {
+    if (!encryptedBackup) return null;
+    try {
+        const text = await decryptBackup(encryptedBackup, passphrase);
+        // 검증 오류도 암호 입력 창에 보여 주도록 파일을 연 뒤에 닫는다.
+        await openBackupText(text);
+        setEncryptedBackup(null);
+        return null;
+    } catch (error) {
+        console.error("데이터 복호화 오류:", error);
+        return error instanceof Error ? error.message : '파일을 열 수 없습니다.';
+    }
+  };
+
+  const mergeAuditLog = (incoming: AuditLogEntry[]) => {
+    // 변경 이력은 추가 전용이므로 덮어쓰지 않고 합친다.
+    setAuditLog(prev => {
+      const knownIds = new Set(prev.map(entry => entry.id));
+      const added = incoming.filter(entry => !knownIds.has(entry.id));
+      return [...prev, ...added].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    });
+  };
+
+  const handleOverwriteBackup = (result: BackupReadResult) => {
+    if (!window.confirm('현재 데이터가 모두 덮어쓰여집니다. 계속하시겠습니까?')) return;
+    const { data } = result;
+    setMembers(data.members);
+    setTransactions(data.transactions);
+    setExpenseCategories(data.expenseCategories);
+    setIncomeCategories(data.incomeCategories);
+    setFunds(data.funds);
+    setFundTransfers(data.fundTransfers);
+    setBudgets(data.budgets);
+    setCountingSessions(data.countingSessions);
+    setCashDeposits(data.cashDeposits);
+    setHouseholds(data.households);
+    setMemberMerges(data.memberMerges);
+    setPledges(data.pledges);
+    setRecurringExpenses(data.recurringExpenses);
+    setPayees(data.payees);
+    setPeriodClosings(data.periodClosings);
+    setReconciledThrough(data.reconciledThrough);
+    setChurchInfo(data.churchInfo);
+    setFiscalYearStartMonth(data.fiscalYearStartMonth);
+    mergeAuditLog(data.auditLog);
+    setPendingBackup(null);
+    setImportReport(result);
+  };
+
+  const handleCommitMerge = (merged: BackupData) => {
+    setMembers([...merged.members].sort((a, b) => a.name.localeCompare(b.name, 'ko')));
+    setTransactions(merged.transactions);
+    setExpenseCategories(merged.expenseCategories);
+    setIncomeCategories(merged.incomeCategories);
+    setFunds(merged.funds);
+    setFundTransfers(merged.fundTransfers);
+    setBudgets(merged.budgets);
+    setCountingSessions(merged.countingSessions);
+    setCashDeposits(merged.cashDeposits);
+    setHouseholds(merged.households);
+    setMemberMerges(merged.memberMerges);
+    setPledges(merged.pledges);
+    setRecurringExpenses(merged.recurringExpenses);
+    setPayees(merged.payees);
+    setPeriodClosings(merged.periodClosings);
+    setReconciledThrough(merged.reconciledThrough);
+    mergeAuditLog(merged.auditLog);
+    setMergeSource(null);
+    alert('데이터를 병합했습니다.');
+  };
+  
+  // --- 계산 로직 (useMemo로 최적화) ---
+  const { sortedTransactions, balanceData, cashPosition, periodicalSummary, weeklyCategoryTotals, fundBalances, transactionsWithBalance } = useMemo(() => {
+    const sorted = [...transactions].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime() || b.id - a.id);
+    
+    const todayStr = todayString();
+    let previousBalance = 0;
+    let todaysChange = 0;
+
+    transactions.forEach(tx => {
+        const amount = tx.type === 'income' ? tx.amount : -tx.amount;
+        if (tx.date < todayStr) {
+            previousBalance += amount;
+        } else if (tx.date === todayStr) {
+            todaysChange += amount;
+        }
+    });
+
+    const todaysBalance = previousBalance + todaysChange;
+    
+    // 표시 순서는 입금 항목 설정 순서를 따른다.
+    // 코드 내 정렬을 위해 표시 순서의 역순으로 배열 정의
+    const categoryOrder = incomeCategories.map(c => c.name).reverse();
+    
+    const getMemberNameForSort = (memberId?: number): string => {
+        if (memberId === undefined) return ANONYMOUS_DONOR;
+        return members.find(m => m.id === memberId)?.name || '미지정';
+    };
+
+    // 재정별 잔액은 이체를 포함해야 하므로, 그날의 거래보다 이체를 먼저 반영한다.
+    const sortedTransfers = [...fundTransfers].sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+    const runningFundBalances = new Map<string, number>();
+    const addToFund = (fund: string, amount: number) => {
+        const next = (runningFundBalances.get(fund) ?? 0) + amount;
+        runningFundBalances.set(fund, next);
+        return next;
+    };
+    let transferIndex = 0;
+
+    let runningBalance = 0;
+    const withBalance = [...transactions]
+        .sort((a, b) => {
+            // 1. Primary sort: date, ascending (for correct running balance calc)
+            const dateCompare = new Date(a.date).getTime() - new Date(b.date).getTime();
+            if (dateCompare !== 0) return dateCompare;
+
+            // 2. Secondary sort for same-day transactions:
+            // Income transactions should come before expense transactions.
+            if (a.type !== b.type) {
+                return a.type === 'income' ? -1 : 1;
+            }
+
+            // If both are income transactions, apply custom sorting logic.
+            if (a.type === 'income') {
+                const indexA = categoryOrder.indexOf(a.category);
+                const indexB = categoryOrder.indexOf(b.category);
+                // 배열에 없는 항목은 맨 뒤로
+                const effectiveIndexA = indexA === -1 ? categoryOrder.length : indexA;
+                const effectiveIndexB = indexB === -1 ? categoryOrder.length : indexB;
+
+                // a) Sort by custom category order
+                if (effectiveIndexA !== effectiveIndexB) {
+                    // 최종 표시는 reverse되므로, 표시 순서의 역순인 categoryOrder 배열의 index 순으로 정렬
+                    return effectiveIndexA - effectiveIndexB;
+                }
+                
+                // b) 무명 헌금은 같은 항목 안에서 성도들 뒤에 모아 보여준다.
+                if ((a.memberId === undefined) !== (b.memberId === undefined)) {
+                    return a.memberId === undefined ? -1 : 1;
+                }
+
+                // c) Within the same category, sort by member name (alphabetical)
+                const nameA = getMemberNameForSort(a.memberId);
+                const nameB = getMemberNameForSort(b.memberId);
+                // 최종 표시는 reverse되므로, 가나다순으로 표시하려면 여기서는 가나다 역순으로 정렬
+                const nameCompare = nameB.localeCompare(nameA, 'ko');
+                if (nameCompare !== 0) {
+                    return nameCompare;
+                }
+            }
+            
+            // For expenses, or as a final fallback for incomes, sort by creation order (ID).
+            return a.id - b.id;
+        })
+        .map(tx => {
+            while (transferIndex < sortedTransfers.length && sortedTransfers[transferIndex].date <= tx.date) {
+                const transfer = sortedTransfers[transferIndex++];
+                addToFund(transfer.fromFund, -transfer.amount);
+                addToFund(transfer.toFund, transfer.amount);
+            }
+            const amount = tx.type === 'income' ? tx.amount : -tx.amount;
+            const fund = getTransactionFund(tx, incomeCategories);
+            runningBalance += amount;
+            return { ...tx, fund, balance: runningBalance, fundBalance: addToFund(fund, amount) };
+        })
+        .reverse(); // Reverse the whole array to show most recent transactions first.
+        
+    const yearStartStr = todayStr.slice(0, 4) + '-01-01';
+    const weekStartStr = getWeekStart(todayStr);
+
+    let weeklyIncome = 0;
+    let weeklyExpense = 0;
+    let yearlyIncome = 0;
+    let yearlyExpense = 0;
+    
+    const weeklyIncomeByCategory = new Map<string, number>();
+    
+    transactions.forEach(tx => {
+        const amount = tx.amount;
+        if (tx.date >= yearStartStr) {
+            if (tx.type === 'income') yearlyIncome += amount;
+            else yearlyExpense += amount;
+        }
+        if (tx.date >= weekStartStr) {
+            if (tx.type === 'income') {
+                weeklyIncome += amount;
+                weeklyIncomeByCategory.set(tx.category, (weeklyIncomeByCategory.get(tx.category) ?? 0) + amount);
+            } else {
+                weeklyExpense += amount;
+            }
+        }
+    });
+
+    return {
+      sortedTransactions: sorted,
+      balanceData: { previousBalance, todaysChange, todaysBalance },
+      cashPosition: computeCashPosition(transactions, cashDeposits, todayStr),
+      periodicalSummary: {
+          weeklyIncome,
+          weeklyExpense,
+          yearlyIncome,
+          yearlyExpense,
+          weeklyBalance: weeklyIncome - weeklyExpense,
+          yearlyBalance: yearlyIncome - yearlyExpense,
+      },
+      weeklyCategoryTotals: {
+          groups: groupIncomeTotals(weeklyIncomeByCategory, incomeCategories),
+      },
+      fundBalances: computeFundBalances(transactions, fundTransfers, incomeCategories, funds, todayStr),
+      transactionsWithBalance: withBalance,
+    };
+  }, [transactions, members, incomeCategories, funds, fundTransfers, cashDeposits]);
+  
+  // 입금에 헌금자가 없으면 무명 헌금이다. 목록에 없는 성도 id는 '미지정'으로 표시한다.
+  const getMemberName = (id?: number) => id === undefined ? ANONYMOUS_DONOR : members.find(m => m.id === id)?.name || '미지정';
+  // 새 입력 화면에는 활동 중인 성도만 보여준다.
+  const activeMembers = members.filter(isMemberActive);
+  const incomeCategoryNames = incomeCategories.map(c => c.name);
+  const activeIncomeCategoryNames = incomeCategories.filter(c => c.active).map(c => c.name);
+
+  // --- CSV 내보내기 핸들러 ---
+  const handleExportTransactionsCsv = () => {
+    runProtectedAction('data:manage', () => {
+      const header = ['날짜', '요일', '구분', '항목', '결제수단', '재정', '성도', '직분', '지급처', '금액', '잔액', '재정 잔액', '비고', '입력자'];
+      // 화면 표시용(최신순) 목록을 거꾸로 돌려 잔액이 쌓이는 순서대로 내보낸다.
+      const rows = [...transactionsWithBalance].reverse().map(tx => {
+        const member = members.find(m => m.id === tx.memberId);
+        return [
+          tx.date,
+          getDayOfWeek(tx.date).replace(/[()]/g, ''),
+          tx.type === 'income' ? '입금' : '출금',
+          tx.category,
+          PAYMENT_METHOD_LABELS[getPaymentMethod(tx)],
+          tx.fund,
+          tx.type === 'expense' && tx.memberId === undefined ? '' : getMemberName(tx.memberId),
+          member?.position ?? '',
+          tx.payee ?? '',
+          tx.amount,
+          tx.balance,
+          tx.fundBalance,
+          tx.memo ?? '',
+          tx.enteredBy ?? '',
+        ];
+      });
+      downloadFile(toCsv([header, ...rows]), `church_transactions_${todayString()}.csv`, 'text/csv;charset=utf-8');
+    });
+  };
+
+  const handleExportMembersCsv = () => {
+    runProtectedAction('data:manage', () => {
+      // 주민등록번호는 파일로 내보내지 않는다.
+      const header = ['이름', '직분', '상태', '전화번호', '구역/셀', '가정', '생년월일', '등록일', '주소', '메모'];
+      const rows = members.map(m => [
+        m.name,
+        m.position,
+        isMemberActive(m) ? '활동' : '비활동',
+        m.phone ?? '',
+        m.district ?? '',
+        households.find(h => h.id === m.householdId)?.name ?? '',
+        m.birthday ?? '',
+        m.registeredOn ?? '',
+        m.address ?? '',
+        m.notes ?? '',
+      ]);
+      downloadFile(toCsv([header, ...rows]), `church_members_${todayString()}.csv`, 'text/csv;charset=utf-8');
+    });
+  };
+
+  return (
+    <>
+      <header>
+        <h1>구미은혜로교회 헌금관리</h1>
+        <div className="header-actions">
+            <button onClick={() => runProtectedAction('income:add', () => setView('counting'))}>주일 계수</button>
+            <button onClick={() => runProtectedAction('members:manage', () => setView('addMember'))}>새 성도 추가</button>
+            <button onClick={() => runProtectedAction('reports:view', () => setView('search'))}>조회</button>
+            <button onClick={() => runProtectedAction('members:manage', () => setView('editMembers'))}>회원 관리</button>
+            <button onClick={() => runProtectedAction('reports:view', () => setView('weeklyReport'))}>주간 보고</button>
+            <button onClick={() => runProtectedAction('reports:view', () => setView('receipts'))}>기부금영수증</button>
+            <button onClick={() => runProtectedAction('reports:view', () => setView('auditLog'))}>변경 이력</button>
+            <button onClick={() => runProtectedAction('reports:view', () => setView('funds'))}>재정 계정</button>
+            <button onClick={() => runProtectedAction('reports:view', () => setView('budget'))}>예산</button>
+            <button onClick={() => runProtectedAction('reports:view', () => setView('statement'))}>결산서</button>
+            <button onClick={() => runProtectedAction('reports:view', () => setView('pledges'))}>작정헌금</button>
+            <button onClick={() => runProtectedAction('expense:add', () => setView('recurring'))}>정기 지출</button>
+            <button onClick={() => runProtectedAction('reports:view', () => setView('payees'))}>지급처</button>
+            <button onClick={() => runProtectedAction('reports:view', () => setView('closings'))}>마감</button>
+            <button onClick={() => runProtectedAction('settings:manage', () => setView('incomeCategories'))}>헌금 항목 설정</button>
+            {users.length > 0 && <button onClick={() => runProtectedAction('users:manage', () => setView('users'))}>사용자 관리</button>}
+            {users.length > 0 && <button onClick={() => setPinPrompt({ mode: 'change' })}>비밀번호 변경</button>}
+            {sessionUser && <button onClick={handleLockSession} className="lock-btn">잠금 ({sessionUser.name})</button>}
+        </div>
+      </header>
+      <div className="data-management top-data-management">
+          <button onClick={handleSaveData} className="data-btn">데이터 저장</button>
+          <label htmlFor="load-data-input-header" className="data-btn">
+              데이터 불러오기
+          </label>
+          <input 
+              id="load-data-input-header"
+              type="file"
+              accept=".json"
+              onChange={handleLoadData}
+              style={{ display: 'none' }}
+          />
+          <button onClick={handleExportTransactionsCsv} className="data-btn">거래내역 CSV</button>
+          <button onClick={handleExportMembersCsv} className="data-btn">성도명단 CSV</button>
+          <button onClick={() => runProtectedAction('data:manage', () => setView('csvImport'))} className="data-btn">CSV 가져오기</button>
+          <button onClick={() => runProtectedAction('data:manage', () => setView('bankReconcile'))} className="data-btn">통장 대사</button>
+      </div>
+      <main>
+        {view === 'main' && (
+          <>
+            <div className="card">
+              <div className="tabs">
+                <button className={`tab-button ${activeTab === 'income' ? 'active' : ''}`} onClick={() => setActiveTab('income')}>입금</button>
+                <button className={`tab-button ${activeTab === 'expense' ? 'active' : ''}`} onClick={() => setActiveTab('expense')}>출금</button>
+              </div>
+              {activeTab === 'income' ? (
+                <IncomeForm members={activeMembers} households={households} categories={activeIncomeCategoryNames} onAddEnvelope={handleAddEnvelope} />
+              ) : (
+                <ExpenseForm members={activeMembers} payees={payees} categories={expenseCategories} fundBalances={fundBalances} getBudgetStatus={getExpenseBudgetStatus} onAddCategory={handleAddExpenseCategory} onAddPayee={handleAddPayee} onAddTransaction={handleAddTransaction} />
+              )}
+            </div>
+            <PeriodicalSummary {...periodicalSummary} />
+            <WeeklyCategorySummary {...weeklyCategoryTotals} />
+            <BalanceSummary {...balanceData} {...cashPosition} />
+            <DailyPaymentSummary transactions={transactions} cashOnHand={cashPosition.cashOnHand} onRecordDeposit={handleRecordDeposit} />
+            <FundBalanceSummary balances={fundBalances} onOpenFunds={() => runProtectedAction('reports:view', () => setView('funds'))} />
+            <UpcomingExpensesSummary
+              recurringExpenses={recurringExpenses}
+              onOpenQueue={() => setView('recurringQueue')}
+              onOpenTemplates={() => runProtectedAction('expense:add', () => setView('recurring'))}
+            />
+            <TransactionList 
+              transactions={transactionsWithBalance} 
+              funds={Array.from(fundBalances.keys())}
+              reconciledThrough={reconciledThrough}
+              lockedThrough={lockedThrough}
+              getMemberName={getMemberName}
+              onEditTransaction={requestEditTransaction}
+              onDeleteTransaction={requestDeleteTransaction}
+              onSaveData={handleSaveData}
+              onLoadData={handleLoadData}
+            />
+          </>
+        )}
+        {view === 'addMember' && <AddMemberModal onAddMember={handleAddMember} onClose={() => setView('main')} />}
+        {view === 'editMembers' && <EditMembersModal members={members} onClose={() => setView('main')} onUpdateMember={handleUpdateMember} onSetMemberActive={handleSetMemberActive} onOpenDetail={openMemberDetail} onOpenHouseholds={() => setView('households')} onOpenDuplicates={() => setView('duplicates')} onConvertAnonymous={handleConvertAnonymousMember} />}
+        {view === 'memberDetail' && detailMemberId !== null && members.some(m => m.id === detailMemberId) && (
+          <MemberDetailModal
+            member={members.find(m => m.id === detailMemberId)!}
+            households={households}
+            transactions={transactions}
+            onSave={changes => handleUpdateMember(detailMemberId, changes)}
+            onSetActive={active => handleSetMemberActive(detailMemberId, active)}
+            onClose={() => setView('editMembers')}
+          />
+        )}
+        {view === 'recurring' && (
+          <RecurringExpensesModal
+            recurringExpenses={recurringExpenses}
+            payees={payees}
+            expenseCategories={expenseCategories}
+            funds={Array.from(fundBalances.keys())}
+            onSave={handleSaveRecurringExpense}
+            onDelete={handleDeleteRecurringExpense}
+            onOpenQueue={() => setView('recurringQueue')}
+            onClose={() => setView('main')}
+          />
+        )}
+        {view === 'recurringQueue' && (
+          <RecurringQueueModal
+            recurringExpenses={recurringExpenses}
+            fundBalances={fundBalances}
+            onPost={handlePostRecurring}
+            onSkip={handleSkipRecurring}
+            onOpenTemplates={() => runProtectedAction('expense:add', () => setView('recurring'))}
+            onClose={() => setView('main')}
+          />
+        )}
+        {view === 'statement' && (
+          <FinancialStatementModal
+            transactions={transactions}
+            budgets={budgets}
+            closings={periodClosings}
+            fundTransfers={fundTransfers}
+            incomeCategories={incomeCategories}
+            expenseCategories={expenseCategories}
+            funds={funds}
+            fiscalStartMonth={fiscalYearStartMonth}
+            churchName={churchInfo.name}
+            onChangeFiscalStartMonth={handleChangeFiscalStartMonth}
+            onClose={() => setView('main')}
+          />
+        )}
+        {view === 'closings' && (
+          <PeriodClosingModal
+            closings={periodClosings}
+            transactions={transactions}
+            fundTransfers={fundTransfers}
+            incomeCategories={incomeCategories}
+            funds={funds}
+            fiscalStartMonth={fiscalYearStartMonth}
+            onClosePeriod={handleClosePeriod}
+            onReopen={handleReopenPeriod}
+            onClose={() => setView('main')}
+          />
+        )}
+        {view === 'payees' && (
+          <PayeesModal
+            payees={payees}
+            transactions={transactions}
+            fiscalStartMonth={fiscalYearStartMonth}
+            onSave={handleSavePayee}
+            onDelete={handleDeletePayee}
+            onAssignFromMemo={handleAssignPayeeFromMemo}
+            onClose={() => setView('main')}
+          />
+        )}
+        {view === 'pledges' && (
+          <PledgesModal
+            pledges={pledges}
+            members={members}
+            transactions={transactions}
+            incomeCategoryNames={activeIncomeCategoryNames}
+            getMemberName={getMemberName}
+            onSave={handleSavePledge}
+            onDelete={handleDeletePledge}
+            onClose={() => setView('main')}
+          />
+        )}
+        {view === 'duplicates' && (
+          <DuplicateMembersModal
+            members={members}
+            transactions={transactions}
+            memberMerges={memberMerges}
+            getMemberName={getMemberName}
+            onMerge={handleMergeMembers}
+            onUndo={handleUndoMemberMerge}
+            onClose={() => setView('editMembers')}
+          />
+        )}
+        {view === 'households' && (
+          <HouseholdsModal
+            households={households}
+            members={members}
+            transactions={transactions}
+            onAddHousehold={handleAddHousehold}
+            onUpdateHousehold={handleUpdateHousehold}
+            onSetMemberHousehold={handleSetMemberHousehold}
+            onDeleteHousehold={handleDeleteHousehold}
+            onClose={() => setView('editMembers')}
+          />
+        )}
+        {view === 'search' && <SearchModal transactions={transactions} members={members} households={households} payees={payees} getMemberName={getMemberName} incomeCategories={incomeCategoryNames} expenseCategories={expenseCategories} onEditTransaction={requestEditTransaction} onDeleteTransaction={requestDeleteTransaction} onClose={() => setView('main')} />}
+        {view === 'weeklyReport' && <WeeklyReportModal transactions={transactions} incomeCategories={incomeCategories} churchInfo={churchInfo} onClose={() => setView('main')} />}
+        {view === 'receipts' && (
+          <ReceiptModal
+            transactions={transactions}
+            members={members}
+            households={households}
+            incomeCategories={incomeCategories}
+            churchInfo={churchInfo}
+            onUpdateChurchInfo={info => runProtectedAction('settings:manage', () => setChurchInfo(info))}
+            onClose={() => setView('main')}
+          />
+        )}
+        {view === 'csvImport' && (
+          <CsvImportModal
+            members={members}
+            incomeCategoryNames={incomeCategoryNames}
+            expenseCategories={expenseCategories}
+            onImport={handleImportCsv}
+            onClose={() => setView('main')}
+          />
+        )}
+        {view === 'users' && (
+          <UsersModal
+            users={users}
+            currentUserId={sessionUser?.id ?? null}
+            onAddUser={handleAddUser}
+            onUpdateRole={handleUpdateUserRole}
+            onResetPin={handleResetUserPin}
+            onDeleteUser={handleDeleteUser}
+            onClose={() => setView('main')}
+          />
+        )}
+        {view === 'bankReconcile' && (
+          <BankReconcileModal
+            transactions={transactions}
+            cashDeposits={cashDeposits}
+            members={activeMembers}
+            incomeCategoryNames={activeIncomeCategoryNames}
+            reconciledThrough={reconciledThrough}
+            getMemberName={getMemberName}
+            onApply={handleApplyReconciliation}
+            onCreateIncome={handleCreateIncomeFromBank}
+            onMarkReconciledThrough={handleMarkReconciledThrough}
+            onClose={() => setView('main')}
+          />
+        )}
+        {view === 'counting' && (
+          <CountingSessionModal
+            members={activeMembers}
+            categories={activeIncomeCategoryNames}
+            userNames={users.map(u => u.name)}
+            sessions={countingSessions}
+            churchName={churchInfo.name}
+            getMemberName={getMemberName}
+            onFinalize={handleFinalizeCounting}
+            onClose={() => setView('main')}
+          />
+        )}
+        {view === 'budget' && (
+          <BudgetModal
+            transactions={transactions}
+            budgets={budgets}
+            incomeCategoryNames={incomeCategoryNames}
+            expenseCategories={expenseCategories}
+            fiscalStartMonth={fiscalYearStartMonth}
+            onSave={handleSaveBudget}
+            onClose={() => setView('main')}
+          />
+        )}
+        {view === 'funds' && (
+          <FundsModal
+            balances={fundBalances}
+            transfers={fundTransfers}
+            onAddFund={handleAddFund}
+            onAddTransfer={handleAddFundTransfer}
+            onClose={() => setView('main')}
+          />
+        )}
+        {view === 'incomeCategories' && (
+          <IncomeCategoriesModal
+            incomeCategories={incomeCategories}
+            funds={funds}
+            onChange={setIncomeCategories}
+            onRename={handleRenameIncomeCategory}
+            onClose={() => setView('main')}
+          />
+        )}
+        {view === 'auditLog' && <AuditLogModal auditLog={auditLog} getMemberName={getMemberName} onClose={() => setView('main')} />}
+        {editingTransaction && (
+          <EditTransactionModal
+            transaction={editingTransaction.transaction}
+            members={members}
+            payees={payees}
+            incomeCategories={activeIncomeCategoryNames}
+            expenseCategories={expenseCategories}
+            funds={funds}
+            onSave={handleUpdateTransaction}
+            onClose={() => setEditingTransaction(null)}
+          />
+        )}
+        {editingEnvelope && (
+          <EditEnvelopeModal
+            lines={editingEnvelope.lines}
+            members={members}
+            incomeCategories={activeIncomeCategoryNames}
+            onSave={handleUpdateEnvelope}
+            onClose={() => setEditingEnvelope(null)}
+          />
+        )}
+        {showSaveModal && <BackupSaveModal onSave={performSave} onClose={() => setShowSaveModal(false)} />}
+        {encryptedBackup && <PassphraseModal onConfirm={handleDecryptBackup} onClose={() => setEncryptedBackup(null)} />}
+        {pendingBackup && (
+          <BackupLoadModal
+            report={pendingBackup}
+            onOverwrite={() => handleOverwriteBackup(pendingBackup)}
+            onMerge={() => { setMergeSource(pendingBackup); setPendingBackup(null); }}
+            onClose={() => setPendingBackup(null)}
+          />
+        )}
+        {mergeSource && (
+          <MergeImportModal
+            local={currentBackupData()}
+            incoming={mergeSource}
+            getMemberName={getMemberName}
+            onCommit={handleCommitMerge}
+            onClose={() => setMergeSource(null)}
+          />
+        )}
+        {importReport && <ImportReportModal report={importReport} onClose={() => setImportReport(null)} />}
+        {pinPrompt && (
+          <PasswordModal
+            mode={pinPrompt.mode}
+            users={users}
+            defaultUserId={sessionUser?.id ?? lastUserId}
+            notice={pinPrompt.notice}
+            lockedUntil={pinLock.lockedUntil}
+            sessionMinutes={sessionMinutes}
+            onSessionMinutesChange={setSessionMinutes}
+            onClose={() => setPinPrompt(null)}
+            onConfirm={handlePinConfirm}
+          />
+        )}
+      </main>
+    </>
+  );
+};
+
+// --- 컴포넌트들 ---
+
+const WeeklyCategorySummary: React.FC<{
+  groups: IncomeGroupTotals[];
+}> = ({ groups }) => (
+  <section className="card periodical-summary category-breakdown-summary">
+    {groups.map(({ group, lines }) => (
+      <div className="summary-row" key={group}>
+        <span className="row-label">{group}</span>
+        <div className={`row-values ${lines.length > 2 ? 'multi' : ''}`}>
+          {lines.map(({ category, amount }) => (
+              <div className="value-item" key={category}>
+                <span className="value-label">{category}</span>
+                <span className="value-amount">{amount.toLocaleString()}원</span>
+              </div>
+          ))}
+        </div>
+      </div>
+    ))}
+  </section>
+);
+
+const PeriodicalSummary: React.FC<{
+  weeklyIncome: number;
+  weeklyExpense: number;
+  yearlyIncome: number;
+  yearlyExpense: number;
+  weeklyBalance: number;
+  yearlyBalance: number;
+}> = ({ weeklyIncome, weeklyExpense, yearlyIncome, yearlyExpense, weeklyBalance, yearlyBalance }) => (
+  <section className="card periodical-summary">
+    <div className="summary-row">
+      <span className="row-label income-color">수입</span>
+      <div className="row-values">
+        <div className="value-item">
+          <span className="value-label">금주 총액</span>
+          <span className="value-amount">{weeklyIncome.toLocaleString()}원</span>
+        </div>
+        <div className="value-item">
+          <span className="value-label">금년 총액</span>
+          <span className="value-amount">{yearlyIncome.toLocaleString()}원</span>
+        </div>
+      </div>
+    </div>
+    <div className="summary-row">
+      <span className="row-label expense-color">지출</span>
+      <div className="row-values">
+        <div className="value-item">
+          <span className="value-label">금주 총액</span>
+          <span className="value-amount">{weeklyExpense.toLocaleString()}원</span>
+        </div>
+        <div className="value-item">
+          <span className="value-label">금년 총액</span>
+          <span className="value-amount">{yearlyExpense.toLocaleString()}원</span>
+        </div>
+      </div>
+    </div>
+    <div className="summary-row">
+      <span className="row-label">잔액</span>
+      <div className="row-values">
+        <div className="value-item">
+          <span className="value-label">금주 잔액</span>
+          <span className="value-amount">{weeklyBalance.toLocaleString()}원</span>
+        </div>
+        <div className="value-item">
+          <span className="value-label">금년 잔액</span>
+          <span className="value-amount">{yearlyBalance.toLocaleString()}원</span>
+        </div>
+      </div>
+    </div>
+  </section>
+);
+
+const BalanceSummary: React.FC<{previousBalance: number, todaysChange: number, todaysBalance: number, cashOnHand: number, bankBalance: number}> = ({ previousBalance, todaysChange, todaysBalance, cashOnHand, bankBalance }) => (
+  <section className="balance-summary">
+    <div className="summary-item">
+      <span className="summary-label">이전 잔액</span>
+      <span className="summary-value">{previousBalance.toLocaleString()}원</span>
+    </div>
+    <div className="summary-item">
+      <span className="summary-label">오늘 변동금액</span>
+      <span className={`summary-value ${todaysChange >= 0 ? 'income-color' : 'expense-color'}`}>{todaysChange.toLocaleString()}원</span>
+    </div>
+    <div className="summary-item">
+      <span className="summary-label">금일 잔액</span>
+      <span className="summary-value bold">{todaysBalance.toLocaleString()}원</span>
+    </div>
+    <div className="summary-item" title="결제수단이 기록되지 않은 예전 입금은 현금, 출금은 계좌이체로 계산합니다. 다르면 거래 수정에서 결제수단을 바로잡으세요.">
+      <span className="summary-label">보관 현금·수표</span>
+      <span className="summary-value">{cashOnHand.toLocaleString()}원</span>
+    </div>
+    <div className="summary-item">
+      <span className="summary-label">통장 잔액</span>
+      <span className="summary-value">{bankBalance.toLocaleString()}원</span>
+    </div>
+  </section>
+);
+
+// 예배 후 은행에 입금할 금액을 알 수 있도록 하루의 결제수단별 합계를 보여준다.
+const DailyPaymentSummary: React.FC<{
+  transactions: Transaction[];
+  cashOnHand: number;
+  onRecordDeposit: (date: string, amount: number) => void;
+}> = ({ transactions, cashOnHand, onRecordDeposit }) => {
+  const [date, setDate] = useState(todayString);
+
+  const totals = useMemo(() => {
+    const byMethod = new Map<PaymentMethod, { income: number; expense: number }>(PAYMENT_METHODS.map(m => [m, { income: 0, expense: 0 }]));
+    transactions.forEach(tx => {
+      if (tx.date !== date) return;
+      byMethod.get(getPaymentMethod(tx))![tx.type] += tx.amount;
+    });
+    return byMethod;
+  }, [transactions, date]);
+
+  const onHandNet = ON_HAND_METHODS.reduce((sum, m) => sum + totals.get(m)!.income - totals.get(m)!.expense, 0);
+
+  const handleDeposit = () => {
+    const input = prompt('은행에 입금한 금액을 입력하세요:', String(Math.max(0, Math.min(onHandNet, cashOnHand))));
+    if (input === null) return;
+    const amount = parseAmountInput(input);
+    if (amount === null || amount <= 0) {
+      alert('금액을 정확히 입력해주세요.');
+      return;
+    }
+    onRecordDeposit(date, amount);
+  };
+
+  return (
+    <section className="card">
+      <div className="list-header">
+        <h2>결제수단별 합계</h2>
+        <input type="date" value={date} onChange={e => setDate(e.target.value)} aria-label="날짜 선택" />
+      </div>
+      <table className="report-table">
+        <thead><tr><th>결제수단</th><th className="amount">입금</th><th className="amount">출금</th></tr></thead>
+        <tbody>
+          {PAYMENT_METHODS.map(m => (
+            <tr key={m}>
+              <td>{PAYMENT_METHOD_LABELS[m]}</td>
+              <td className="amount">{totals.get(m)!.income.toLocaleString()}원</td>
+              <td className="amount">{totals.get(m)!.expense.toLocaleString()}원</td>
+            </tr>
+          ))}
+          <tr className="report-total"><td>은행에 입금할 현금·수표</td><td className="amount" colSpan={2}>{onHandNet.toLocaleString()}원</td></tr>
+        </tbody>
+      </table>
+      <div className="form-actions">
+        <button type="button" className="data-btn" onClick={handleDeposit}>은행 입금 기록</button>
+      </div>
+    </section>
+  );
+};
+
+const FundBalanceSummary: React.FC<{ balances: Map<string, number>; onOpenFunds: () => void }> = ({ balances, onOpenFunds }) => (
+  <section className="card periodical-summary fund-balance-summary">
+    <div className="summary-row">
+      <span className="row-label">재정</span>
+      <div className="row-values multi">
+        {Array.from(balances.entries()).map(([fund, balance]) => (
+          <div className="value-item" key={fund}>
+            <span className="value-label">{fund}</span>
+            <span className={`value-amount ${balance < 0 ? 'expense-color' : ''}`}>{balance.toLocaleString()}원</span>
+          </div>
+        ))}
+      </div>
+    </div>
+    <button onClick={onOpenFunds} className="data-btn">재정 이체 / 관리</button>
+  </section>
+);
+
+// 한 봉투에 여러 항목이 있으면 줄을 추가해 한 번에 등록한다.
+// 가정이 있으면 구성원을 가정별로 묶어 보여준다. 가정 봉투는 봉투에 적힌 구성원을 고르면 된다.
+const MemberOptions: React.FC<{ members: Member[]; households: Household[] }> = ({ members, households }) => {
+  const option = (m: Member) => <option key={m.id} value={m.id}>{m.name} ({m.position})</option>;
+  const grouped = households.map(h => ({ household: h, members: members.filter(m => m.householdId === h.id) })).filter(g => g.members.length > 0);
+  if (grouped.length === 0) return <>{members.map(option)}</>;
+  const householdIds = new Set(grouped.map(g => g.household.id));
+  return (
+    <>
+      {grouped.map(g => <optgroup key={g.household.id} label={g.household.name}>{g.members.map(option)}</optgroup>)}
+      <optgroup label="개인">{members.filter(m => m.householdId === undefined || !householdIds.has(m.householdId)).map(option)}</optgroup>
+    </>
+  );
+};
+
+// 등록된 지급처를 이름순으로 보여준다. 목록에서 빠진 이름으로 기록된 값도 그대로 고를 수 있게 남긴다.
+const PayeeOptions: React.FC<{ payees: Payee[]; current?: string }> = ({ payees, current }) => {
+  const sorted = [...payees].sort((a, b) => a.name.localeCompare(b.name, 'ko'));
+  return (
+    <>
+      <option value="">-- 선택 사항 --</option>
+      {sorted.map(p => <option key={p.id} value={p.name}>{p.name} ({PAYEE_KIND_LABELS[p.kind]})</option>)}
+      {current && !payees.some(p => p.name === current) && <option value={current}>{current} (미등록)</option>}
+    </>
+  );
+};
+
+const IncomeForm: React.FC<{members: Member[], households: Household[], categories: string[], onAddEnvelope: (lines: Omit<Transaction, 'id'>[], onDone: () => void) => void}> = ({ members, households, categories, onAddEnvelope }) => {
+  const [date, setDate] = useState(todayString);
+  const [memberId, setMemberId] = useState<DonorChoice>('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [lines, setLines] = useState<{ category: string; amount: number | '' }[]>([{ category: categories[0] || '', amount: '' }]);
+
+  const total = lines.reduce((sum, line) => sum + (line.amount === '' ? 0 : line.amount), 0);
+
+  const updateLine = (index: number, changes: Partial<{ category: string; amount: number | '' }>) => {
+    setLines(lines.map((line, i) => i === index ? { ...line, ...changes } : line));
+  };
+
+  const addLine = () => {
+    const unused = categories.find(c => !lines.some(line => line.category === c));
+    setLines([...lines, { category: unused ?? categories[0] ?? '', amount: '' }]);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (memberId === '' || lines.some(line => line.amount === '' || line.amount <= 0 || !line.category)) {
+      alert('모든 필수 항목을 입력해주세요.');
+      return;
+    }
+    const donorId = memberIdOfChoice(memberId);
+    onAddEnvelope(lines.map(line => ({ type: 'income', date, category: line.category, amount: Number(line.amount), ...(donorId !== undefined ? { memberId: donorId } : {}), paymentMethod })), () => {
+      setMemberId('');
+      setLines([{ category: lines[0].category, amount: '' }]);
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="transaction-form">
+      <div className="form-group">
+        <label htmlFor="income-date" className="label-with-day">
+          <span>입금 날짜</span>
+          <span>{getDayOfWeek(date)}</span>
+        </label>
+        <input id="income-date" type="date" value={date} onChange={e => setDate(e.target.value)} required />
+      </div>
+      <div className="form-group">
+        <label htmlFor="income-member">헌금자</label>
+        <select id="income-member" value={memberId} onChange={e => setMemberId(parseDonorChoice(e.target.value))} required>
+          <option value="" disabled>-- 성도 선택 --</option>
+          <option value="anonymous">{ANONYMOUS_DONOR} (헌금자 밝히지 않음)</option>
+          <MemberOptions members={members.filter(m => !isAnonymousPlaceholder(m))} households={households} />
+        </select>
+      </div>
+      {lines.map((line, index) => (
+        <React.Fragment key={index}>
+          <div className="form-group">
+            <label htmlFor={`income-category-${index}`}>입금 내역{lines.length > 1 ? ` ${index + 1}` : ''}</label>
+            <select id={`income-category-${index}`} value={line.category} onChange={e => updateLine(index, { category: e.target.value })}>
+              {categories.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor={`income-amount-${index}`}>금액 (원)</label>
+            <div className="category-input">
+              <input id={`income-amount-${index}`} type="number" placeholder="숫자만 입력" value={line.amount} onChange={e => updateLine(index, { amount: e.target.value === '' ? '' : Number(e.target.value) })} required min="1" />
+              {lines.length > 1 && (
+                <button type="button" onClick={() => setLines(lines.filter((_, i) => i !== index))} className="add-category-btn" aria-label="줄 삭제">−</button>
+              )}
+            </div>
+          </div>
+        </React.Fragment>
+      ))}
+      <div className="form-group">
+        <label htmlFor="income-payment-method">결제수단</label>
+        <select id="income-payment-method" value={paymentMethod} onChange={e => setPaymentMethod(e.target.value as PaymentMethod)}>
+          {PAYMENT_METHODS.map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+        </select>
+      </div>
+      <div className="envelope-actions">
+        <button type="button" onClick={addLine} className="data-btn">+ 항목 추가 (한 봉투)</button>
+        {lines.length > 1 && <span>봉투 합계 {total.toLocaleString()}원</span>}
+      </div>
+      <button type="submit" className="submit-btn">등록 완료</button>
+    </form>
+  );
+};
+
+const ExpenseForm: React.FC<{members: Member[], payees: Payee[], categories: string[], fundBalances: Map<string, number>, getBudgetStatus: (category: string, date: string) => { yearLabel: string; budget: number; spent: number } | null, onAddCategory: (cat: string) => void, onAddPayee: (name: string) => void, onAddTransaction: (tx: Omit<Transaction, 'id'>, onDone: () => void) => void}> = ({ members, payees, categories, fundBalances, getBudgetStatus, onAddCategory, onAddPayee, onAddTransaction }) => {
+  const [date, setDate] = useState(todayString);
+  const [category, setCategory] = useState(categories[0] || '');
+  const [fund, setFund] = useState(GENERAL_FUND);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('transfer');
+  const [memberId, setMemberId] = useState<number | ''>('');
+  const [payee, setPayee] = useState('');
+  const [amount, setAmount] = useState<number | ''>('');
+  const [memo, setMemo] = useState('');
+  
+  const currentBudget = category && date ? getBudgetStatus(category, date) : null;
+
+  const handleAddCategory = () => {
+    const newCategory = prompt('추가할 출금 항목 이름을 입력하세요:');
+    if (newCategory) onAddCategory(newCategory.trim());
+  };
+
+  const handleAddPayee = () => {
+    const name = prompt('추가할 지급처 이름을 입력하세요:')?.trim();
+    if (!name) return;
+    onAddPayee(name);
+    setPayee(name);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (amount === '' || amount <= 0 || !category) {
+      alert('출금 내역과 금액을 정확히 입력해주세요.');
+      return;
+    }
+    const budgetStatus = getBudgetStatus(category, date);
+    if (budgetStatus && budgetStatus.spent + amount > budgetStatus.budget) {
+      const over = budgetStatus.spent + amount - budgetStatus.budget;
+      if (!window.confirm(`'${category}' 항목의 ${budgetStatus.yearLabel} 예산(${budgetStatus.budget.toLocaleString()}원)을 ${over.toLocaleString()}원 초과합니다. 그래도 등록하시겠습니까?`)) {
+        return;
+      }
+    }
+    const available = fundBalances.get(fund) ?? 0;
+    if (amount > available && !window.confirm(`${fund} 재정 잔액(${available.toLocaleString()}원)보다 큰 금액입니다. 그래도 등록하시겠습니까?`)) {
+      return;
+    }
+    onAddTransaction({ type: 'expense', date, category, amount, memberId: memberId === '' ? undefined : Number(memberId), payee: payee.trim() || undefined, memo, fund, paymentMethod }, () => {
+      setMemberId('');
+      setPayee('');
+      setAmount('');
+      setMemo('');
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="transaction-form">
+      <div className="form-group">
+        <label htmlFor="expense-date" className="label-with-day">
+          <span>출금 날짜</span>
+          <span>{getDayOfWeek(date)}</span>
+        </label>
+        <input id="expense-date" type="date" value={date} onChange={e => setDate(e.target.value)} required />
+      </div>
+      <div className="form-group">
+        <label htmlFor="expense-category">출금 내역</label>
+        <div className="category-input">
+          <select id="expense-category" value={category} onChange={e => setCategory(e.target.value)} required>
+            <option value="" disabled>-- 항목 선택 --</option>
+            {categories.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <button type="button" onClick={handleAddCategory} className="add-category-btn">+</button>
+        </div>
+        {currentBudget && (
+          <p className={`form-hint ${currentBudget.spent > currentBudget.budget ? 'expense-color' : ''}`}>
+            {currentBudget.yearLabel} 예산 {currentBudget.budget.toLocaleString()}원 중 {currentBudget.spent.toLocaleString()}원 사용
+            (남은 금액 {(currentBudget.budget - currentBudget.spent).toLocaleString()}원)
+          </p>
+        )}
+      </div>
+      <div className="form-group">
+        <label htmlFor="expense-fund">재정</label>
+        <select id="expense-fund" value={fund} onChange={e => setFund(e.target.value)}>
+          {Array.from(fundBalances.entries()).map(([f, balance]) => <option key={f} value={f}>{f} (잔액 {balance.toLocaleString()}원)</option>)}
+        </select>
+      </div>
+      <div className="form-group">
+        <label htmlFor="expense-payment-method">결제수단</label>
+        <select id="expense-payment-method" value={paymentMethod} onChange={e => setPaymentMethod(e.target.value as PaymentMethod)}>
+          {PAYMENT_METHODS.map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+        </select>
+      </div>
+      <div className="form-group">
+        <label htmlFor="expense-user">사용자 (교인)</label>
+        <select id="expense-user" value={memberId} onChange={e => setMemberId(Number(e.target.value))}>
+          <option value="">-- 선택 사항 --</option>
+          {members.map(m => <option key={m.id} value={m.id}>{m.name} ({m.position})</option>)}
+        </select>
+      </div>
+      <div className="form-group">
+        <label htmlFor="expense-payee">지급처</label>
+        <div className="category-input">
+          <select id="expense-payee" value={payee} onChange={e => setPayee(e.target.value)}>
+            <PayeeOptions payees={payees} current={payee} />
+          </select>
+          <button type="button" onClick={handleAddPayee} className="add-category-btn">+</button>
+        </div>
+      </div>
+      <div className="form-group">
+        <label htmlFor="expense-amount">금액 (원)</label>
+        <input id="expense-amount" type="number" placeholder="숫자만 입력" value={amount} onChange={e => setAmount(Number(e.target.value))} required min="1" />
+      </div>
+      <div className="form-group">
+        <label htmlFor="expense-memo">비고</label>
+        <input id="expense-memo" type="text" value={memo} onChange={e => setMemo(e.target.value)} placeholder="메모 (선택사항)" />
+      </div>
+      <button type="submit" className="submit-btn">등록</button>
+    </form>
+  );
+};
+
+const TransactionList: React.FC<{
+  transactions: (Transaction & {fund: string, balance: number, fundBalance: number})[], 
+  funds: string[],
+  reconciledThrough: string,
+  lockedThrough: string,
+  getMemberName: (id?: number) => string,
+  onEditTransaction: (id: number) => void,
+  onDeleteTransaction: (id: number) => void,
+  onSaveData: () => void,
+  onLoadData: (event: ChangeEvent<HTMLInputElement>) => void
+}> = ({ transactions, funds, reconciledThrough, lockedThrough, getMemberName, onEditTransaction, onDeleteTransaction, onSaveData, onLoadData }) => {
+    const [currentPage, setCurrentPage] = useState(1);
+    // 재정을 고르면 그 재정의 거래와 재정 잔액만 보여준다.
+    const [fundFilter, setFundFilter] = useState('');
+    const ITEMS_PER_PAGE = 20;
+
+    useEffect(() => {
+        setCurrentPage(1);
+    }, [transactions, fundFilter]);
+
+    const visibleTransactions = fundFilter ? transactions.filter(tx => tx.fund === fundFilter) : transactions;
+    const totalPages = Math.ceil(visibleTransactions.length / ITEMS_PER_PAGE);
+    const paginatedTransactions = visibleTransactions.slice(
+        (currentPage - 1) * ITEMS_PER_PAGE,
+        currentPage * ITEMS_PER_PAGE
+    );
+
+    const handlePageChange = (page: number) => {
+        if (page >= 1 && page <= totalPages) {
+            setCurrentPage(page);
+        }
+    };
+    
+    return (
+        <section className="card">
+            <div className="list-header">
+                <h2>거래 내역{reconciledThrough && <small> · 통장 대사 {reconciledThrough}까지 완료</small>}{lockedThrough && <small> · {lockedThrough}까지 마감</small>}</h2>
+                <select value={fundFilter} onChange={e => setFundFilter(e.target.value)} aria-label="재정 선택">
+                    <option value="">전체 재정</option>
+                    {funds.map(f => <option key={f} value={f}>{f}</option>)}
+                </select>
+            </div>
+            <div className="transaction-list">
+                <div className="transaction-header">
+                    <span>날짜</span>
+                    <span>입금</span>
+                    <span>출금</span>
+                    <span>금액</span>
+                    <span>{fundFilter ? `${fundFilter} 잔액` : '잔액'}</span>
+                    <span>관리</span>
+                </div>
+                {visibleTransactions.length === 0 ? (
+                    <p className="empty-list">거래 내역이 없습니다.</p>
+                ) : (
+                    paginatedTransactions.map(tx => (
+                        <div key={tx.id} className={`transaction-item ${tx.type}`} title={`${PAYMENT_METHOD_LABELS[getPaymentMethod(tx)]} · 재정: ${tx.fund}${tx.envelopeId ? ' · 봉투 헌금' : ''}${tx.bankReconciledOn ? ` · 통장 대사 ${tx.bankReconciledOn}` : ''}${tx.enteredBy ? ` · 입력: ${tx.enteredBy}` : ''}`}>
+                            <span>{tx.date}</span>
+                            <span>{tx.type === 'income' ? `${getMemberName(tx.memberId)} (${tx.category})` : '-'}</span>
+                            <span>{tx.type === 'expense' ? (tx.payee ? `${tx.category} (${tx.payee})` : tx.category) : '-'}</span>
+                            <span className={tx.type === 'income' ? 'income-color' : 'expense-color'}>{tx.amount.toLocaleString()}원</span>
+                            <span>{(fundFilter ? tx.fundBalance : tx.balance).toLocaleString()}원</span>
+                            <span className="row-actions">
+                                {lockedThrough && tx.date <= lockedThrough ? (
+                                    <span className="locked-tag" title="마감된 기간의 거래입니다.">마감</span>
+                                ) : (
+                                    <>
+                                        <button onClick={() => onEditTransaction(tx.id)} className="edit-btn">수정</button>
+                                        <button onClick={() => onDeleteTransaction(tx.id)} className="delete-btn">삭제</button>
+                                    </>
+                                )}
+                            </span>
+                        </div>
+                    ))
+                )}
+            </div>
+            
+            {totalPages > 1 && (
+                <div className="pagination-controls">
+                    <button onClick={() => handlePageChange(currentPage - 1)} disabled={currentPage === 1}>
+                        &lt;
+                    </button>
+                    {Array.from({ length: totalPages }, (_, i) => i + 1).map(page => (
+                        <button 
+                            key={page} 
+                            onClick={() => handlePageChange(page)}
+                            className={currentPage === page ? 'active' : ''}
+                        >
+                            {page}
+                        </button>
+                    ))}
+                    <button onClick={() => handlePageChange(currentPage + 1)} disabled={currentPage === totalPages}>
+                        &gt;
+                    </button>
+                </div>
+            )}
+
+            <div className="data-management">
+                <button onClick={onSaveData} className="data-btn">데이터 저장</button>
+                <label htmlFor="load-data-input" className="data-btn">
+                    데이터 불러오기
+                </label>
+                <input 
+                    id="load-data-input"
+                    type="file"
+                    accept=".json"
+                    onChange={onLoadData}
+                    style={{ display: 'none' }}
+                />
+            </div>
+        </section>
+    );
+};
+
+// 성도 추가와 상세 화면이 함께 쓰는 입력 칸
+const MemberProfileFields: React.FC<{ profile: MemberProfile; onChange: (profile: MemberProfile) => void; idPrefix: string }> = ({ profile, onChange, idPrefix }) => {
+  const set = (changes: Partial<MemberProfile>) => onChange({ ...profile, ...changes });
+  return (
+    <div className="member-profile-grid">
+      <div className="form-group">
+        <label htmlFor={`${idPrefix}-name`}>이름</label>
+        <input id={`${idPrefix}-name`} type="text" value={profile.name} onChange={e => set({ name: e.target.value })} required />
+      </div>
+      <div className="form-group">
+        <label htmlFor={`${idPrefix}-position`}>직분</label>
+        <select id={`${idPrefix}-position`} value={profile.position} onChange={e => set({ position: e.target.value })}>
+          {POSITIONS.map(p => <option key={p} value={p}>{p}</option>)}
+        </select>
+      </div>
+      <div className="form-group">
+        <label htmlFor={`${idPrefix}-phone`}>전화번호</label>
+        <input id={`${idPrefix}-phone`} type="tel" value={profile.phone ?? ''} onChange={e => set({ phone: e.target.value })} placeholder="010-0000-0000" />
+      </div>
+      <div className="form-group">
+        <label htmlFor={`${idPrefix}-district`}>구역/셀</label>
+        <input id={`${idPrefix}-district`} type="text" value={profile.district ?? ''} onChange={e => set({ district: e.target.value })} />
+      </div>
+      <div className="form-group">
+        <label htmlFor={`${idPrefix}-birthday`}>생년월일</label>
+        <input id={`${idPrefix}-birthday`} type="date" value={profile.birthday ?? ''} onChange={e => set({ birthday: e.target.value })} />
+      </div>
+      <div className="form-group">
+        <label htmlFor={`${idPrefix}-registered`}>등록일</label>
+        <input id={`${idPrefix}-registered`} type="date" value={profile.registeredOn ?? ''} onChange={e => set({ registeredOn: e.target.value })} />
+      </div>
+      <div className="form-group wide">
+        <label htmlFor={`${idPrefix}-address`}>주소</label>
+        <input id={`${idPrefix}-address`} type="text" value={profile.address ?? ''} onChange={e => set({ address: e.target.value })} />
+      </div>
+      <div className="form-group wide">
+        <label htmlFor={`${idPrefix}-resident`}>주민등록번호 (기부금영수증용)</label>
+        <input id={`${idPrefix}-resident`} type="text" value={profile.residentNumber ?? ''} onChange={e => set({ residentNumber: e.target.value })} placeholder="000000-0000000" autoComplete="off" />
+      </div>
+      <div className="form-group wide">
+        <label htmlFor={`${idPrefix}-notes`}>메모</label>
+        <textarea id={`${idPrefix}-notes`} value={profile.notes ?? ''} onChange={e => set({ notes: e.target.value })} rows={3} />
+      </div>
+    </div>
+  );
+};
+
+// 빈 칸은 저장하지 않고, 주민등록번호는 형식을 맞춘다. 형식이 틀리면 null.
+const cleanMemberProfile = (profile: MemberProfile): MemberProfile | null => {
+  const cleaned: MemberProfile = { name: profile.name.trim(), position: profile.position };
+  if (profile.active === false) cleaned.active = false;
+  for (const key of MEMBER_TEXT_FIELDS) {
+    const value = profile[key]?.trim();
+    if (value) cleaned[key] = value;
+  }
+  if (cleaned.residentNumber) {
+    const residentNumber = normalizeResidentNumber(cleaned.residentNumber);
+    if (!residentNumber) {
+      alert('주민등록번호는 13자리 숫자로 입력해주세요.');
+      return null;
+    }
+    cleaned.residentNumber = residentNumber;
+  }
+  return cleaned;
+};
+
+const AddMemberModal: React.FC<{onAddMember: (profile: MemberProfile) => void, onClose: () => void}> = ({ onAddMember, onClose }) => {
+  const [profile, setProfile] = useState<MemberProfile>({ name: '', position: POSITIONS[0], registeredOn: todayString() });
+  
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const cleaned = cleanMemberProfile(profile);
+    if (cleaned) onAddMember(cleaned);
+  };
+
+  return (
+    <div className="modal-backdrop">
+      <div className="modal-content large scrollable">
+        <button onClick={onClose} className="close-btn">&times;</button>
+        <h2>새 성도 추가</h2>
+        <form onSubmit={handleSubmit}>
+          <MemberProfileFields profile={profile} onChange={setProfile} idPrefix="new-member" />
+          <button type="submit" className="submit-btn">추가</button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+const EditMembersModal: React.FC<{
+    members: Member[];
+    onClose: () => void;
+    onUpdateMember: (id: number, changes: Partial<MemberProfile>) => void;
+    onSetMemberActive: (id: number, active: boolean) => void;
+    onOpenDetail: (id: number) => void;
+    onOpenHouseholds: () => void;
+    onOpenDuplicates: () => void;
+    onConvertAnonymous: (id: number) => void;
+}> = ({ members, onClose, onUpdateMember, onSetMemberActive, onOpenDetail, onOpenHouseholds, onOpenDuplicates, onConvertAnonymous }) => {
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [editName, setEditName] = useState('');
+    const [editPosition, setEditPosition] = useState('');
+    const [query, setQuery] = useState('');
+    const [showInactive, setShowInactive] = useState(false);
+
+    const handleEditStart = (member: Member) => {
+        setEditingId(member.id);
+        setEditName(member.name);
+        setEditPosition(member.position);
+    };
+
+    const handleEditCancel = () => {
+        setEditingId(null);
+    };
+
+    const handleEditSave = () => {
+        if (editingId && editName.trim()) {
+            onUpdateMember(editingId, { name: editName.trim(), position: editPosition });
+            setEditingId(null);
+        } else {
+            alert('이름을 입력해주세요.');
+        }
+    };
+
+    const handleDeactivate = (member: Member) => {
+        if (window.confirm(`${member.name} (${member.position}) 님을 비활동으로 바꾸시겠습니까?\n입력 목록에서만 빠지고, 지난 헌금 내역과 이름은 그대로 남습니다.`)) {
+            onSetMemberActive(member.id, false);
+        }
+    };
+
+    const inactiveCount = members.filter(m => !isMemberActive(m)).length;
+    const placeholders = members.filter(m => isMemberActive(m) && isAnonymousPlaceholder(m));
+    const visibleMembers = members.filter(m =>
+        (showInactive || isMemberActive(m)) &&
+        (!query.trim() || m.name.includes(query.trim()) || (m.district ?? '').includes(query.trim())));
+
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content large">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>회원 관리</h2>
+                <div className="list-header">
+                    <input type="search" value={query} onChange={e => setQuery(e.target.value)} placeholder="이름 또는 구역 검색" aria-label="성도 검색" />
+                    <label>
+                        <input type="checkbox" checked={showInactive} onChange={e => setShowInactive(e.target.checked)} /> 비활동 성도 보기 ({inactiveCount}명)
+                    </label>
+                    <button type="button" className="data-btn" onClick={onOpenHouseholds}>가정 관리</button>
+                    <button type="button" className="data-btn" onClick={onOpenDuplicates}>중복 찾기</button>
+                </div>
+                {placeholders.map(member => (
+                    <div key={member.id} className="receipt-batch-actions">
+                        <span>'{member.name} ({member.position})'은(는) {ANONYMOUS_DONOR} 헌금용 성도로 보입니다. 이제 입금 입력에서 {ANONYMOUS_DONOR}을 바로 고를 수 있습니다.</span>
+                        <button type="button" className="data-btn" onClick={() => onConvertAnonymous(member.id)}>{ANONYMOUS_DONOR} 헌금으로 전환</button>
+                    </div>
+                ))}
+                <ul className="member-list">
+                    {visibleMembers.map(member => (
+                        <li key={member.id} className={`member-item${isMemberActive(member) ? '' : ' inactive'}`}>
+                            {editingId === member.id ? (
+                                <>
+                                    <div className="edit-form">
+                                        <input 
+                                            type="text" 
+                                            value={editName} 
+                                            onChange={(e) => setEditName(e.target.value)} 
+                                            placeholder="이름"
+                                        />
+                                        <select value={editPosition} onChange={(e) => setEditPosition(e.target.value)}>
+                                            {POSITIONS.map(p => <option key={p} value={p}>{p}</option>)}
+                                        </select>
+                                    </div>
+                                    <div className="member-actions">
+                                        <button onClick={handleEditSave} className="save-btn">저장</button>
+                                        <button onClick={handleEditCancel} className="cancel-btn">취소</button>
+                                    </div>
+                                </>
+                            ) : (
+                                <>
+                                    <div className="member-info">
+                                        <span>{member.name}</span>
+                                        <small>{[member.position, member.district, isMemberActive(member) ? '' : '비활동'].filter(Boolean).join(' · ')}</small>
+                                    </div>
+                                    <div className="member-actions">
+                                        <button onClick={() => onOpenDetail(member.id)} className="save-btn">상세</button>
+                                        <button onClick={() => handleEditStart(member)} className="edit-btn">수정</button>
+                                        {isMemberActive(member) ? (
+                                            <button onClick={() => handleDeactivate(member)} className="delete-btn">비활동</button>
+                                        ) : (
+                                            <button onClick={() => onSetMemberActive(member.id, true)} className="edit-btn">복귀</button>
+                                        )}
+                                    </div>
+                                </>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        </div>
+    );
+};
+
+// 성도 한 사람의 인적 사항과 헌금 내역. 연도별 합계와 전체 입금 내역을 보여준다.
+const MemberDetailModal: React.FC<{
+    member: Member;
+    households: Household[];
+    transactions: Transaction[];
+    onSave: (changes: MemberProfile) => void;
+    onSetActive: (active: boolean) => void;
+    onClose: () => void;
+}> = ({ member, households, transactions, onSave, onSetActive, onClose }) => {
+    const { id: _id, ...initialProfile } = member;
+    const [profile, setProfile] = useState<MemberProfile>(initialProfile);
+    const [editing, setEditing] = useState(false);
+
+    const history = useMemo(() => transactions
+        .filter(tx => tx.type === 'income' && tx.memberId === member.id)
+        .sort((a, b) => b.date.localeCompare(a.date) || b.id - a.id), [transactions, member.id]);
+
+    const yearlyTotals = useMemo(() => {
+        const totals = new Map<string, { count: number; total: number }>();
+        history.forEach(tx => {
+            const year = tx.date.slice(0, 4);
+            const entry = totals.get(year) ?? { count: 0, total: 0 };
+            totals.set(year, { count: entry.count + 1, total: entry.total + tx.amount });
+        });
+        return Array.from(totals.entries());
+    }, [history]);
+
+    const handleSave = (e: FormEvent) => {
+        e.preventDefault();
+        if (!profile.name.trim()) {
+            alert('이름을 입력해주세요.');
+            return;
+        }
+        const cleaned = cleanMemberProfile(profile);
+        if (!cleaned) return;
+        // 비운 항목은 지워지도록 모든 항목을 명시해서 넘긴다.
+        onSave({ ...Object.fromEntries(MEMBER_TEXT_FIELDS.map(key => [key, undefined])), ...cleaned, active: member.active, householdId: member.householdId });
+        setEditing(false);
+    };
+
+    const profileRows: [string, string | undefined][] = [
+        ['직분', member.position],
+        ['전화번호', member.phone],
+        ['구역/셀', member.district],
+        ['가정', households.find(h => h.id === member.householdId)?.name],
+        ['생년월일', member.birthday],
+        ['등록일', member.registeredOn],
+        ['주소', member.address],
+        ['주민등록번호', maskResidentNumber(member.residentNumber)],
+        ['메모', member.notes],
+    ];
+
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content large scrollable">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>{member.name} {isMemberActive(member) ? '' : <small className="expense-color">(비활동)</small>}</h2>
+                {editing ? (
+                    <form onSubmit={handleSave}>
+                        <MemberProfileFields profile={profile} onChange={setProfile} idPrefix="member-detail" />
+                        <div className="form-actions">
+                            <button type="button" className="cancel-btn" onClick={() => { setProfile(initialProfile); setEditing(false); }}>취소</button>
+                            <button type="submit" className="save-btn">저장</button>
+                        </div>
+                    </form>
+                ) : (
+                    <>
+                        <table className="report-table member-profile-table">
+                            <tbody>
+                                {profileRows.map(([label, value]) => (
+                                    <tr key={label}><th>{label}</th><td>{value || '-'}</td></tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <div className="form-actions">
+                            {isMemberActive(member) ? (
+                                <button type="button" className="delete-btn" onClick={() => onSetActive(false)}>비활동으로 변경</button>
+                            ) : (
+                                <button type="button" className="edit-btn" onClick={() => onSetActive(true)}>활동으로 복귀</button>
+                            )}
+                            <button type="button" className="edit-btn" onClick={() => { setProfile(initialProfile); setEditing(true); }}>정보 수정</button>
+                        </div>
+                    </>
+                )}
+
+                <h3>헌금 내역</h3>
+                {history.length === 0 ? (
+                    <p className="empty-list">헌금 내역이 없습니다.</p>
+                ) : (
+                    <>
+                        <table className="report-table">
+                            <thead><tr><th>연도</th><th className="amount">건수</th><th className="amount">합계</th></tr></thead>
+                            <tbody>
+                                {yearlyTotals.map(([year, entry]) => (
+                                    <tr key={year}><td>{year}년</td><td className="amount">{entry.count}건</td><td className="amount">{entry.total.toLocaleString()}원</td></tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <table className="report-table">
+                            <thead><tr><th>날짜</th><th>항목</th><th>결제수단</th><th className="amount">금액</th><th>비고</th></tr></thead>
+                            <tbody>
+                                {history.map(tx => (
+                                    <tr key={tx.id}>
+                                        <td>{tx.date}</td>
+                                        <td>{tx.category}</td>
+                                        <td>{PAYMENT_METHOD_LABELS[getPaymentMethod(tx)]}</td>
+                                        <td className="amount">{tx.amount.toLocaleString()}원</td>
+                                        <td>{tx.memo ?? ''}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const DuplicateMembersModal: React.FC<{
+    members: Member[];
+    transactions: Transaction[];
+    memberMerges: MemberMerge[];
+    getMemberName: (id?: number) => string;
+    onMerge: (survivorId: number, mergedId: number) => void;
+    onUndo: (mergeId: number) => void;
+    onClose: () => void;
+}> = ({ members, transactions, memberMerges, getMemberName, onMerge, onUndo, onClose }) => {
+    // 쌍마다 남길 성도. 고르지 않으면 거래가 더 많은 쪽을 남긴다.
+    const [survivors, setSurvivors] = useState<Record<string, number>>({});
+    const pairs = useMemo(() => findDuplicateMembers(members), [members]);
+    const givingStats = useMemo(() => {
+        const stats = new Map<number, { count: number; total: number }>();
+        transactions.forEach(tx => {
+            if (tx.memberId === undefined) return;
+            const entry = stats.get(tx.memberId) ?? { count: 0, total: 0 };
+            stats.set(tx.memberId, { count: entry.count + 1, total: entry.total + tx.amount });
+        });
+        return stats;
+    }, [transactions]);
+    const history = useMemo(() => [...memberMerges].reverse(), [memberMerges]);
+
+    const pairKey = (pair: DuplicateMemberPair) => `${pair.a.id}-${pair.b.id}`;
+    const defaultSurvivor = (pair: DuplicateMemberPair) =>
+        (givingStats.get(pair.b.id)?.count ?? 0) > (givingStats.get(pair.a.id)?.count ?? 0) ? pair.b.id : pair.a.id;
+
+    const describeMember = (member: Member) => {
+        const stats = givingStats.get(member.id);
+        return [member.position, member.district, member.phone, `거래 ${stats?.count ?? 0}건 · ${(stats?.total ?? 0).toLocaleString()}원`].filter(Boolean).join(' · ');
+    };
+
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content large scrollable">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>중복 성도 찾기</h2>
+                {pairs.length === 0 ? (
+                    <p className="empty-list">중복으로 보이는 성도가 없습니다.</p>
+                ) : (
+                    <ul className="household-list">
+                        {pairs.map(pair => {
+                            const key = pairKey(pair);
+                            const survivorId = survivors[key] ?? defaultSurvivor(pair);
+                            const mergedId = survivorId === pair.a.id ? pair.b.id : pair.a.id;
+                            return (
+                                <li key={key} className="household-card">
+                                    <h3>{pair.reason}</h3>
+                                    {[pair.a, pair.b].map(member => (
+                                        <label key={member.id} className="duplicate-choice">
+                                            <input type="radio" name={`survivor-${key}`} checked={survivorId === member.id} onChange={() => setSurvivors({ ...survivors, [key]: member.id })} />
+                                            <span>
+                                                <strong>{member.name}</strong>{isMemberActive(member) ? '' : ' (비활동)'} <small>{describeMember(member)}</small>
+                                            </span>
+                                        </label>
+                                    ))}
+                                    <div className="form-actions">
+                                        <button type="button" className="save-btn" onClick={() => onMerge(survivorId, mergedId)}>선택한 성도로 병합</button>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+
+                <h3>병합 이력</h3>
+                {history.length === 0 ? (
+                    <p className="empty-list">병합 이력이 없습니다.</p>
+                ) : (
+                    <ul className="member-list">
+                        {history.map(merge => (
+                            <li key={merge.id} className={`member-item${merge.undoneAt ? ' inactive' : ''}`}>
+                                <div className="member-info">
+                                    <span>{merge.merged.name} ({merge.merged.position}) → {getMemberName(merge.survivorId)}</span>
+                                    <small>
+                                        {formatDateTime(merge.timestamp)}{merge.actor ? ` · ${merge.actor}` : ''} · 거래 {merge.transactionIds.length}건
+                                        {merge.undoneAt ? ` · ${formatDateTime(merge.undoneAt)} 되돌림` : ''}
+                                    </small>
+                                </div>
+                                {!merge.undoneAt && (
+                                    <div className="member-actions">
+                                        <button type="button" className="edit-btn" onClick={() => onUndo(merge.id)}>되돌리기</button>
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// 가정별 연간 헌금 합계와 구성원별 내역
+const computeHouseholdTotals = (transactions: Transaction[], members: Member[], year: number) => {
+    const householdOf = new Map(members.filter(m => m.householdId !== undefined).map(m => [m.id, m.householdId!]));
+    const totals = new Map<number, { total: number; byMember: Map<number, number> }>();
+    transactions.forEach(tx => {
+        if (tx.type !== 'income' || tx.memberId === undefined || !tx.date.startsWith(`${year}-`)) return;
+        const householdId = householdOf.get(tx.memberId);
+        if (householdId === undefined) return;
+        const entry = totals.get(householdId) ?? { total: 0, byMember: new Map<number, number>() };
+        entry.total += tx.amount;
+        entry.byMember.set(tx.memberId, (entry.byMember.get(tx.memberId) ?? 0) + tx.amount);
+        totals.set(householdId, entry);
+    });
+    return totals;
+};
+
+const HouseholdsModal: React.FC<{
+    households: Household[];
+    members: Member[];
+    transactions: Transaction[];
+    onAddHousehold: (name: string) => void;
+    onUpdateHousehold: (id: number, changes: Partial<Omit<Household, 'id'>>) => void;
+    onSetMemberHousehold: (memberId: number, householdId?: number) => void;
+    onDeleteHousehold: (id: number) => void;
+    onClose: () => void;
+}> = ({ households, members, transactions, onAddHousehold, onUpdateHousehold, onSetMemberHousehold, onDeleteHousehold, onClose }) => {
+    const [newName, setNewName] = useState('');
+    const [year, setYear] = useState(() => new Date().getFullYear());
+    const [renamingId, setRenamingId] = useState<number | null>(null);
+    const [renameDraft, setRenameDraft] = useState('');
+
+    const years = useMemo(() => {
+        const set = new Set<number>(transactions.map(tx => Number(tx.date.slice(0, 4))).filter(y => !isNaN(y)));
+        set.add(new Date().getFullYear());
+        return Array.from(set).sort((a, b) => b - a);
+    }, [transactions]);
+    const totals = useMemo(() => computeHouseholdTotals(transactions, members, year), [transactions, members, year]);
+    const unassigned = members.filter(m => isMemberActive(m) && (m.householdId === undefined || !households.some(h => h.id === m.householdId)));
+
+    const handleAdd = (e: FormEvent) => {
+        e.preventDefault();
+        onAddHousehold(newName);
+        setNewName('');
+    };
+
+    const handleRename = (household: Household) => {
+        const name = renameDraft.trim();
+        if (!name) {
+            alert('가정 이름을 입력해주세요.');
+            return;
+        }
+        if (households.some(h => h.id !== household.id && h.name === name)) {
+            alert('이미 있는 가정 이름입니다.');
+            return;
+        }
+        onUpdateHousehold(household.id, { name });
+        setRenamingId(null);
+    };
+
+    const handleDelete = (household: Household) => {
+        if (window.confirm(`'${household.name}'을(를) 삭제하시겠습니까?\n구성원과 헌금 내역은 그대로 남고 가정 연결만 해제됩니다.`)) {
+            onDeleteHousehold(household.id);
+        }
+    };
+
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content large scrollable">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>가정 관리</h2>
+                <form onSubmit={handleAdd} className="list-header">
+                    <input type="text" value={newName} onChange={e => setNewName(e.target.value)} placeholder="예: 김철수 가정" aria-label="새 가정 이름" />
+                    <button type="submit" className="save-btn">가정 추가</button>
+                    <select value={year} onChange={e => setYear(Number(e.target.value))} aria-label="합계 연도">
+                        {years.map(y => <option key={y} value={y}>{y}년 합계</option>)}
+                    </select>
+                </form>
+                {households.length === 0 ? (
+                    <p className="empty-list">등록된 가정이 없습니다.</p>
+                ) : (
+                    <ul className="household-list">
+                        {households.map(household => {
+                            const householdMembers = members.filter(m => m.householdId === household.id);
+                            const entry = totals.get(household.id);
+                            return (
+                                <li key={household.id} className="household-card">
+                                    <div className="list-header">
+                                        {renamingId === household.id ? (
+                                            <>
+                                                <input type="text" value={renameDraft} onChange={e => setRenameDraft(e.target.value)} aria-label="가정 이름" />
+                                                <button type="button" className="save-btn" onClick={() => handleRename(household)}>저장</button>
+                                                <button type="button" className="cancel-btn" onClick={() => setRenamingId(null)}>취소</button>
+                                            </>
+                                        ) : (
+                                            <>
+                                                <h3>{household.name} <small>{year}년 {(entry?.total ?? 0).toLocaleString()}원</small></h3>
+                                                <button type="button" className="edit-btn" onClick={() => { setRenamingId(household.id); setRenameDraft(household.name); }}>이름 변경</button>
+                                                <button type="button" className="delete-btn" onClick={() => handleDelete(household)}>삭제</button>
+                                            </>
+                                        )}
+                                    </div>
+                                    <ul className="member-list">
+                                        {householdMembers.map(member => (
+                                            <li key={member.id} className={`member-item${isMemberActive(member) ? '' : ' inactive'}`}>
+                                                <div className="member-info">
+                                                    <span>{member.name}{household.receiptMemberId === member.id ? ' · 영수증 수령인' : ''}</span>
+                                                    <small>{member.position} · {(entry?.byMember.get(member.id) ?? 0).toLocaleString()}원</small>
+                                                </div>
+                                                <div className="member-actions">
+                                                    {household.receiptMemberId !== member.id && (
+                                                        <button type="button" className="edit-btn" onClick={() => onUpdateHousehold(household.id, { receiptMemberId: member.id })}>수령인 지정</button>
+                                                    )}
+                                                    <button type="button" className="delete-btn" onClick={() => onSetMemberHousehold(member.id)}>제외</button>
+                                                </div>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                    <select value="" onChange={e => e.target.value && onSetMemberHousehold(Number(e.target.value), household.id)} aria-label="구성원 추가">
+                                        <option value="">+ 구성원 추가</option>
+                                        {unassigned.map(m => <option key={m.id} value={m.id}>{m.name} ({m.position})</option>)}
+                                    </select>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const SearchModal: React.FC<{
+    transactions: Transaction[], 
+    members: Member[], 
+    households: Household[],
+    payees: Payee[],
+    getMemberName: (id?: number) => string,
+    incomeCategories: string[],
+    expenseCategories: string[],
+    onEditTransaction: (id: number) => void,
+    onDeleteTransaction: (id: number) => void,
+    onClose: () => void
+}> = ({ transactions, members, households, payees, getMemberName, incomeCategories, expenseCategories, onEditTransaction, onDeleteTransaction, onClose }) => {
+    const [searchType, setSearchType] = useState<'name' | 'household' | 'payee' | 'category'>('name');
+    const [nameQuery, setNameQuery] = useState<DonorChoice>('');
+    const [householdQuery, setHouseholdQuery] = useState<number | ''>('');
+    const [payeeQuery, setPayeeQuery] = useState('');
+    
+    const [categoryType, setCategoryType] = useState<'income' | 'expense'>('income');
+    const [categoryQuery, setCategoryQuery] = useState('');
+
+    const [startDate, setStartDate] = useState(() => {
+        const d = new Date();
+        d.setFullYear(d.getFullYear() - 1);
+        return d.toISOString().slice(0, 10);
+    });
+    const [endDate, setEndDate] = useState(todayString);
+    const [methodFilter, setMethodFilter] = useState<PaymentMethod | ''>('');
+
+    const filteredTransactions = useMemo(() => {
+        return transactions.filter(tx => tx.date >= startDate && tx.date <= endDate && (methodFilter === '' || getPaymentMethod(tx) === methodFilter));
+    }, [transactions, startDate, endDate, methodFilter]);
+
+    const todaysTotals = useMemo(() => {
+        const today = todayString();
+        const todaysTransactions = transactions.filter(tx => tx.date === today);
+        
+        const totalIncome = todaysTransactions
+            .filter(tx => tx.type === 'income')
+            .reduce((sum, tx) => sum + tx.amount, 0);
+
+        const totalExpense = todaysTransactions
+            .filter(tx => tx.type === 'expense')
+            .reduce((sum, tx) => sum + tx.amount, 0);
+            
+        return { totalIncome, totalExpense };
+    }, [transactions]);
+
+    const nameSearchResult = useMemo(() => {
+        if (searchType !== 'name' || nameQuery === '') return null;
+        const result = filteredTransactions.filter(tx => tx.memberId === memberIdOfChoice(nameQuery) && tx.type === 'income');
+        const total = result.reduce((sum, tx) => sum + tx.amount, 0);
+        return { transactions: result, total };
+    }, [filteredTransactions, searchType, nameQuery]);
+
+    // 가정 구성원 전체의 헌금을 합산한다.
+    const householdSearchResult = useMemo(() => {
+        if (searchType !== 'household' || householdQuery === '') return null;
+        const memberIds = new Set(members.filter(m => m.householdId === householdQuery).map(m => m.id));
+        const result = filteredTransactions.filter(tx => tx.type === 'income' && tx.memberId !== undefined && memberIds.has(tx.memberId));
+        const byMember = Array.from(memberIds).map(id => ({ id, total: result.filter(tx => tx.memberId === id).reduce((sum, tx) => sum + tx.amount, 0) }));
+        return { transactions: result, byMember, total: result.reduce((sum, tx) => sum + tx.amount, 0) };
+    }, [filteredTransactions, members, searchType, householdQuery]);
+
+    // 등록된 지급처와 출금에 적힌 이름을 함께 고를 수 있게 한다.
+    const payeeNames = useMemo(() => Array.from(new Set<string>([
+        ...payees.map(p => p.name),
+        ...transactions.filter(tx => tx.type === 'expense' && tx.payee).map(tx => tx.payee!),
+    ])).sort((a, b) => a.localeCompare(b, 'ko')), [payees, transactions]);
+
+    const payeeSearchResult = useMemo(() => {
+        if (searchType !== 'payee' || payeeQuery === '') return null;
+        const result = filteredTransactions.filter(tx => tx.type === 'expense' && tx.payee === payeeQuery);
+        const total = result.reduce((sum, tx) => sum + tx.amount, 0);
+        return { transactions: result, total };
+    }, [filteredTransactions, searchType, payeeQuery]);
+
+    const categorySearchResult = useMemo(() => {
+        if (searchType !== 'category' || categoryQuery === '') return null;
+        const result = filteredTransactions.filter(tx => tx.type === categoryType && tx.category === categoryQuery);
+        const total = result.reduce((sum, tx) => sum + tx.amount, 0);
+        return { transactions: result, total };
+    }, [filteredTransactions, searchType, categoryType, categoryQuery]);
+
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content large">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>조회</h2>
+                <div className="search-controls">
+                    <div className="form-group date-range">
+                        <label>기간 설정:</label>
+                        <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} />
+                        <span>~</span>
+                        <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} />
+                        <label>결제수단:</label>
+                        <select value={methodFilter} onChange={e => setMethodFilter(e.target.value as PaymentMethod | '')}>
+                            <option value="">전체</option>
+                            {PAYMENT_METHODS.map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+                        </select>
+                    </div>
+                    <div className="tabs">
+                        <button className={`tab-button ${searchType === 'name' ? 'active' : ''}`} onClick={() => setSearchType('name')}>이름 조회</button>
+                        <button className={`tab-button ${searchType === 'household' ? 'active' : ''}`} onClick={() => setSearchType('household')}>가정별 조회</button>
+                        <button className={`tab-button ${searchType === 'payee' ? 'active' : ''}`} onClick={() => setSearchType('payee')}>지급처별 조회</button>
+                        <button className={`tab-button ${searchType === 'category' ? 'active' : ''}`} onClick={() => setSearchType('category')}>항목별 조회</button>
+                    </div>
+
+                    {searchType === 'name' && (
+                        <div className="form-group">
+                            <label>이름:</label>
+                            <select value={nameQuery} onChange={e => setNameQuery(parseDonorChoice(e.target.value))}>
+                                <option value="" disabled>-- 성도 선택 --</option>
+                                <option value="anonymous">{ANONYMOUS_DONOR} 헌금</option>
+                                {members.map(m => <option key={m.id} value={m.id}>{m.name}{isMemberActive(m) ? '' : ' (비활동)'}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    {searchType === 'household' && (
+                        <div className="form-group">
+                            <label>가정:</label>
+                            <select value={householdQuery} onChange={e => setHouseholdQuery(Number(e.target.value))}>
+                                <option value="" disabled>-- 가정 선택 --</option>
+                                {households.map(h => <option key={h.id} value={h.id}>{h.name}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    {searchType === 'payee' && (
+                        <div className="form-group">
+                            <label>지급처:</label>
+                            <select value={payeeQuery} onChange={e => setPayeeQuery(e.target.value)}>
+                                <option value="" disabled>-- 지급처 선택 --</option>
+                                {payeeNames.map(name => <option key={name} value={name}>{name}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    {searchType === 'category' && (
+                        <div className="category-search-container">
+                            <div className="category-search-group">
+                                <select value={categoryType} onChange={e => { setCategoryType(e.target.value as 'income' | 'expense'); setCategoryQuery(''); }}>
+                                    <option value="income">입금</option>
+                                    <option value="expense">출금</option>
+                                </select>
+                                <select value={categoryQuery} onChange={e => setCategoryQuery(e.target.value)}>
+                                    <option value="" disabled>-- 항목 선택 --</option>
+                                    {(categoryType === 'income' ? incomeCategories : expenseCategories).map(c => <option key={c} value={c}>{c}</option>)}
+                                </select>
+                            </div>
+                            <div className="today-totals-summary">
+                                <div>
+                                    <span>오늘의 입금 총액</span>
+                                    <span className="income-color">{todaysTotals.totalIncome.toLocaleString()}원</span>
+                                </div>
+                                <div>
+                                    <span>오늘의 출금 총액</span>
+                                    <span className="expense-color">{todaysTotals.totalExpense.toLocaleString()}원</span>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+                </div>
+                <div className="search-results">
+                    {nameSearchResult && (
+                        <>
+                            <h3>{nameQuery === 'anonymous' ? `${ANONYMOUS_DONOR} 헌금` : `${getMemberName(memberIdOfChoice(nameQuery))}님 헌금`} 내역 (총: {nameSearchResult.total.toLocaleString()}원)</h3>
+                            <ul>{nameSearchResult.transactions.map(tx => (
+                                <li key={tx.id}>
+                                    <span>{tx.date} | {tx.category}: {tx.amount.toLocaleString()}원 ({PAYMENT_METHOD_LABELS[getPaymentMethod(tx)]})</span>
+                                    <span className="row-actions">
+                                        <button onClick={() => onEditTransaction(tx.id)} className="edit-btn">수정</button>
+                                        <button onClick={() => onDeleteTransaction(tx.id)} className="delete-btn">삭제</button>
+                                    </span>
+                                </li>
+                            ))}</ul>
+                        </>
+                    )}
+                    {householdSearchResult && (
+                        <>
+                            <h3>{households.find(h => h.id === householdQuery)?.name} 헌금 내역 (총: {householdSearchResult.total.toLocaleString()}원)</h3>
+                            <p>{householdSearchResult.byMember.map(m => `${getMemberName(m.id)} ${m.total.toLocaleString()}원`).join(' · ')}</p>
+                            <ul>{householdSearchResult.transactions.map(tx => (
+                                <li key={tx.id}>
+                                    <span>{tx.date} | {getMemberName(tx.memberId)} · {tx.category}: {tx.amount.toLocaleString()}원 ({PAYMENT_METHOD_LABELS[getPaymentMethod(tx)]})</span>
+                                    <span className="row-actions">
+                                        <button onClick={() => onEditTransaction(tx.id)} className="edit-btn">수정</button>
+                                        <button onClick={() => onDeleteTransaction(tx.id)} className="delete-btn">삭제</button>
+                                    </span>
+                                </li>
+                            ))}</ul>
+                        </>
+                    )}
+                    {payeeSearchResult && (
+                        <>
+                            <h3>{payeeQuery} 지급 내역 (총: {payeeSearchResult.total.toLocaleString()}원)</h3>
+                            <ul>{payeeSearchResult.transactions.map(tx => (
+                                <li key={tx.id}>
+                                    <span>{tx.date} | {tx.category}{tx.memo ? ` · ${tx.memo}` : ''}: {tx.amount.toLocaleString()}원 ({PAYMENT_METHOD_LABELS[getPaymentMethod(tx)]})</span>
+                                    <span className="row-actions">
+                                        <button onClick={() => onEditTransaction(tx.id)} className="edit-btn">수정</button>
+                                        <button onClick={() => onDeleteTransaction(tx.id)} className="delete-btn">삭제</button>
+                                    </span>
+                                </li>
+                            ))}</ul>
+                        </>
+                    )}
+                    {categorySearchResult && (
+                        <>
+                           <h3>{categoryQuery} 내역 (총: {categorySearchResult.total.toLocaleString()}원)</h3>
+                           <ul>{categorySearchResult.transactions.map(tx => (
+                               <li key={tx.id}>
+                                   <span>{tx.date} | {tx.type === 'income' ? getMemberName(tx.memberId) : (tx.payee ? `${tx.payee}${tx.memo ? ` · ${tx.memo}` : ''}` : tx.memo || '메모 없음')}: {tx.amount.toLocaleString()}원 ({PAYMENT_METHOD_LABELS[getPaymentMethod(tx)]})</span>
+                                   <span className="row-actions">
+                                       <button onClick={() => onEditTransaction(tx.id)} className="edit-btn">수정</button>
+                                       <button onClick={() => onDeleteTransaction(tx.id)} className="delete-btn">삭제</button>
+                                   </span>
+                               </li>
+                           ))}</ul>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const EditTransactionModal: React.FC<{
+    transaction: Transaction;
+    members: Member[];
+    payees: Payee[];
+    incomeCategories: string[];
+    expenseCategories: string[];
+    funds: string[];
+    onSave: (updated: Transaction) => void;
+    onClose: () => void;
+}> = ({ transaction, members, payees, incomeCategories, expenseCategories, funds, onSave, onClose }) => {
+    const [date, setDate] = useState(transaction.date);
+    const [fund, setFund] = useState(transaction.fund ?? GENERAL_FUND);
+    const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>(getPaymentMethod(transaction));
+    const [category, setCategory] = useState(transaction.category);
+    const [memberId, setMemberId] = useState<DonorChoice>(transaction.memberId ?? (transaction.type === 'income' ? 'anonymous' : ''));
+    const [amount, setAmount] = useState<number | ''>(transaction.amount);
+    const [memo, setMemo] = useState(transaction.memo || '');
+    const [payee, setPayee] = useState(transaction.payee ?? '');
+
+    const isIncome = transaction.type === 'income';
+    const baseCategories = isIncome ? incomeCategories : expenseCategories;
+    // 목록에서 빠진 항목으로 기록된 거래도 그대로 수정할 수 있도록 현재 항목을 포함
+    const categoryOptions = baseCategories.includes(transaction.category) ? baseCategories : [...baseCategories, transaction.category];
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        if (amount === '' || amount <= 0 || !category || (isIncome && memberId === '')) {
+            alert('모든 필수 항목을 입력해주세요.');
+            return;
+        }
+        const updated: Transaction = {
+            ...transaction,
+            date,
+            category,
+            amount,
+            memberId: memberIdOfChoice(memberId),
+            memo: isIncome ? transaction.memo : memo,
+            payee: isIncome ? transaction.payee : payee || undefined,
+            fund: isIncome ? transaction.fund : fund,
+            paymentMethod,
+            // 날짜나 금액이 바뀌면 통장과 다시 맞춰 봐야 한다.
+            bankReconciledOn: date === transaction.date && amount === transaction.amount ? transaction.bankReconciledOn : undefined,
+        };
+        onSave(updated);
+    };
+
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>{isIncome ? '입금' : '출금'} 내역 수정</h2>
+                <form onSubmit={handleSubmit}>
+                    <div className="form-group">
+                        <label htmlFor="edit-tx-date" className="label-with-day">
+                            <span>날짜</span>
+                            <span>{getDayOfWeek(date)}</span>
+                        </label>
+                        <input id="edit-tx-date" type="date" value={date} onChange={e => setDate(e.target.value)} required />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="edit-tx-category">{isIncome ? '입금 내역' : '출금 내역'}</label>
+                        <select id="edit-tx-category" value={category} onChange={e => setCategory(e.target.value)} required>
+                            {categoryOptions.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="edit-tx-member">{isIncome ? '헌금자' : '사용자'}</label>
+                        <select id="edit-tx-member" value={memberId} onChange={e => setMemberId(parseDonorChoice(e.target.value))} required={isIncome}>
+                            <option value="" disabled={isIncome}>{isIncome ? '-- 성도 선택 --' : '-- 선택 사항 --'}</option>
+                            {isIncome && <option value="anonymous">{ANONYMOUS_DONOR} (헌금자 밝히지 않음)</option>}
+                            {members.map(m => <option key={m.id} value={m.id}>{m.name} ({m.position}){isMemberActive(m) ? '' : ' · 비활동'}</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="edit-tx-amount">금액 (원)</label>
+                        <input id="edit-tx-amount" type="number" value={amount} onChange={e => setAmount(Number(e.target.value))} required min="1" />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="edit-tx-payment-method">결제수단</label>
+                        <select id="edit-tx-payment-method" value={paymentMethod} onChange={e => setPaymentMethod(e.target.value as PaymentMethod)}>
+                            {PAYMENT_METHODS.map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+                        </select>
+                    </div>
+                    {!isIncome && (
+                        <div className="form-group">
+                            <label htmlFor="edit-tx-fund">재정</label>
+                            <select id="edit-tx-fund" value={fund} onChange={e => setFund(e.target.value)}>
+                                {(funds.includes(fund) ? funds : [...funds, fund]).map(f => <option key={f} value={f}>{f}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    {!isIncome && (
+                        <div className="form-group">
+                            <label htmlFor="edit-tx-payee">지급처</label>
+                            <select id="edit-tx-payee" value={payee} onChange={e => setPayee(e.target.value)}>
+                                <PayeeOptions payees={payees} current={payee} />
+                            </select>
+                        </div>
+                    )}
+                    {!isIncome && (
+                        <div className="form-group">
+                            <label htmlFor="edit-tx-memo">비고</label>
+                            <input id="edit-tx-memo" type="text" value={memo} onChange={e => setMemo(e.target.value)} placeholder="메모 (선택사항)" />
+                        </div>
+                    )}
+                    <button type="submit" className="submit-btn full-width">저장</button>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const EditEnvelopeModal: React.FC<{
+    lines: Transaction[];
+    members: Member[];
+    incomeCategories: string[];
+    onSave: (date: string, memberId: number | undefined, paymentMethod: PaymentMethod, lines: EnvelopeLine[]) => void;
+    onClose: () => void;
+}> = ({ lines: originalLines, members, incomeCategories, onSave, onClose }) => {
+    const [date, setDate] = useState(originalLines[0].date);
+    const [memberId, setMemberId] = useState<DonorChoice>(originalLines[0].memberId ?? 'anonymous');
+    const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>(getPaymentMethod(originalLines[0]));
+    const [lines, setLines] = useState<{ id?: number; category: string; amount: number | '' }[]>(
+        originalLines.map(tx => ({ id: tx.id, category: tx.category, amount: tx.amount }))
+    );
+
+    // 목록에서 빠진 항목으로 기록된 줄도 그대로 수정할 수 있도록 현재 항목을 포함
+    const categoryOptions = Array.from(new Set([...incomeCategories, ...originalLines.map(tx => tx.category)]));
+    const total = lines.reduce((sum, line) => sum + (line.amount === '' ? 0 : line.amount), 0);
+
+    const updateLine = (index: number, changes: Partial<{ category: string; amount: number | '' }>) => {
+        setLines(lines.map((line, i) => i === index ? { ...line, ...changes } : line));
+    };
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        if (memberId === '' || lines.length === 0 || lines.some(line => line.amount === '' || line.amount <= 0 || !line.category)) {
+            alert('모든 필수 항목을 입력해주세요.');
+            return;
+        }
+        onSave(date, memberIdOfChoice(memberId), paymentMethod, lines.map(line => ({ id: line.id, category: line.category, amount: Number(line.amount) })));
+    };
+
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>봉투 헌금 수정</h2>
+                <form onSubmit={handleSubmit}>
+                    <div className="form-group">
+                        <label htmlFor="edit-envelope-date" className="label-with-day">
+                            <span>날짜</span>
+                            <span>{getDayOfWeek(date)}</span>
+                        </label>
+                        <input id="edit-envelope-date" type="date" value={date} onChange={e => setDate(e.target.value)} required />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="edit-envelope-member">헌금자</label>
+                        <select id="edit-envelope-member" value={memberId} onChange={e => setMemberId(parseDonorChoice(e.target.value))} required>
+                            <option value="" disabled>-- 성도 선택 --</option>
+                            <option value="anonymous">{ANONYMOUS_DONOR} (헌금자 밝히지 않음)</option>
+                            {members.map(m => <option key={m.id} value={m.id}>{m.name} ({m.position}){isMemberActive(m) ? '' : ' · 비활동'}</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="edit-envelope-payment-method">결제수단</label>
+                        <select id="edit-envelope-payment-method" value={paymentMethod} onChange={e => setPaymentMethod(e.target.value as PaymentMethod)}>
+                            {PAYMENT_METHODS.map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+                        </select>
+                    </div>
+                    {lines.map((line, index) => (
+                        <div className="form-group" key={line.id ?? `new-${index}`}>
+                            <label>항목 {index + 1}</label>
+                            <div className="category-input">
+                                <select value={line.category} onChange={e => updateLine(index, { category: e.target.value })}>
+                                    {categoryOptions.map(c => <option key={c} value={c}>{c}</option>)}
+                                </select>
+                                <input type="number" min="1" value={line.amount} onChange={e => updateLine(index, { amount: e.target.value === '' ? '' : Number(e.target.value) })} required />
+                                <button type="button" onClick={() => setLines(lines.filter((_, i) => i !== index))} className="add-category-btn" aria-label="줄 삭제">−</button>
+                            </div>
+                        </div>
+                    ))}
+                    <div className="envelope-actions">
+                        <button type="button" onClick={() => setLines([...lines, { category: categoryOptions[0] ?? '', amount: '' }])} className="data-btn">+ 항목 추가</button>
+                        <span>봉투 합계 {total.toLocaleString()}원</span>
+                    </div>
+                    <p className="form-hint">줄을 모두 지우려면 거래 목록에서 봉투를 삭제하세요.</p>
+                    <button type="submit" className="submit-btn full-width">저장</button>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const IncomeCategoriesModal: React.FC<{
+    incomeCategories: IncomeCategory[];
+    funds: string[];
+    onChange: (next: IncomeCategory[]) => void;
+    onRename: (oldName: string, newName: string) => void;
+    onClose: () => void;
+}> = ({ incomeCategories, funds, onChange, onRename, onClose }) => {
+    const [newName, setNewName] = useState('');
+    const [newGroup, setNewGroup] = useState(DEFAULT_REPORT_GROUPS[0]);
+    const [newFund, setNewFund] = useState(GENERAL_FUND);
+
+    const groups = Array.from(new Set([...DEFAULT_REPORT_GROUPS, ...incomeCategories.map(c => c.group)]));
+    const NEW_GROUP_OPTION = '__new__';
+
+    // '새 그룹' 선택 시 이름을 물어본다. 취소하면 null.
+    const resolveGroup = (value: string): string | null => {
+        if (value !== NEW_GROUP_OPTION) return value;
+        const name = prompt('새 보고서 그룹 이름을 입력하세요:')?.trim();
+        return name || null;
+    };
+
+    const update = (name: string, changes: Partial<IncomeCategory>) => {
+        onChange(incomeCategories.map(c => c.name === name ? { ...c, ...changes } : c));
+    };
+
+    const move = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= incomeCategories.length) return;
+        const next = [...incomeCategories];
+        [next[index], next[target]] = [next[target], next[index]];
+        onChange(next);
+    };
+
+    const handleRename = (category: IncomeCategory) => {
+        const name = prompt('새 항목 이름을 입력하세요:', category.name)?.trim();
+        if (!name || name === category.name) return;
+        if (incomeCategories.some(c => c.name === name)) {
+            alert('같은 이름의 항목이 이미 있습니다.');
+            return;
+        }
+        onRename(category.name, name);
+    };
+
+    const handleAdd = (e: FormEvent) => {
+        e.preventDefault();
+        const name = newName.trim();
+        if (!name) return;
+        if (incomeCategories.some(c => c.name === name)) {
+            alert('같은 이름의 항목이 이미 있습니다.');
+            return;
+        }
+        const group = resolveGroup(newGroup);
+        if (!group) return;
+        onChange([...incomeCategories, { name, group, fund: newFund, active: true }]);
+        setNewName('');
+    };
+
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content large scrollable">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>헌금 항목 설정</h2>
+                <p className="form-hint">목록 순서대로 입금 양식, 장부, 주간 집계에 표시됩니다. 사용 중지한 항목은 새 입금에서 숨겨지지만 기존 내역과 보고서에는 남습니다.</p>
+                <p className="form-hint">항목의 재정을 바꾸면 이후에 입력하는 입금부터 새 재정으로 들어갑니다. 이미 기록된 입금을 옮기려면 '재정 계정' 화면에서 재정 이체를 등록하세요. 재정 계정도 그 화면에서 추가합니다.</p>
+                <ul className="member-list">
+                    {incomeCategories.map((category, index) => (
+                        <li key={category.name} className={`member-item ${category.active ? '' : 'inactive'}`}>
+                            <div className="member-info">
+                                <span>{category.name}</span>
+                                <small>{category.active ? '사용 중' : '사용 중지'}</small>
+                            </div>
+                            <div className="member-actions">
+                                <select
+                                    value={category.group}
+                                    onChange={e => {
+                                        const group = resolveGroup(e.target.value);
+                                        if (group) update(category.name, { group });
+                                    }}
+                                >
+                                    {groups.map(g => <option key={g} value={g}>{g}</option>)}
+                                    <option value={NEW_GROUP_OPTION}>+ 새 그룹</option>
+                                </select>
+                                <select value={category.fund} onChange={e => update(category.name, { fund: e.target.value })} aria-label="재정">
+                                    {(funds.includes(category.fund) ? funds : [...funds, category.fund]).map(f => <option key={f} value={f}>{f} 재정</option>)}
+                                </select>
+                                <button onClick={() => move(index, -1)} className="cancel-btn" disabled={index === 0}>↑</button>
+                                <button onClick={() => move(index, 1)} className="cancel-btn" disabled={index === incomeCategories.length - 1}>↓</button>
+                                <button onClick={() => handleRename(category)} className="edit-btn">이름 변경</button>
+                                <button onClick={() => update(category.name, { active: !category.active })} className={category.active ? 'delete-btn' : 'save-btn'}>
+                                    {category.active ? '사용 중지' : '다시 사용'}
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+                <form onSubmit={handleAdd} className="transaction-form user-add-form">
+                    <div className="form-group">
+                        <label htmlFor="new-income-category">새 항목 이름</label>
+                        <input id="new-income-category" type="text" value={newName} onChange={e => setNewName(e.target.value)} placeholder="예: 부활절헌금" required />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="new-income-group">보고서 그룹</label>
+                        <select id="new-income-group" value={newGroup} onChange={e => setNewGroup(e.target.value)}>
+                            {groups.map(g => <option key={g} value={g}>{g}</option>)}
+                            <option value={NEW_GROUP_OPTION}>+ 새 그룹</option>
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="new-income-fund">재정</label>
+                        <select id="new-income-fund" value={newFund} onChange={e => setNewFund(e.target.value)}>
+                            {funds.map(f => <option key={f} value={f}>{f}</option>)}
+                        </select>
+                    </div>
+                    <button type="submit" className="submit-btn">항목 추가</button>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+const FundsModal: React.FC<{
+    balances: Map<string, number>;
+    transfers: FundTransfer[];
+    onAddFund: (fund: string) => void;
+    onAddTransfer: (transfer: Omit<FundTransfer, 'id'>, onDone: () => void) => void;
+    onClose: () => void;
+}> = ({ balances, transfers, onAddFund, onAddTransfer, onClose }) => {
+    const fundNames = Array.from(balances.keys());
+    const [date, setDate] = useState(todayString);
+    const [fromFund, setFromFund] = useState(GENERAL_FUND);
+    const [toFund, setToFund] = useState(fundNames.find(f => f !== GENERAL_FUND) ?? '');
+    const [amount, setAmount] = useState<number | ''>('');
+    const [memo, setMemo] = useState('');
+
+    const handleAddFund = () => {
+        const name = prompt('추가할 재정 계정 이름을 입력하세요: (예: 장학)')?.trim();
+        if (name) onAddFund(name);
+    };
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        if (amount === '' || amount <= 0 || !fromFund || !toFund) {
+            alert('재정과 금액을 정확히 입력해주세요.');
+            return;
+        }
+        if (fromFund === toFund) {
+            alert('보내는 재정과 받는 재정이 같습니다.');
+            return;
+        }
+        onAddTransfer({ date, fromFund, toFund, amount, memo: memo.trim() || undefined }, () => {
+            setAmount('');
+            setMemo('');
+        });
+    };
+
+    const sortedTransfers = [...transfers].sort((a, b) => b.date.localeCompare(a.date) || b.id - a.id);
+
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content large scrollable">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>재정 계정</h2>
+                <table className="report-table">
+                    <thead>
+                        <tr><th>재정</th><th className="amount">오늘 기준 잔액</th></tr>
+                    </thead>
+                    <tbody>
+                        {Array.from(balances.entries()).map(([fund, balance]) => (
+                            <tr key={fund}>
+                                <td>{fund}</td>
+                                <td className={`amount ${balance < 0 ? 'expense-color' : ''}`}>{balance.toLocaleString()}원</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <button onClick={handleAddFund} className="data-btn">재정 계정 추가</button>
+
+                <h3>재정 간 이체</h3>
+                <p className="form-hint">이체는 전체 잔액을 바꾸지 않습니다. 잘못 입력한 이체는 반대 방향으로 이체해 바로잡습니다.</p>
+                <form onSubmit={handleSubmit} className="transaction-form">
+                    <div className="form-group">
+                        <label htmlFor="transfer-date" className="label-with-day">
+                            <span>이체 날짜</span>
+                            <span>{getDayOfWeek(date)}</span>
+                        </label>
+                        <input id="transfer-date" type="date" value={date} onChange={e => setDate(e.target.value)} required />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="transfer-from">보내는 재정</label>
+                        <select id="transfer-from" value={fromFund} onChange={e => setFromFund(e.target.value)}>
+                            {fundNames.map(f => <option key={f} value={f}>{f}</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="transfer-to">받는 재정</label>
+                        <select id="transfer-to" value={toFund} onChange={e => setToFund(e.target.value)}>
+                            <option value="" disabled>-- 재정 선택 --</option>
+                            {fundNames.map(f => <option key={f} value={f}>{f}</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="transfer-amount">금액 (원)</label>
+                        <input id="transfer-amount" type="number" placeholder="숫자만 입력" value={amount} onChange={e => setAmount(Number(e.target.value))} required min="1" />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="transfer-memo">비고</label>
+                        <input id="transfer-memo" type="text" value={memo} onChange={e => setMemo(e.target.value)} placeholder="예: 제직회 결의로 건축 재정에 전입" />
+                    </div>
+                    <button type="submit" className="submit-btn">이체 등록</button>
+                </form>
+
+                <h3>이체 내역</h3>
+                {sortedTransfers.length === 0 ? (
+                    <p className="empty-list">이체 내역이 없습니다.</p>
+                ) : (
+                    <table className="report-table">
+                        <thead>
+                            <tr><th>날짜</th><th>보내는 재정</th><th>받는 재정</th><th className="amount">금액</th><th>비고</th></tr>
+                        </thead>
+                        <tbody>
+                            {sortedTransfers.map(t => (
+                                <tr key={t.id} title={t.enteredBy ? `입력: ${t.enteredBy}` : undefined}>
+                                    <td>{t.date}</td>
+                                    <td>{t.fromFund}</td>
+                                    <td>{t.toFund}</td>
+                                    <td className="amount">{t.amount.toLocaleString()}원</td>
+                                    <td>{t.memo ?? ''}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const AuditLogModal: React.FC<{
+    auditLog: AuditLogEntry[];
+    getMemberName: (id?: number) => string;
+    onClose: () => void;
+}> = ({ auditLog, getMemberName, onClose }) => {
+    const entries = useMemo(() => [...auditLog].reverse(), [auditLog]);
+
+    const describe = (tx: Transaction) =>
+        `${tx.date} ${tx.type === 'income' ? '입금' : '출금'} ${tx.category} ${tx.amount.toLocaleString()}원` +
+        (tx.memberId !== undefined ? ` · ${getMemberName(tx.memberId)}` : '') +
+        (tx.payee ? ` · ${tx.payee}` : '') +
+        (tx.memo ? ` · ${tx.memo}` : '');
+
+    const changedFields = (before: Transaction, after: Transaction) => {
+        const labels: [keyof Transaction, string][] = [['date', '날짜'], ['category', '항목'], ['amount', '금액'], ['memberId', '성도'], ['payee', '지급처'], ['memo', '비고'], ['paymentMethod', '결제수단'], ['fund', '재정'], ['bankReconciledOn', '통장 대사일']];
+        // 결제수단이 없는 예전 기록은 실제로 적용되던 결제수단과 비교한다.
+        const valueOf = (tx: Transaction, key: keyof Transaction) => key === 'paymentMethod' ? getPaymentMethod(tx) : tx[key];
+        const format = (key: keyof Transaction, value: Transaction[keyof Transaction]) => {
+            if (value === undefined || value === '') return '없음';
+            if (key === 'memberId') return getMemberName(value as number);
+            if (key === 'amount') return `${(value as number).toLocaleString()}원`;
+            if (key === 'paymentMethod') return PAYMENT_METHOD_LABELS[value as PaymentMethod];
+            return String(value);
+        };
+        return labels
+            .filter(([key]) => (valueOf(before, key) ?? '') !== (valueOf(after, key) ?? ''))
+            .map(([key, label]) => `${label}: ${format(key, valueOf(before, key))} → ${format(key, valueOf(after, key))}`);
+    };
+
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content large">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>변경 이력</h2>
+                {entries.length === 0 ? (
+                    <p className="empty-list">변경 이력이 없습니다.</p>
+                ) : (
+                    <ul className="audit-log-list">
+                        {entries.map(entry => (
+                            <li key={entry.id} className={`audit-log-item ${entry.action}`}>
+                                <div className="audit-log-meta">
+                                    <span className="audit-log-action">{entry.action === 'update' ? '수정' : '삭제'}</span>
+                                    <span>{formatDateTime(entry.timestamp)}{entry.actor ? ` · ${entry.actor}` : ''}</span>
+                                </div>
+                                <div>이전: {describe(entry.before)}</div>
+                                {entry.after && (
+                                    <>
+                                        <div>이후: {describe(entry.after)}</div>
+                                        <ul className="audit-log-changes">
+                                            {changedFields(entry.before, entry.after).map(change => <li key={change}>{change}</li>)}
+                                        </ul>
+                                    </>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// --- CSV 가져오기 ---
+type CsvImportTarget = 'transactions' | 'members';
+
+interface CsvField {
+    key: string;
+    label: string;
+    required: boolean;
+    aliases: string[];
+}
+
+const CSV_TRANSACTION_FIELDS: CsvField[] = [
+    { key: 'date', label: '날짜', required: true, aliases: ['날짜', '일자', '거래일', 'date'] },
+    { key: 'type', label: '구분 (입금/출금)', required: false, aliases: ['구분', '입출금', '유형', 'type'] },
+    { key: 'category', label: '항목', required: true, aliases: ['항목', '내역', '입금내역', '출금내역', '계정', 'category'] },
+    { key: 'memberName', label: '성도 이름', required: false, aliases: ['성도', '이름', '성명', '헌금자', '사용자', 'name'] },
+    { key: 'memberPosition', label: '직분', required: false, aliases: ['직분', 'position'] },
+    { key: 'amount', label: '금액', required: true, aliases: ['금액', 'amount'] },
+    { key: 'memo', label: '비고', required: false, aliases: ['비고', '메모', 'memo'] },
+    { key: 'paymentMethod', label: '결제수단', required: false, aliases: ['결제수단', '결제방법', '수단', 'method'] },
+];
+
+const CSV_MEMBER_FIELDS: CsvField[] = [
+    { key: 'name', label: '이름', required: true, aliases: ['이름', '성명', '성도', 'name'] },
+    { key: 'position', label: '직분', required: false, aliases: ['직분', 'position'] },
+];
+
+// 헤더 이름으로 각 필드에 해당하는 열을 추정한다. 찾지 못하면 -1.
+const guessCsvMapping = (fields: CsvField[], headers: string[]): Record<string, number> => {
+    const normalizedHeaders = headers.map(h => h.trim().toLowerCase().replace(/\s/g, ''));
+    return Object.fromEntries(fields.map(field => [field.key, normalizedHeaders.findIndex(h => field.aliases.includes(h))]));
+};
+
+interface CsvRowResult {
+    rowNumber: number;
+    cells: string[];
+    summary: string;
+    errors: string[];
+    warnings: string[];
+}
+
+// 미리보기는 열 연결을 바꿀 때마다 다시 계산되므로 id는 가져올 때 붙인다.
+// 그 전까지 새 성도는 음수 임시 id로 거래와 연결해 둔다.
+interface CsvImportPlan {
+    rows: CsvRowResult[];
+    members: Member[];
+    transactions: Omit<Transaction, 'id'>[];
+    expenseCategories: string[];
+}
+
+const parseTransactionType = (value: string): Transaction['type'] | null => {
+    const normalized = value.trim().toLowerCase();
+    if (['입금', '수입', 'income'].includes(normalized)) return 'income';
+    if (['출금', '지출', 'expense'].includes(normalized)) return 'expense';
+    return null;
+};
+
+// 각 행을 검증하고, 문제가 없는 행만 실제로 추가될 레코드로 변환한다.
+const buildCsvImportPlan = (
+    target: CsvImportTarget,
+    dataRows: string[][],
+    mapping: Record<string, number>,
+    defaultType: Transaction['type'],
+    members: Member[],
+    incomeCategoryNames: string[],
+    expenseCategories: string[],
+): CsvImportPlan => {
+    const cell = (cells: string[], key: string) => (mapping[key] >= 0 ? (cells[mapping[key]] ?? '').trim() : '');
+    const plan: CsvImportPlan = { rows: [], members: [], transactions: [], expenseCategories: [] };
+    const placeholderId = () => -(plan.members.length + 1);
+
+    if (target === 'members') {
+        const known = new Set(members.map(m => `${m.name}|${m.position}`));
+        dataRows.forEach((cells, i) => {
+            const name = cell(cells, 'name');
+            const position = cell(cells, 'position') || '성도';
+            const errors: string[] = [];
+            if (!name) errors.push('이름이 비어 있습니다.');
+            if (!POSITIONS.includes(position)) errors.push(`알 수 없는 직분: ${position}`);
+            if (name && known.has(`${name}|${position}`)) errors.push('이미 등록된 성도입니다.');
+            if (errors.length === 0) {
+                known.add(`${name}|${position}`);
+                plan.members.push({ id: placeholderId(), name, position });
+            }
+            plan.rows.push({ rowNumber: i + 2, cells, summary: `${name} (${position})`, errors, warnings: [] });
+        });
+        return plan;
+    }
+
+    // 같은 파일 안에서 새로 만드는 성도는 한 번만 추가되도록 기억해 둔다.
+    const createdMembers = new Map<string, Member>();
+    const findMember = (name: string, position: string): { member?: Member; error?: string } => {
+        const candidates = [...members, ...createdMembers.values()].filter(m => m.name === name && (!position || m.position === position));
+        if (candidates.length > 1) return { error: `동명이인이 있습니다: ${name} (직분 열로 구분해 주세요)` };
+        return { member: candidates[0] };
+    };
+
+    dataRows.forEach((cells, i) => {
+        const errors: string[] = [];
+        const warnings: string[] = [];
+
+        const rawDate = cell(cells, 'date');
+        const date = normalizeDateInput(rawDate);
+        if (!date) errors.push(`날짜 형식 오류: "${rawDate}"`);
+
+        const rawType = cell(cells, 'type');
+        const type = rawType ? parseTransactionType(rawType) : defaultType;
+        if (!type) errors.push(`구분은 입금 또는 출금이어야 합니다: "${rawType}"`);
+
+        const category = cell(cells, 'category');
+        if (!category) errors.push('항목이 비어 있습니다.');
+
+        const rawAmount = cell(cells, 'amount');
+        const amount = parseAmountInput(rawAmount);
+        if (amount === null || amount <= 0) errors.push(`금액 오류 (원 단위 양의 정수): "${rawAmount}"`);
+
+        const memberName = cell(cells, 'memberName');
+        const memberPosition = cell(cells, 'memberPosition');
+        let memberId: number | undefined;
+        // 무명 헌금은 이름 칸에 '무명'이라고 적는다. 성도로 등록하지 않는다.
+        const anonymous = type === 'income' && memberName === ANONYMOUS_DONOR;
+        if (type === 'income' && !memberName) errors.push(`입금 내역에는 성도 이름이 필요합니다. 무명 헌금은 '${ANONYMOUS_DONOR}'으로 적어 주세요.`);
+        if (memberName && !anonymous) {
+            const { member, error } = findMember(memberName, memberPosition);
+            if (error) {
+                errors.push(error);
+            } else if (member) {
+                memberId = member.id;
+            } else if (memberPosition && !POSITIONS.includes(memberPosition)) {
+                errors.push(`알 수 없는 직분: ${memberPosition}`);
+            } else if (errors.length === 0) {
+                const newMember = { id: placeholderId(), name: memberName, position: memberPosition || '성도' };
+                createdMembers.set(`${newMember.name}|${newMember.position}`, newMember);
+                plan.members.push(newMember);
+                memberId = newMember.id;
+                warnings.push(`새 성도로 등록됩니다: ${newMember.name} (${newMember.position})`);
+            }
+        }
+
+        const rawMethod = cell(cells, 'paymentMethod');
+        const paymentMethod = rawMethod ? parsePaymentMethod(rawMethod) : null;
+        if (rawMethod && !paymentMethod) errors.push(`알 수 없는 결제수단: "${rawMethod}"`);
+
+        if (type === 'income' && category && !incomeCategoryNames.includes(category)) {
+            warnings.push(`입금 항목 목록에 없는 항목입니다: ${category}`);
+        }
+        if (type === 'expense' && category && !expenseCategories.includes(category) && !plan.expenseCategories.includes(category)) {
+            if (errors.length === 0) plan.expenseCategories.push(category);
+            warnings.push(`새 출금 항목으로 추가됩니다: ${category}`);
+        }
+
+        if (errors.length === 0 && date && type && amount !== null) {
+            const memo = cell(cells, 'memo');
+            plan.transactions.push({ type, date, category, amount, memberId, ...(memo ? { memo } : {}), ...(paymentMethod ? { paymentMethod } : {}) });
+        }
+        plan.rows.push({
+            rowNumber: i + 2,
+            cells,
+            summary: [date ?? rawDate, type === 'income' ? '입금' : type === 'expense' ? '출금' : rawType, category, memberName, rawAmount].filter(Boolean).join(' | '),
+            errors,
+            warnings,
+        });
+    });
+    return plan;
+};
+
+const CsvImportModal: React.FC<{
+    members: Member[];
+    incomeCategoryNames: string[];
+    expenseCategories: string[];
+    onImport: (newMembers: Member[], newTransactions: Transaction[], newExpenseCategories: string[]) => void;
+    onClose: () => void;
+}> = ({ members, incomeCategoryNames, expenseCategories, onImport, onClose }) => {
+    const [target, setTarget] = useState<CsvImportTarget>('transactions');
+    const [fileName, setFileName] = useState('');
+    const [headers, setHeaders] = useState<string[]>([]);
+    const [dataRows, setDataRows] = useState<string[][]>([]);
+    const [mapping, setMapping] = useState<Record<string, number>>({});
+    const [defaultType, setDefaultType] = useState<Transaction['type']>('income');
+    const [showPreview, setShowPreview] = useState(false);
+
+    const fields = target === 'transactions' ? CSV_TRANSACTION_FIELDS : CSV_MEMBER_FIELDS;
+
+    const handleTargetChange = (next: CsvImportTarget) => {
+        setTarget(next);
+        setMapping(guessCsvMapping(next === 'transactions' ? CSV_TRANSACTION_FIELDS : CSV_MEMBER_FIELDS, headers));
+        setShowPreview(false);
+    };
+
+    const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            const text = e.target?.result;
+            if (typeof text !== 'string') {
+                alert('파일을 읽을 수 없습니다.');
+                return;
+            }
+            const rows = parseCsv(text);
+            if (rows.length < 2) {
+                alert('머리글 행과 데이터 행이 있는 CSV 파일이 필요합니다.');
+                return;
+            }
+            setFileName(file.name);
+            setHeaders(rows[0]);
+            setDataRows(rows.slice(1));
+            setMapping(guessCsvMapping(fields, rows[0]));
+            setShowPreview(false);
+        };
+        reader.readAsText(file, 'utf-8');
+        event.target.value = '';
+    };
+
+    const missingRequired = fields.filter(f => f.required && (mapping[f.key] ?? -1) < 0);
+
+    const plan = useMemo(
+        () => (showPreview ? buildCsvImportPlan(target, dataRows, mapping, defaultType, members, incomeCategoryNames, expenseCategories) : null),
+        [showPreview, target, dataRows, mapping, defaultType, members, incomeCategoryNames, expenseCategories]
+    );
+    const errorRows = plan ? plan.rows.filter(r => r.errors.length > 0) : [];
+    const PREVIEW_LIMIT = 100;
+
+    const handleCommit = () => {
+        if (!plan) return;
+        const importedCount = target === 'transactions' ? plan.transactions.length : plan.members.length;
+        if (importedCount === 0) {
+            alert('가져올 수 있는 행이 없습니다.');
+            return;
+        }
+        const message = errorRows.length > 0
+            ? `오류가 있는 ${errorRows.length}개 행은 제외하고 ${importedCount}건을 가져옵니다. 계속하시겠습니까?`
+            : `${importedCount}건을 가져옵니다. 계속하시겠습니까?`;
+        if (!window.confirm(message)) return;
+        const memberIds = new Map(plan.members.map(m => [m.id, generateId()]));
+        onImport(
+            plan.members.map(m => ({ ...m, id: memberIds.get(m.id)! })),
+            plan.transactions.map(tx => ({
+                ...tx,
+                id: generateId(),
+                ...(tx.memberId !== undefined && memberIds.has(tx.memberId) ? { memberId: memberIds.get(tx.memberId) } : {}),
+            })),
+            plan.expenseCategories,
+        );
+    };
+
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content large scrollable">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>CSV 가져오기</h2>
+                <div className="search-controls">
+                    <div className="tabs">
+                        <button className={`tab-button ${target === 'transactions' ? 'active' : ''}`} onClick={() => handleTargetChange('transactions')}>거래 내역</button>
+                        <button className={`tab-button ${target === 'members' ? 'active' : ''}`} onClick={() => handleTargetChange('members')}>성도 명단</button>
+                    </div>
+                    <div className="form-group date-range">
+                        <label htmlFor="csv-import-file" className="data-btn">CSV 파일 선택</label>
+                        <input id="csv-import-file" type="file" accept=".csv,text/csv" onChange={handleFileChange} style={{ display: 'none' }} />
+                        <span>{fileName ? `${fileName} (${dataRows.length}행)` : '선택된 파일 없음'}</span>
+                    </div>
+                    {headers.length > 0 && (
+                        <div className="csv-mapping">
+                            {fields.map(field => (
+                                <div className="form-group" key={field.key}>
+                                    <label>{field.label}{field.required ? ' *' : ''}</label>
+                                    <select
+                                        value={mapping[field.key] ?? -1}
+                                        onChange={e => { setMapping({ ...mapping, [field.key]: Number(e.target.value) }); setShowPreview(false); }}
+                                    >
+                                        <option value={-1}>-- 사용 안 함 --</option>
+                                        {headers.map((h, i) => <option key={i} value={i}>{h || `${i + 1}번째 열`}</option>)}
+                                    </select>
+                                </div>
+                            ))}
+                            {target === 'transactions' && (mapping.type ?? -1) < 0 && (
+                                <div className="form-group">
+                                    <label>구분 열이 없을 때</label>
+                                    <select value={defaultType} onChange={e => { setDefaultType(e.target.value as Transaction['type']); setShowPreview(false); }}>
+                                        <option value="income">모두 입금</option>
+                                        <option value="expense">모두 출금</option>
+                                    </select>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    {headers.length > 0 && (
+                        <div className="receipt-batch-actions">
+                            <span>{missingRequired.length > 0 ? `필수 항목을 연결해 주세요: ${missingRequired.map(f => f.label).join(', ')}` : '열 연결을 확인한 뒤 미리보기를 눌러 주세요.'}</span>
+                            <button type="button" className="data-btn" disabled={missingRequired.length > 0} onClick={() => setShowPreview(true)}>미리보기</button>
+                        </div>
+                    )}
+                </div>
+
+                {plan && (
+                    <div className="csv-preview">
+                        <p>
+                            전체 {plan.rows.length}행 · 정상 {plan.rows.length - errorRows.length}행 · <span className="expense-color">오류 {errorRows.length}행</span>
+                            {target === 'transactions' && plan.members.length > 0 && ` · 새 성도 ${plan.members.length}명`}
+                        </p>
+                        {errorRows.length > 0 && (
+                            <ul className="csv-error-list">
+                                {errorRows.map(row => (
+                                    <li key={row.rowNumber}><strong>{row.rowNumber}행</strong> {row.summary} — {row.errors.join(' / ')}</li>
+                                ))}
+                            </ul>
+                        )}
+                        <table className="report-table">
+                            <thead><tr><th>행</th><th>내용</th><th>상태</th></tr></thead>
+                            <tbody>
+                                {plan.rows.slice(0, PREVIEW_LIMIT).map(row => (
+                                    <tr key={row.rowNumber} className={row.errors.length > 0 ? 'csv-row-error' : ''}>
+                                        <td>{row.rowNumber}</td>
+                                        <td>{row.summary}</td>
+                                        <td>{row.errors.length > 0 ? row.errors.join(' / ') : (row.warnings.join(' / ') || '정상')}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {plan.rows.length > PREVIEW_LIMIT && <p className="empty-list">처음 {PREVIEW_LIMIT}행만 표시합니다.</p>}
+                        <button type="button" className="submit-btn full-width" onClick={handleCommit}>가져오기 실행</button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// --- 통장 대사 ---
+// 은행 거래내역 CSV의 한 줄. 입금은 양수, 출금은 음수 금액이다.
+interface BankStatementRow {
+    rowNumber: number;
+    date: string;
+    description: string;
+    amount: number;
+}
+
+// 통장에 나타나야 하는 장부 항목: 현금·수표가 아닌 거래와 은행 입금 기록
+interface LedgerBankItem {
+    kind: 'transaction' | 'deposit';
+    id: number;
+    date: string;
+    amount: number;
+    label: string;
+    name: string;
+    reconciledOn?: string;
+}
+
+interface BankMatch {
+    row: BankStatementRow;
+    ledger: LedgerBankItem;
+}
+
+const BANK_STATEMENT_FIELDS: CsvField[] = [
+    { key: 'date', label: '거래일', required: true, aliases: ['거래일', '거래일자', '거래일시', '거래날짜', '일자', '날짜', '일시'] },
+    { key: 'description', label: '적요/내용', required: false, aliases: ['적요', '내용', '기재내용', '거래내용', '입금자', '입금자명', '보낸분', '받는분', '의뢰인', '거래기록사항'] },
+    { key: 'deposit', label: '입금액', required: false, aliases: ['입금액', '입금', '맡기신금액', '입금금액'] },
+    { key: 'withdrawal', label: '출금액', required: false, aliases: ['출금액', '출금', '찾으신금액', '지급액', '출금금액'] },
+    { key: 'amount', label: '금액 (부호 포함)', required: false, aliases: ['금액', '거래금액'] },
+];
+
+// 날짜와 금액이 같고 이름이 적요에 들어 있으면 가장 확실한 짝으로 본다.
+const BANK_MATCH_DAY_RANGE = 3;
+
+const dayDifference = (a: string, b: string) =>
+    Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / 86400000;
+
+// 은행 파일 앞부분의 계좌 정보 줄을 건너뛰기 위해 머리글 행을 찾는다.
+const findBankHeaderRow = (rows: string[][]): number => {
+    const index = rows.slice(0, 20).findIndex(row => {
+        const mapping = guessCsvMapping(BANK_STATEMENT_FIELDS, row);
+        return mapping.date >= 0 && (mapping.deposit >= 0 || mapping.withdrawal >= 0 || mapping.amount >= 0);
+    });
+    return Math.max(0, index);
+};
+
+const parseBankStatement = (dataRows: string[][], mapping: Record<string, number>, headerIndex: number): { rows: BankStatementRow[]; errors: string[] } => {
+    const cell = (cells: string[], key: string) => (mapping[key] >= 0 ? (cells[mapping[key]] ?? '').trim() : '');
+    const rows: BankStatementRow[] = [];
+    const errors: string[] = [];
+    dataRows.forEach((cells, i) => {
+        const rowNumber = headerIndex + i + 2;
+        if (cells.every(c => !c.trim())) return;
+        // '2024.01.05 10:23:11'처럼 시각이 붙은 값은 날짜 부분만 쓴다.
+        const rawDate = cell(cells, 'date');
+        const date = normalizeDateInput(rawDate.split(/\s+/)[0] ?? '');
+        const rawAmounts = [cell(cells, 'deposit'), cell(cells, 'withdrawal'), cell(cells, 'amount')];
+        const [deposit, withdrawal, signed] = rawAmounts.map(raw => parseAmountInput(raw || '0'));
+        const amount = (deposit ?? 0) - (withdrawal ?? 0) || (signed ?? 0);
+        if (!date) {
+            errors.push(`${rowNumber}행: 날짜 형식 오류 "${rawDate}"`);
+        } else if (deposit === null || withdrawal === null || signed === null) {
+            errors.push(`${rowNumber}행: 금액 형식 오류 (원 단위 정수) "${rawAmounts.filter(Boolean).join(' / ')}"`);
+        } else if (amount === 0) {
+            errors.push(`${rowNumber}행: 금액이 없습니다.`);
+        } else {
+            rows.push({ rowNumber, date, description: cell(cells, 'description'), amount });
+        }
+    });
+    return { rows, errors };
+};
+
+const buildLedgerBankItems = (transactions: Transaction[], deposits: CashDeposit[], getMemberName: (id?: number) => string): LedgerBankItem[] => [
+    ...transactions
+        .filter(tx => !ON_HAND_METHODS.includes(getPaymentMethod(tx)))
+        .map(tx => ({
+            kind: 'transaction' as const,
+            id: tx.id,
+            date: tx.date,
+            amount: tx.type === 'income' ? tx.amount : -tx.amount,
+            label: `${tx.type === 'income' ? '입금' : '출금'} ${tx.category}${tx.memberId !== undefined ? ` · ${getMemberName(tx.memberId)}` : ''}${tx.memo ? ` · ${tx.memo}` : ''}`,
+            name: tx.memberId !== undefined ? getMemberName(tx.memberId) : '',
+            reconciledOn: tx.bankReconciledOn,
+        })),
+    ...deposits.map(d => ({
+        kind: 'deposit' as const,
+        id: d.id,
+        date: d.date,
+        amount: d.amount,
+        label: '현금·수표 은행 입금',
+        name: '',
+        reconciledOn: d.bankReconciledOn,
+    })),
+];
+
+// 통장 줄마다 금액이 같고 날짜가 가까운 장부 항목을 하나씩 짝짓는다.
+// 이미 대사된 항목은 같은 통장 날짜와만 짝지어, 같은 파일을 다시 읽어도 결과가 같다.
+const matchBankStatement = (rows: BankStatementRow[], ledger: LedgerBankItem[]) => {
+    const used = new Set<string>();
+    const matches: BankMatch[] = [];
+    const unmatchedRows: BankStatementRow[] = [];
+    [...rows].sort((a, b) => a.date.localeCompare(b.date)).forEach(row => {
+        let best: { item: LedgerBankItem; score: number } | null = null;
+        ledger.forEach(item => {
+            const key = `${item.kind}-${item.id}`;
+            if (used.has(key) || item.amount !== row.amount) return;
+            if (item.reconciledOn ? item.reconciledOn !== row.date : dayDifference(item.date, row.date) > BANK_MATCH_DAY_RANGE) return;
+            const score = (item.name && row.description.includes(item.name) ? 10 : 0) - dayDifference(item.date, row.date) + (item.reconciledOn ? 20 : 0);
+            if (!best || score > best.score) best = { item, score };
+        });
+        if (best) {
+            used.add(`${best.item.kind}-${best.item.id}`);
+            matches.push({ row, ledger: best.item });
+        } else {
+            unmatchedRows.push(row);
+        }
+    });
+    const dates = rows.map(r => r.date).sort();
+    const unmatchedLedger = dates.length === 0 ? [] : ledger.filter(item =>
+        !used.has(`${item.kind}-${item.id}`) && item.date >= dates[0] && item.date <= dates[dates.length - 1]);
+    return { matches, unmatchedRows, unmatchedLedger, firstDate: dates[0] ?? '', lastDate: dates[dates.length - 1] ?? '' };
+};
+
+// 적요에 이름이 들어 있는 성도를 찾는다. 여럿이면 가장 긴 이름을 고른다.
+const guessMemberFromDescription = (description: string, members: Member[]): number | '' => {
+    const found = members.filter(m => m.name && description.includes(m.name)).sort((a, b) => b.name.length - a.name.length);
+    return found[0]?.id ?? '';
+};
+
+const BankIncomeRow: React.FC<{
+    row: BankStatementRow;
+    members: Member[];
+    categories: string[];
+    onCreate: (row: BankStatementRow, memberId: number, category: string) => void;
+}> = ({ row, members, categories, onCreate }) => {
+    const [memberId, setMemberId] = useState<number | ''>(() => guessMemberFromDescription(row.description, members));
+    const [category, setCategory] = useState(categories[0] || '');
+    return (
+        <tr>
+            <td>{row.date}</td>
+            <td>{row.description}</td>
+            <td className="amount income-color">{row.amount.toLocaleString()}원</td>
+            <td>
+                <div className="category-input">
+                    <select value={memberId} onChange={e => setMemberId(e.target.value === '' ? '' : Number(e.target.value))} aria-label="헌금자">
+                        <option value="">-- 성도 선택 --</option>
+                        {members.map(m => <option key={m.id} value={m.id}>{m.name} ({m.position})</option>)}
+                    </select>
+                    <select value={category} onChange={e => setCategory(e.target.value)} aria-label="입금 항목">
+                        {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                    <button type="button" className="save-btn" disabled={memberId === '' || !category} onClick={() => onCreate(row, Number(memberId), category)}>입금 등록</button>
+                </div>
+            </td>
+        </tr>
+    );
+};
+
+const BankReconcileModal: React.FC<{
+    transactions: Transaction[];
+    cashDeposits: CashDeposit[];
+    members: Member[];
+    incomeCategoryNames: string[];
+    reconciledThrough: string;
+    getMemberName: (id?: number) => string;
+    onApply: (matches: BankMatch[]) => void;
+    onCreateIncome: (row: BankStatementRow, memberId: number, category: string) => void;
+    onMarkReconciledThrough: (month: string) => void;
+    onClose: () => void;
+}> = ({ transactions, cashDeposits, members, incomeCategoryNames, reconciledThrough, getMemberName, onApply, onCreateIncome, onMarkReconciledThrough, onClose }) => {
+    const [fileName, setFileName] = useState('');
+    const [encoding, setEncoding] = useState('euc-kr');
+    const [allRows, setAllRows] = useState<string[][]>([]);
+    const [headerIndex, setHeaderIndex] = useState(0);
+    const [mapping, setMapping] = useState<Record<string, number>>({});
+    const [showResult, setShowResult] = useState(false);
+
+    const headers = allRows[headerIndex] ?? [];
+    const dataRows = allRows.slice(headerIndex + 1);
+
+    const loadRows = (rows: string[][], name: string) => {
+        const index = findBankHeaderRow(rows);
+        setFileName(name);
+        setAllRows(rows);
+        setHeaderIndex(index);
+        setMapping(guessCsvMapping(BANK_STATEMENT_FIELDS, rows[index] ?? []));
+        setShowResult(false);
+    };
+
+    // 국내 은행 파일은 대부분 EUC-KR이라 기본값으로 두고, 필요하면 UTF-8로 다시 읽는다.
+    const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            const text = e.target?.result;
+            if (typeof text !== 'string') {
+                alert('파일을 읽을 수 없습니다.');
+                return;
+            }
+            const rows = parseCsv(text);
+            if (rows.length < 2) {
+                alert('머리글 행과 데이터 행이 있는 CSV 파일이 필요합니다.');
+                return;
+            }
+            loadRows(rows, file.name);
+        };
+        reader.readAsText(file, encoding);
+        event.target.value = '';
+    };
+
+    const amountMapped = (mapping.deposit ?? -1) >= 0 || (mapping.withdrawal ?? -1) >= 0 || (mapping.amount ?? -1) >= 0;
+    const canPreview = (mapping.date ?? -1) >= 0 && amountMapped;
+
+    const statement = useMemo(() => (showResult ? parseBankStatement(dataRows, mapping, headerIndex) : null), [showResult, allRows, headerIndex, mapping]);
+    const ledger = useMemo(() => buildLedgerBankItems(transactions, cashDeposits, getMemberName), [transactions, cashDeposits, members]);
+    const result = useMemo(() => (statement ? matchBankStatement(statement.rows, ledger) : null), [statement, ledger]);
+
+    const newMatches = result ? result.matches.filter(m => m.ledger.reconciledOn !== m.row.date) : [];
+    const unmatchedDeposits = result ? result.unmatchedRows.filter(r => r.amount > 0) : [];
+    const unmatchedWithdrawals = result ? result.unmatchedRows.filter(r => r.amount < 0) : [];
+    const statementMonth = result?.lastDate.slice(0, 7) ?? '';
+    const fullyReconciled = result !== null && result.unmatchedRows.length === 0 && result.unmatchedLedger.length === 0 && newMatches.length === 0;
+
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content large scrollable">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>통장 대사</h2>
+                <p className="form-hint">대사 완료: {reconciledThrough ? `${reconciledThrough.replace('-', '년 ')}월까지` : '기록 없음'}</p>
+                <div className="search-controls">
+                    <div className="form-group date-range">
+                        <label>파일 인코딩:</label>
+                        <select value={encoding} onChange={e => setEncoding(e.target.value)}>
+                            <option value="euc-kr">EUC-KR (은행 기본)</option>
+                            <option value="utf-8">UTF-8</option>
+                        </select>
+                        <label htmlFor="bank-statement-file" className="data-btn">거래내역 CSV 선택</label>
+                        <input id="bank-statement-file" type="file" accept=".csv,text/csv" onChange={handleFileChange} style={{ display: 'none' }} />
+                        <span>{fileName ? `${fileName} (${dataRows.length}행)` : '선택된 파일 없음'}</span>
+                    </div>
+                    {allRows.length > 0 && (
+                        <div className="csv-mapping">
+                            <div className="form-group">
+                                <label>머리글 행</label>
+                                <select value={headerIndex} onChange={e => { const index = Number(e.target.value); setHeaderIndex(index); setMapping(guessCsvMapping(BANK_STATEMENT_FIELDS, allRows[index])); setShowResult(false); }}>
+                                    {allRows.slice(0, 20).map((row, i) => <option key={i} value={i}>{i + 1}행: {row.slice(0, 3).join(' / ')}</option>)}
+                                </select>
+                            </div>
+                            {BANK_STATEMENT_FIELDS.map(field => (
+                                <div className="form-group" key={field.key}>
+                                    <label>{field.label}{field.required ? ' *' : ''}</label>
+                                    <select
+                                        value={mapping[field.key] ?? -1}
+                                        onChange={e => { setMapping({ ...mapping, [field.key]: Number(e.target.value) }); setShowResult(false); }}
+                                    >
+                                        <option value={-1}>-- 사용 안 함 --</option>
+                                        {headers.map((h, i) => <option key={i} value={i}>{h || `${i + 1}번째 열`}</option>)}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    {allRows.length > 0 && (
+                        <div className="receipt-batch-actions">
+                            <span>{canPreview ? '열 연결을 확인한 뒤 대사를 눌러 주세요.' : '거래일과 금액(입금액/출금액 또는 금액) 열을 연결해 주세요.'}</span>
+                            <button type="button" className="data-btn" disabled={!canPreview} onClick={() => setShowResult(true)}>대사</button>
+                        </div>
+                    )}
+                </div>
+
+                {statement && result && (
+                    <div className="csv-preview">
+                        <p>
+                            {result.firstDate} ~ {result.lastDate} · 통장 {statement.rows.length}건 · 일치 {result.matches.length}건 (새로 대사 {newMatches.length}건) ·{' '}
+                            <span className="expense-color">통장에만 있음 {result.unmatchedRows.length}건 · 장부에만 있음 {result.unmatchedLedger.length}건</span>
+                        </p>
+                        {statement.errors.length > 0 && (
+                            <ul className="csv-error-list">
+                                {statement.errors.map((error, i) => <li key={i}>{error}</li>)}
+                            </ul>
+                        )}
+
+                        <h3>일치 {result.matches.length}건</h3>
+                        {result.matches.length > 0 && (
+                            <table className="report-table">
+                                <thead><tr><th>통장 날짜</th><th>적요</th><th className="amount">금액</th><th>장부</th><th>상태</th></tr></thead>
+                                <tbody>
+                                    {result.matches.map(m => (
+                                        <tr key={`${m.ledger.kind}-${m.ledger.id}`}>
+                                            <td>{m.row.date}</td>
+                                            <td>{m.row.description}</td>
+                                            <td className="amount">{m.row.amount.toLocaleString()}원</td>
+                                            <td>{m.ledger.date} {m.ledger.label}</td>
+                                            <td>{m.ledger.reconciledOn === m.row.date ? '대사됨' : '새로 일치'}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                        {newMatches.length > 0 && (
+                            <div className="form-actions">
+                                <button type="button" className="save-btn" onClick={() => onApply(newMatches)}>일치 {newMatches.length}건 대사 완료로 표시</button>
+                            </div>
+                        )}
+
+                        <h3>통장에만 있는 입금 {unmatchedDeposits.length}건</h3>
+                        {unmatchedDeposits.length > 0 && (
+                            <table className="report-table">
+                                <thead><tr><th>날짜</th><th>적요</th><th className="amount">금액</th><th>입금으로 등록</th></tr></thead>
+                                <tbody>
+                                    {unmatchedDeposits.map(row => (
+                                        <BankIncomeRow key={row.rowNumber} row={row} members={members} categories={incomeCategoryNames} onCreate={onCreateIncome} />
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+
+                        <h3>통장에만 있는 출금 {unmatchedWithdrawals.length}건</h3>
+                        {unmatchedWithdrawals.length > 0 && (
+                            <table className="report-table">
+                                <thead><tr><th>날짜</th><th>적요</th><th className="amount">금액</th></tr></thead>
+                                <tbody>
+                                    {unmatchedWithdrawals.map(row => (
+                                        <tr key={row.rowNumber} className="csv-row-error">
+                                            <td>{row.date}</td>
+                                            <td>{row.description}</td>
+                                            <td className="amount">{row.amount.toLocaleString()}원</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+
+                        <h3>장부에만 있는 항목 {result.unmatchedLedger.length}건</h3>
+                        {result.unmatchedLedger.length > 0 && (
+                            <table className="report-table">
+                                <thead><tr><th>날짜</th><th>내용</th><th className="amount">금액</th></tr></thead>
+                                <tbody>
+                                    {result.unmatchedLedger.map(item => (
+                                        <tr key={`${item.kind}-${item.id}`} className="csv-row-error">
+                                            <td>{item.date}</td>
+                                            <td>{item.label}</td>
+                                            <td className="amount">{item.amount.toLocaleString()}원</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+
+                        <div className="receipt-batch-actions">
+                            <span>{fullyReconciled ? `${statementMonth}까지 통장과 장부가 일치합니다.` : '남은 항목을 모두 정리하면 대사 완료 월을 표시할 수 있습니다.'}</span>
+                            <button
+                                type="button"
+                                className="data-btn"
+                                disabled={!fullyReconciled || statementMonth <= reconciledThrough}
+                                onClick={() => onMarkReconciledThrough(statementMonth)}
+                            >
+                                {statementMonth}까지 대사 완료
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// --- 주일 계수 ---
+const CASH_DENOMINATIONS: { value: number; label: string }[] = [
+    { value: 50000, label: '5만원' },
+    { value: 10000, label: '1만원' },
+    { value: 5000, label: '5천원' },
+    { value: 1000, label: '1천원' },
+];
+
+const EMPTY_CASH_COUNT: CashCount = { denominations: {}, coins: 0, checks: 0, transfers: 0 };
+
+const cashCountTotal = (cash: CashCount): number =>
+    CASH_DENOMINATIONS.reduce((sum, d) => sum + d.value * (cash.denominations[d.value] ?? 0), 0) + cash.coins + cash.checks + cash.transfers;
+
+// 결제수단별 봉투 합계와 계수 금액. 카드는 계좌이체처럼 통장으로 들어오므로 같은 칸에서 맞춰 본다.
+const countingMethodTotals = (envelopes: { amount: number; paymentMethod?: PaymentMethod }[], cash: CashCount) => {
+    const envelopeSum = (methods: PaymentMethod[]) =>
+        envelopes.filter(e => methods.includes(e.paymentMethod ?? 'cash')).reduce((sum, e) => sum + e.amount, 0);
+    return [
+        { label: '현금', envelopes: envelopeSum(['cash']), counted: cashCountTotal({ ...cash, checks: 0, transfers: 0 }) },
+        { label: '수표', envelopes: envelopeSum(['check']), counted: cash.checks },
+        { label: '계좌이체·카드', envelopes: envelopeSum(['transfer', 'card']), counted: cash.transfers },
+    ];
+};
+
+interface CountingRow {
+    key: number;
+    memberId: DonorChoice;
+    category: string;
+    amount: number | '';
+    paymentMethod?: PaymentMethod;
+}
+
+// 계수 도중 새로고침해도 입력이 사라지지 않도록 저장해 두는 작업 상태
+interface CountingDraft {
+    date: string;
+    counters: string[];
+    rows: CountingRow[];
+    cash: CashCount;
+}
+
+const emptyCountingRow = (category: string): CountingRow => ({ key: Math.random(), memberId: '', category, amount: '' });
+
+const CountingReportDocument: React.FC<{
+    session: CountingSession;
+    churchName: string;
+    getMemberName: (id?: number) => string;
+}> = ({ session, churchName, getMemberName }) => {
+    const categoryTotals = new Map<string, number>();
+    session.envelopes.forEach(e => categoryTotals.set(e.category, (categoryTotals.get(e.category) ?? 0) + e.amount));
+    const cashOnly = cashCountTotal({ ...session.cash, checks: 0, transfers: 0 });
+
+    return (
+        <div className="report-document">
+            <h1 className="report-title">계수 보고서</h1>
+            <p className="report-subtitle">{churchName} · {formatKoreanDate(session.date)} {getDayOfWeek(session.date)} · 봉투 {session.envelopes.length}건</p>
+            <table className="report-table">
+                <thead><tr><th>번호</th><th>헌금자</th><th>항목</th><th>결제수단</th><th>금액</th></tr></thead>
+                <tbody>
+                    {session.envelopes.map((e, i) => (
+                        <tr key={i}>
+                            <td>{i + 1}</td>
+                            <td>{getMemberName(e.memberId)}</td>
+                            <td>{e.category}</td>
+                            <td>{PAYMENT_METHOD_LABELS[e.paymentMethod ?? 'cash']}</td>
+                            <td className="amount">{e.amount.toLocaleString()}원</td>
+                        </tr>
+                    ))}
+                    <tr className="report-total"><td colSpan={4}>봉투 합계</td><td className="amount">{session.total.toLocaleString()}원</td></tr>
+                </tbody>
+            </table>
+            <table className="report-table">
+                <thead><tr><th>항목</th><th>금액</th></tr></thead>
+                <tbody>
+                    {Array.from(categoryTotals.entries()).map(([category, amount]) => (
+                        <tr key={category}><td>{category}</td><td className="amount">{amount.toLocaleString()}원</td></tr>
+                    ))}
+                </tbody>
+            </table>
+            <table className="report-table">
+                <thead><tr><th>권종</th><th>매수</th><th>금액</th></tr></thead>
+                <tbody>
+                    {CASH_DENOMINATIONS.map(d => {
+                        const count = session.cash.denominations[d.value] ?? 0;
+                        return (
+                            <tr key={d.value}><td>{d.label}</td><td className="amount">{count}</td><td className="amount">{(count * d.value).toLocaleString()}원</td></tr>
+                        );
+                    })}
+                    <tr><td>동전</td><td></td><td className="amount">{session.cash.coins.toLocaleString()}원</td></tr>
+                    <tr className="report-total"><td colSpan={2}>현금 소계</td><td className="amount">{cashOnly.toLocaleString()}원</td></tr>
+                    <tr><td>수표</td><td></td><td className="amount">{session.cash.checks.toLocaleString()}원</td></tr>
+                    <tr><td>계좌이체</td><td></td><td className="amount">{session.cash.transfers.toLocaleString()}원</td></tr>
+                    <tr className="report-total"><td colSpan={2}>계수 합계</td><td className="amount">{cashCountTotal(session.cash).toLocaleString()}원</td></tr>
+                </tbody>
+            </table>
+            {session.counters.map(name => (
+                <p key={name} className="receipt-signature">계수위원 {name} (서명 또는 인)</p>
+            ))}
+            <p className="receipt-signature">마감 {formatDateTime(session.finalizedAt)} · 입력 {session.finalizedBy}</p>
+        </div>
+    );
+};
+
+const CountingSessionModal: React.FC<{
+    members: Member[];
+    categories: string[];
+    userNames: string[];
+    sessions: CountingSession[];
+    churchName: string;
+    getMemberName: (id?: number) => string;
+    onFinalize: (draft: Omit<CountingSession, 'id' | 'transactionIds' | 'finalizedAt' | 'finalizedBy'>, onDone: (session: CountingSession) => void) => void;
+    onClose: () => void;
+}> = ({ members, categories, userNames, sessions, churchName, getMemberName, onFinalize, onClose }) => {
+    const newDraft = (): CountingDraft => ({
+        date: todayString(),
+        counters: ['', ''],
+        rows: [emptyCountingRow(categories[0] || '')],
+        cash: EMPTY_CASH_COUNT,
+    });
+    const [draft, setDraft] = usePersistentState<CountingDraft>('church_counting_draft_v2', newDraft());
+    const [printJob, setPrintJob] = usePrintJob<CountingSession>();
+
+    const filledRows = draft.rows.filter(r => r.memberId !== '' || r.amount !== '');
+    const envelopeTotal = filledRows.reduce((sum, r) => sum + (r.amount === '' ? 0 : r.amount), 0);
+    const cashTotal = cashCountTotal(draft.cash);
+    const difference = cashTotal - envelopeTotal;
+    const methodMismatches = countingMethodTotals(filledRows.map(r => ({ amount: r.amount === '' ? 0 : r.amount, paymentMethod: r.paymentMethod })), draft.cash)
+        .filter(t => t.envelopes !== t.counted);
+
+    // 마지막 줄을 채우면 새 줄을 자동으로 붙여 연달아 입력할 수 있게 한다.
+    const updateRow = (key: number, changes: Partial<CountingRow>) => {
+        const rows = draft.rows.map(r => r.key === key ? { ...r, ...changes } : r);
+        const last = rows[rows.length - 1];
+        if (last.memberId !== '' && last.amount !== '') rows.push(emptyCountingRow(last.category));
+        setDraft({ ...draft, rows });
+    };
+
+    const removeRow = (key: number) => {
+        const rows = draft.rows.filter(r => r.key !== key);
+        setDraft({ ...draft, rows: rows.length > 0 ? rows : [emptyCountingRow(categories[0] || '')] });
+    };
+
+    const updateCash = (changes: Partial<CashCount>) => setDraft({ ...draft, cash: { ...draft.cash, ...changes } });
+    const toNumber = (value: string) => Math.max(0, Number(value) || 0);
+
+    const handleFinalize = () => {
+        if (filledRows.length === 0) {
+            alert('계수할 봉투를 입력해주세요.');
+            return;
+        }
+        if (filledRows.some(r => r.memberId === '' || r.amount === '' || r.amount <= 0 || !r.category)) {
+            alert('헌금자, 항목, 금액이 모두 입력되지 않은 줄이 있습니다.');
+            return;
+        }
+        const counters = draft.counters.map(c => c.trim());
+        if (counters.some(c => !c) || counters[0] === counters[1]) {
+            alert('서로 다른 계수위원 두 명의 이름을 입력해주세요.');
+            return;
+        }
+        if (difference !== 0) {
+            alert(`봉투 합계와 계수 합계가 ${Math.abs(difference).toLocaleString()}원 차이 납니다. 다시 확인해주세요.`);
+            return;
+        }
+        if (methodMismatches.length > 0) {
+            alert(`결제수단별 금액이 맞지 않습니다.\n${methodMismatches.map(t => `${t.label}: 봉투 ${t.envelopes.toLocaleString()}원 · 계수 ${t.counted.toLocaleString()}원`).join('\n')}`);
+            return;
+        }
+        if (!window.confirm(`${draft.date} 봉투 ${filledRows.length}건, ${envelopeTotal.toLocaleString()}원을 마감하고 입금으로 등록하시겠습니까?`)) return;
+        onFinalize(
+            {
+                date: draft.date,
+                counters,
+                envelopes: filledRows.map(r => ({ memberId: memberIdOfChoice(r.memberId), category: r.category, amount: Number(r.amount), paymentMethod: r.paymentMethod ?? 'cash' })),
+                cash: draft.cash,
+                total: envelopeTotal,
+            },
+            session => {
+                setDraft(newDraft());
+                setPrintJob(session);
+            }
+        );
+    };
+
+    const handleDiscard = () => {
+        if (window.confirm('입력 중인 계수 내용을 모두 지우시겠습니까?')) setDraft(newDraft());
+    };
+
+    const recentSessions = [...sessions].sort((a, b) => b.date.localeCompare(a.date) || b.id - a.id).slice(0, 10);
+
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content large scrollable">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>주일 계수</h2>
+                <div className="transaction-form">
+                    <div className="form-group">
+                        <label htmlFor="counting-date" className="label-with-day">
+                            <span>헌금 날짜</span>
+                            <span>{getDayOfWeek(draft.date)}</span>
+                        </label>
+                        <input id="counting-date" type="date" value={draft.date} onChange={e => setDraft({ ...draft, date: e.target.value })} required />
+                    </div>
+                    {draft.counters.map((name, i) => (
+                        <div className="form-group" key={i}>
+                            <label htmlFor={`counter-${i}`}>계수위원 {i + 1}</label>
+                            <input
+                                id={`counter-${i}`}
+                                type="text"
+                                list="counting-user-names"
+                                value={name}
+                                onChange={e => setDraft({ ...draft, counters: draft.counters.map((c, j) => j === i ? e.target.value : c) })}
+                            />
+                        </div>
+                    ))}
+                    <datalist id="counting-user-names">
+                        {userNames.map(n => <option key={n} value={n} />)}
+                    </datalist>
+                </div>
+
+                <h3>봉투 입력</h3>
+                <table className="report-table counting-grid">
+                    <thead><tr><th>번호</th><th>헌금자</th><th>항목</th><th>결제수단</th><th>금액</th><th></th></tr></thead>
+                    <tbody>
+                        {draft.rows.map((row, i) => (
+                            <tr key={row.key}>
+                                <td>{i + 1}</td>
+                                <td>
+                                    <select value={row.memberId} onChange={e => updateRow(row.key, { memberId: parseDonorChoice(e.target.value) })}>
+                                        <option value="">-- 성도 선택 --</option>
+                                        <option value="anonymous">{ANONYMOUS_DONOR}</option>
+                                        {members.filter(m => !isAnonymousPlaceholder(m)).map(m => <option key={m.id} value={m.id}>{m.name} ({m.position})</option>)}
+                                    </select>
+                                </td>
+                                <td>
+                                    <select value={row.category} onChange={e => updateRow(row.key, { category: e.target.value })}>
+                                        {(categories.includes(row.category) ? categories : [...categories, row.category]).map(c => <option key={c} value={c}>{c}</option>)}
+                                    </select>
+                                </td>
+                                <td>
+                                    <select value={row.paymentMethod ?? 'cash'} onChange={e => updateRow(row.key, { paymentMethod: e.target.value as PaymentMethod })}>
+                                        {PAYMENT_METHODS.map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+                                    </select>
+                                </td>
+                                <td>
+                                    <input type="number" min="1" placeholder="금액" value={row.amount} onChange={e => updateRow(row.key, { amount: e.target.value === '' ? '' : Number(e.target.value) })} />
+                                </td>
+                                <td><button type="button" className="delete-btn" onClick={() => removeRow(row.key)}>삭제</button></td>
+                            </tr>
+                        ))}
+                        <tr className="report-total"><td colSpan={4}>봉투 합계 ({filledRows.length}건)</td><td className="amount">{envelopeTotal.toLocaleString()}원</td><td></td></tr>
+                    </tbody>
+                </table>
+
+                <h3>권종별 계수</h3>
+                <div className="transaction-form counting-cash">
+                    {CASH_DENOMINATIONS.map(d => (
+                        <div className="form-group" key={d.value}>
+                            <label htmlFor={`cash-${d.value}`}>{d.label} (매)</label>
+                            <input
+                                id={`cash-${d.value}`}
+                                type="number"
+                                min="0"
+                                value={draft.cash.denominations[d.value] ?? ''}
+                                onChange={e => updateCash({ denominations: { ...draft.cash.denominations, [d.value]: toNumber(e.target.value) } })}
+                            />
+                        </div>
+                    ))}
+                    <div className="form-group">
+                        <label htmlFor="cash-coins">동전 (원)</label>
+                        <input id="cash-coins" type="number" min="0" value={draft.cash.coins || ''} onChange={e => updateCash({ coins: toNumber(e.target.value) })} />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="cash-checks">수표 (원)</label>
+                        <input id="cash-checks" type="number" min="0" value={draft.cash.checks || ''} onChange={e => updateCash({ checks: toNumber(e.target.value) })} />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="cash-transfers">계좌이체·카드 (원)</label>
+                        <input id="cash-transfers" type="number" min="0" value={draft.cash.transfers || ''} onChange={e => updateCash({ transfers: toNumber(e.target.value) })} />
+                    </div>
+                </div>
+
+                <p className={`counting-status ${difference === 0 && methodMismatches.length === 0 ? 'income-color' : 'expense-color'}`}>
+                    봉투 합계 {envelopeTotal.toLocaleString()}원 · 계수 합계 {cashTotal.toLocaleString()}원
+                    {difference !== 0
+                        ? ` · 차이 ${difference.toLocaleString()}원`
+                        : methodMismatches.length > 0
+                            ? ` · 결제수단별 불일치 (${methodMismatches.map(t => `${t.label} ${(t.counted - t.envelopes).toLocaleString()}원`).join(', ')})`
+                            : ' · 일치'}
+                </p>
+                <div className="form-actions">
+                    <button type="button" className="cancel-btn" onClick={handleDiscard}>입력 초기화</button>
+                    <button type="button" className="save-btn" onClick={handleFinalize} disabled={difference !== 0 || methodMismatches.length > 0 || filledRows.length === 0}>마감 및 보고서 출력</button>
+                </div>
+
+                <h3>지난 계수 회차</h3>
+                {recentSessions.length === 0 ? (
+                    <p className="empty-list">마감된 계수 회차가 없습니다.</p>
+                ) : (
+                    <table className="report-table">
+                        <thead><tr><th>날짜</th><th>계수위원</th><th>봉투</th><th>합계</th><th></th></tr></thead>
+                        <tbody>
+                            {recentSessions.map(session => (
+                                <tr key={session.id}>
+                                    <td>{session.date}</td>
+                                    <td>{session.counters.join(', ')}</td>
+                                    <td className="amount">{session.envelopes.length}건</td>
+                                    <td className="amount">{session.total.toLocaleString()}원</td>
+                                    <td><button type="button" className="data-btn" onClick={() => setPrintJob(session)}>인쇄</button></td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+            {printJob && (
+                <PrintPortal>
+                    <div className="print-page">
+                        <CountingReportDocument session={printJob} churchName={churchName} getMemberName={getMemberName} />
+                    </div>
+                </PrintPortal>
+            )}
+        </div>
+    );
+};
+
+// --- 주간 재정보고 ---
+interface WeeklyReport {
+    weekStart: string;
+    weekEnd: string;
+    carriedOverBalance: number;
+    incomeGroups: IncomeGroupTotals[];
+    incomeTotal: number;
+    // 수입 합계에 포함된 무명 헌금
+    anonymousTotal: number;
+    anonymousCount: number;
+    expenses: Transaction[];
+    expenseTotal: number;
+    endingBalance: number;
+}
+
+// 주일부터 토요일까지 한 주의 보고 내용을 계산한다.
+const buildWeeklyReport = (transactions: Transaction[], incomeCategories: IncomeCategory[], sunday: string): WeeklyReport => {
+    const weekStart = getWeekStart(sunday);
+    const weekEnd = addDays(weekStart, 6);
+
+    let carriedOverBalance = 0;
+    const incomeByCategory = new Map<string, number>();
+    const expenses: Transaction[] = [];
+    let anonymousTotal = 0;
+    let anonymousCount = 0;
+
+    transactions.forEach(tx => {
+        const signedAmount = tx.type === 'income' ? tx.amount : -tx.amount;
+        if (tx.date < weekStart) {
+            carriedOverBalance += signedAmount;
+        } else if (tx.date <= weekEnd) {
+            if (tx.type === 'income') {
+                incomeByCategory.set(tx.category, (incomeByCategory.get(tx.category) ?? 0) + tx.amount);
+                if (tx.memberId === undefined) {
+                    anonymousTotal += tx.amount;
+                    anonymousCount++;
+                }
+            } else {
+                expenses.push(tx);
+            }
+        }
+    });
+
+    expenses.sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+    const incomeTotal = Array.from(incomeByCategory.values()).reduce((sum, amount) => sum + amount, 0);
+    const expenseTotal = expenses.reduce((sum, tx) => sum + tx.amount, 0);
+
+    return {
+        weekStart,
+        weekEnd,
+        carriedOverBalance,
+        incomeGroups: groupIncomeTotals(incomeByCategory, incomeCategories),
+        incomeTotal,
+        anonymousTotal,
+        anonymousCount,
+        expenses,
+        expenseTotal,
+        endingBalance: carriedOverBalance + incomeTotal - expenseTotal,
+    };
+};
+
+const WeeklyReportDocument: React.FC<{ report: WeeklyReport; churchName: string }> = ({ report, churchName }) => {
+    return (
+        <div className="report-document">
+            <h1 className="report-title">주간 재정보고</h1>
+            <p className="report-subtitle">{churchName} · {formatKoreanDate(report.weekStart)} 주일 ({report.weekStart} ~ {report.weekEnd})</p>
+            <table className="report-table">
+                <thead><tr><th colSpan={2}>수입</th></tr></thead>
+                <tbody>
+                    {report.incomeGroups.map(({ group, lines, total }) => (
+                        <React.Fragment key={group}>
+                            <tr><th colSpan={2} className="report-group">{group} ({total.toLocaleString()}원)</th></tr>
+                            {lines.map(line => (
+                                <tr key={line.category}>
+                                    <td>{line.category}</td>
+                                    <td className="amount">{line.amount.toLocaleString()}원</td>
+                                </tr>
+                            ))}
+                        </React.Fragment>
+                    ))}
+                    <tr className="report-total"><td>수입 합계</td><td className="amount">{report.incomeTotal.toLocaleString()}원</td></tr>
+                    {report.anonymousCount > 0 && (
+                        <tr><td>그중 {ANONYMOUS_DONOR} 헌금 ({report.anonymousCount}건)</td><td className="amount">{report.anonymousTotal.toLocaleString()}원</td></tr>
+                    )}
+                </tbody>
+            </table>
+            <table className="report-table">
+                <thead><tr><th>날짜</th><th>지출 항목</th><th>내용</th><th>금액</th></tr></thead>
+                <tbody>
+                    {report.expenses.length === 0 ? (
+                        <tr><td colSpan={4}>지출 내역 없음</td></tr>
+                    ) : report.expenses.map(tx => (
+                        <tr key={tx.id}>
+                            <td>{tx.date.slice(5)} {getDayOfWeek(tx.date)}</td>
+                            <td>{tx.category}</td>
+                            <td>{tx.memo || ''}</td>
+                            <td className="amount">{tx.amount.toLocaleString()}원</td>
+                        </tr>
+                    ))}
+                    <tr className="report-total"><td colSpan={3}>지출 합계</td><td className="amount">{report.expenseTotal.toLocaleString()}원</td></tr>
+                </tbody>
+            </table>
+            <table className="report-table">
+                <tbody>
+                    <tr><th>전주 이월</th><td className="amount">{report.carriedOverBalance.toLocaleString()}원</td></tr>
+                    <tr><th>수입</th><td className="amount">{report.incomeTotal.toLocaleString()}원</td></tr>
+                    <tr><th>지출</th><td className="amount">{report.expenseTotal.toLocaleString()}원</td></tr>
+                    <tr className="report-total"><th>차주 이월 (잔액)</th><td className="amount">{report.endingBalance.toLocaleString()}원</td></tr>
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const WeeklyReportModal: React.FC<{
+    transactions: Transaction[];
+    incomeCategories: IncomeCategory[];
+    churchInfo: ChurchInfo;
+    onClose: () => void;
+}> = ({ transactions, incomeCategories, churchInfo, onClose }) => {
+    const [sunday, setSunday] = useState(() => getWeekStart(todayString()));
+    const [printJob, setPrintJob] = usePrintJob<WeeklyReport>();
+
+    const report = useMemo(() => buildWeeklyReport(transactions, incomeCategories, sunday), [transactions, incomeCategories, sunday]);
+
+    const handleDateChange = (value: string) => {
+        if (value) setSunday(getWeekStart(value));
+    };
+
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content large scrollable">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>주간 재정보고</h2>
+                <div className="search-controls">
+                    <div className="form-group date-range">
+                        <label>주일 선택:</label>
+                        <button type="button" className="data-btn" onClick={() => setSunday(addDays(sunday, -7))}>&lt; 전주</button>
+                        <input type="date" value={sunday} onChange={e => handleDateChange(e.target.value)} />
+                        <span>{getDayOfWeek(sunday)}</span>
+                        <button type="button" className="data-btn" onClick={() => setSunday(addDays(sunday, 7))}>다음주 &gt;</button>
+                    </div>
+                    <div className="receipt-batch-actions">
+                        <span>다른 요일을 선택하면 그 주의 주일로 맞춰집니다.</span>
+                        <button type="button" className="data-btn" onClick={() => setPrintJob(report)}>인쇄</button>
+                    </div>
+                </div>
+                <WeeklyReportDocument report={report} churchName={churchInfo.name} />
+            </div>
+            {printJob && (
+                <PrintPortal>
+                    <div className="print-page">
+                        <WeeklyReportDocument report={printJob} churchName={churchInfo.name} />
+                    </div>
+                </PrintPortal>
+            )}
+        </div>
+    );
+};
+
+// --- 예산 대비 실적 ---
+interface BudgetReportRow {
+    category: string;
+    budget: number;
+    monthActual: number;
+    yearToDate: number;
+    remaining: number;
+    // 예산이 없으면 null
+    percentUsed: number | null;
+}
+
+// 선택한 달의 실적과 회계연도 첫 달부터 그 달까지의 누계를 예산과 비교한다.
+// 예산이 없더라도 실적이 있는 항목은 함께 보여준다.
+const buildBudgetReport = (
+    transactions: Transaction[],
+    budgets: BudgetLine[],
+    type: BudgetLine['type'],
+    categories: string[],
+    year: number,
+    month: number,
+    fiscalStartMonth: number,
+): { rows: BudgetReportRow[]; total: BudgetReportRow } => {
+    const monthPrefix = fiscalMonths(year, fiscalStartMonth).find(m => Number(m.slice(5, 7)) === month)!;
+    const { start } = fiscalYearRange(year, fiscalStartMonth);
+    const monthActual = new Map<string, number>();
+    const yearToDate = new Map<string, number>();
+    transactions.forEach(tx => {
+        if (tx.type !== type || tx.date < start || tx.date.slice(0, 7) > monthPrefix) return;
+        yearToDate.set(tx.category, (yearToDate.get(tx.category) ?? 0) + tx.amount);
+        if (tx.date.startsWith(monthPrefix)) monthActual.set(tx.category, (monthActual.get(tx.category) ?? 0) + tx.amount);
+    });
+    const budgetFor = (category: string) =>
+        budgets.find(b => b.year === year && b.type === type && b.category === category)?.amount ?? 0;
+
+    const names = [...categories];
+    [...budgets.filter(b => b.year === year && b.type === type).map(b => b.category), ...yearToDate.keys()]
+        .forEach(c => { if (!names.includes(c)) names.push(c); });
+
+    const toRow = (category: string, budget: number, month: number, ytd: number): BudgetReportRow => ({
+        category,
+        budget,
+        monthActual: month,
+        yearToDate: ytd,
+        remaining: budget - ytd,
+        percentUsed: budget > 0 ? Math.round((ytd / budget) * 1000) / 10 : null,
+    });
+    const rows = names
+        .map(c => toRow(c, budgetFor(c), monthActual.get(c) ?? 0, yearToDate.get(c) ?? 0))
+        .filter(row => row.budget > 0 || row.yearToDate > 0);
+    const total = toRow(
+        '합계',
+        rows.reduce((sum, r) => sum + r.budget, 0),
+        rows.reduce((sum, r) => sum + r.monthActual, 0),
+        rows.reduce((sum, r) => sum + r.yearToDate, 0),
+    );
+    return { rows, total };
+};
+
+const BudgetModal: React.FC<{
+    transactions: Transaction[];
+    budgets: BudgetLine[];
+    incomeCategoryNames: string[];
+    expenseCategories: string[];
+    fiscalStartMonth: number;
+    onSave: (year: number, lines: BudgetLine[], onDone: () => void) => void;
+    onClose: () => void;
+}> = ({ transactions, budgets, incomeCategoryNames, expenseCategories, fiscalStartMonth, onSave, onClose }) => {
+    const currentYear = fiscalYearOf(todayString(), fiscalStartMonth);
+    const [year, setYear] = useState(currentYear);
+    const [month, setMonth] = useState(new Date().getMonth() + 1);
+    const [editing, setEditing] = useState(false);
+    const [draft, setDraft] = useState<Record<string, number | ''>>({});
+
+    const years = useMemo(() => {
+        const set = new Set<number>([currentYear, currentYear + 1, year, ...budgets.map(b => b.year)]);
+        return Array.from(set).sort((a, b) => b - a);
+    }, [budgets, year, currentYear]);
+
+    const expenseReport = useMemo(
+        () => buildBudgetReport(transactions, budgets, 'expense', expenseCategories, year, month, fiscalStartMonth),
+        [transactions, budgets, expenseCategories, year, month, fiscalStartMonth]
+    );
+    const incomeReport = useMemo(
+        () => buildBudgetReport(transactions, budgets, 'income', incomeCategoryNames, year, month, fiscalStartMonth),
+        [transactions, budgets, incomeCategoryNames, year, month, fiscalStartMonth]
+    );
+
+    const startEditing = () => {
+        setDraft(Object.fromEntries(budgets.filter(b => b.year === year).map(b => [budgetKey(b), b.amount])));
+        setEditing(true);
+    };
+
+    const handleSave = (e: FormEvent) => {
+        e.preventDefault();
+        const toLines = (type: BudgetLine['type'], categories: string[]) => categories.map(category => {
+            const value = draft[budgetKey({ year, type, category })];
+            return { year, type, category, amount: value === '' || value === undefined ? 0 : value };
+        });
+        onSave(year, [...toLines('income', incomeCategoryNames), ...toLines('expense', expenseCategories)], () => setEditing(false));
+    };
+
+    const renderInputs = (type: BudgetLine['type'], categories: string[]) => categories.map(category => {
+        const key = budgetKey({ year, type, category });
+        return (
+            <div className="form-group" key={key}>
+                <label htmlFor={`budget-${key}`}>{category}</label>
+                <input
+                    id={`budget-${key}`}
+                    type="number"
+                    min="0"
+                    placeholder="0"
+                    value={draft[key] ?? ''}
+                    onChange={e => setDraft({ ...draft, [key]: e.target.value === '' ? '' : Number(e.target.value) })}
+                />
+            </div>
+        );
+    });
+
+    const renderReport = (title: string, budgetLabel: string, report: { rows: BudgetReportRow[]; total: BudgetReportRow }, isExpense: boolean) => (
+        <>
+            <h3>{title}</h3>
+            {report.rows.length === 0 ? (
+                <p className="empty-list">{year}년 {budgetLabel}과 실적이 없습니다.</p>
+            ) : (
+                <table className="report-table budget-table">
+                    <thead>
+                        <tr>
+                            <th>항목</th>
+                            <th className="amount">{budgetLabel}</th>
+                            <th className="amount">{month}월 실적</th>
+                            <th className="amount">누계</th>
+                            <th className="amount">{isExpense ? '남은 예산' : '남은 목표'}</th>
+                            <th className="amount">{isExpense ? '집행률' : '달성률'}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {[...report.rows, report.total].map(row => {
+                            // 출금은 예산을 넘으면, 입금은 목표에 못 미치면 강조한다.
+                            const over = isExpense && row.budget > 0 && row.yearToDate > row.budget;
+                            return (
+                                <tr key={row.category} className={`${row === report.total ? 'report-total' : ''} ${over ? 'budget-over' : ''}`}>
+                                    <td>{row.category}</td>
+                                    <td className="amount">{row.budget > 0 ? `${row.budget.toLocaleString()}원` : '-'}</td>
+                                    <td className="amount">{row.monthActual.toLocaleString()}원</td>
+                                    <td className="amount">{row.yearToDate.toLocaleString()}원</td>
+                                    <td className="amount">{row.budget > 0 ? `${row.remaining.toLocaleString()}원` : '-'}</td>
+                                    <td className="amount">{row.percentUsed === null ? '-' : `${row.percentUsed}%`}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            )}
+        </>
+    );
+
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content large scrollable">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>예산 대비 실적</h2>
+                <div className="search-controls">
+                    <div className="form-group date-range">
+                        <label>연도:</label>
+                        <select value={year} onChange={e => { setYear(Number(e.target.value)); setEditing(false); }}>
+                            {years.map(y => <option key={y} value={y}>{formatFiscalYear(y, fiscalStartMonth)}</option>)}
+                        </select>
+                        <label>기준 월:</label>
+                        <select value={month} onChange={e => setMonth(Number(e.target.value))}>
+                            {fiscalMonths(year, fiscalStartMonth).map(m => Number(m.slice(5, 7))).map(m => <option key={m} value={m}>{m}월</option>)}
+                        </select>
+                        {!editing && <button type="button" className="edit-btn" onClick={startEditing}>{year}년 예산 입력</button>}
+                    </div>
+                </div>
+                {editing ? (
+                    <form onSubmit={handleSave}>
+                        <p className="form-hint">제직회에서 승인한 연간 금액을 입력합니다. 비워 두면 예산이 없는 항목이 됩니다.</p>
+                        <h3>출금 예산</h3>
+                        <div className="transaction-form budget-inputs">{renderInputs('expense', expenseCategories)}</div>
+                        <h3>입금 목표</h3>
+                        <div className="transaction-form budget-inputs">{renderInputs('income', incomeCategoryNames)}</div>
+                        <div className="form-actions">
+                            <button type="button" className="cancel-btn" onClick={() => setEditing(false)}>취소</button>
+                            <button type="submit" className="save-btn">저장</button>
+                        </div>
+                    </form>
+                ) : (
+                    <>
+                        {renderReport('출금 예산', '예산', expenseReport, true)}
+                        {renderReport('입금 목표', '목표', incomeReport, false)}
+                    </>
+                )}
+            </div>
         </div>
-        <div className="value-item">
-          <span className="value-label">금년 총액</span>
-          <span className="value-amount">{yearlyExpense.toLocaleString()}원</span>
+    );
+};
+
+// --- 결산서 ---
+interface StatementRow {
+    category: string;
+    // 회계연도 첫 달부터 열두 달의 금액
+    months: number[];
+    total: number;
+    previous: number;
+    budget: number;
+}
+
+interface StatementSection {
+    rows: StatementRow[];
+    total: StatementRow;
+}
+
+interface FinancialStatement {
+    year: number;
+    fiscalStartMonth: number;
+    start: string;
+    end: string;
+    months: string[];
+    income: StatementSection;
+    expense: StatementSection;
+    openingBalance: number;
+    // 전년도 연마감에서 이월한 잔액이면 true, 아니면 장부에서 계산한 잔액
+    openingFromClosing: boolean;
+    closingBalance: number;
+    previousOpeningBalance: number;
+    closingFundBalances: { fund: string; balance: number }[];
+}
+
+// 항목별로 회계연도의 월별 실적, 전년 실적, 예산을 모은다. 예산·실적이 모두 없는 항목은 뺀다.
+const buildStatementSection = (
+    transactions: Transaction[],
+    budgets: BudgetLine[],
+    type: BudgetLine['type'],
+    categories: string[],
+    year: number,
+    fiscalStartMonth: number,
+): StatementSection => {
+    const months = fiscalMonths(year, fiscalStartMonth);
+    const current = fiscalYearRange(year, fiscalStartMonth);
+    const previous = fiscalYearRange(year - 1, fiscalStartMonth);
+    const emptyRow = (category: string): StatementRow => ({ category, months: months.map(() => 0), total: 0, previous: 0, budget: 0 });
+    const byCategory = new Map<string, StatementRow>(categories.map(c => [c, emptyRow(c)]));
+    const rowOf = (category: string) => {
+        if (!byCategory.has(category)) byCategory.set(category, emptyRow(category));
+        return byCategory.get(category)!;
+    };
+    transactions.forEach(tx => {
+        if (tx.type !== type) return;
+        if (tx.date >= current.start && tx.date <= current.end) {
+            const row = rowOf(tx.category);
+            row.months[months.indexOf(tx.date.slice(0, 7))] += tx.amount;
+            row.total += tx.amount;
+        } else if (tx.date >= previous.start && tx.date <= previous.end) {
+            rowOf(tx.category).previous += tx.amount;
+        }
+    });
+    budgets.filter(b => b.year === year && b.type === type).forEach(b => { rowOf(b.category).budget = b.amount; });
+
+    const rows: StatementRow[] = Array.from(byCategory.values()).filter(r => r.total !== 0 || r.previous !== 0 || r.budget !== 0);
+    const total = rows.reduce((sum, r) => ({
+        ...sum,
+        months: sum.months.map((amount, i) => amount + r.months[i]),
+        total: sum.total + r.total,
+        previous: sum.previous + r.previous,
+        budget: sum.budget + r.budget,
+    }), emptyRow('합계'));
+    return { rows, total };
+};
+
+const buildFinancialStatement = (
+    transactions: Transaction[],
+    budgets: BudgetLine[],
+    closings: PeriodClosing[],
+    fundTransfers: FundTransfer[],
+    incomeCategories: IncomeCategory[],
+    expenseCategories: string[],
+    funds: string[],
+    year: number,
+    fiscalStartMonth: number,
+): FinancialStatement => {
+    const { start, end } = fiscalYearRange(year, fiscalStartMonth);
+    const income = buildStatementSection(transactions, budgets, 'income', incomeCategories.map(c => c.name), year, fiscalStartMonth);
+    const expense = buildStatementSection(transactions, budgets, 'expense', expenseCategories, year, fiscalStartMonth);
+    // 전년도를 연마감했으면 마감 때 남긴 잔액을 이월한다.
+    const previousClosing = closings.find(c => !c.reopenedAt && c.kind === 'year' && c.closedThrough === addDays(start, -1));
+    const openingBalance = previousClosing ? previousClosing.balance : balanceThrough(transactions, addDays(start, -1));
+    return {
+        year,
+        fiscalStartMonth,
+        start,
+        end,
+        months: fiscalMonths(year, fiscalStartMonth),
+        income,
+        expense,
+        openingBalance,
+        openingFromClosing: previousClosing !== undefined,
+        closingBalance: openingBalance + income.total.total - expense.total.total,
+        previousOpeningBalance: balanceThrough(transactions, addDays(fiscalYearRange(year - 1, fiscalStartMonth).start, -1)),
+        closingFundBalances: Array.from(computeFundBalances(transactions, fundTransfers, incomeCategories, funds, end).entries())
+            .map(([fund, balance]) => ({ fund, balance })),
+    };
+};
+
+const statementRatio = (actual: number, budget: number) => budget > 0 ? `${Math.round((actual / budget) * 1000) / 10}%` : '-';
+
+const FinancialStatementDocument: React.FC<{ statement: FinancialStatement; churchName: string; showMonths: boolean }> = ({ statement, churchName, showMonths }) => {
+    const { income, expense } = statement;
+    const previousClosing = statement.previousOpeningBalance + income.total.previous - expense.total.previous;
+    const inProgress = statement.end > todayString();
+
+    const renderSection = (title: string, section: StatementSection, isExpense: boolean) => (
+        <table className="report-table statement-table">
+            <thead>
+                <tr>
+                    <th>{title}</th>
+                    {showMonths && statement.months.map(m => <th key={m}>{Number(m.slice(5, 7))}월</th>)}
+                    <th>합계</th>
+                    <th>전년</th>
+                    <th>증감</th>
+                    <th>{isExpense ? '예산' : '목표'}</th>
+                    <th>{isExpense ? '집행률' : '달성률'}</th>
+                </tr>
+            </thead>
+            <tbody>
+                {section.rows.length === 0 && <tr><td colSpan={showMonths ? 18 : 6}>내역 없음</td></tr>}
+                {[...section.rows, section.total].map(row => (
+                    <tr key={row.category} className={`${row === section.total ? 'report-total' : ''} ${isExpense && row.budget > 0 && row.total > row.budget ? 'budget-over' : ''}`}>
+                        <td>{row.category}</td>
+                        {showMonths && row.months.map((amount, i) => <td key={i} className="amount">{amount ? amount.toLocaleString() : '-'}</td>)}
+                        <td className="amount">{row.total.toLocaleString()}</td>
+                        <td className="amount">{row.previous.toLocaleString()}</td>
+                        <td className="amount">{(row.total - row.previous).toLocaleString()}</td>
+                        <td className="amount">{row.budget > 0 ? row.budget.toLocaleString() : '-'}</td>
+                        <td className="amount">{statementRatio(row.total, row.budget)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+
+    return (
+        <div className="report-document">
+            <h1 className="report-title">{formatFiscalYear(statement.year, statement.fiscalStartMonth)} 결산서</h1>
+            <p className="report-subtitle">
+                {churchName} · {formatKoreanDate(statement.start)} ~ {formatKoreanDate(statement.end)} · 단위: 원
+                {inProgress && ` · ${formatKoreanDate(todayString())} 현재`}
+            </p>
+            <table className="report-table">
+                <thead><tr><th></th><th>당기</th><th>전기</th><th>증감</th></tr></thead>
+                <tbody>
+                    <tr>
+                        <th>전기 이월{statement.openingFromClosing && ' (연마감)'}</th>
+                        <td className="amount">{statement.openingBalance.toLocaleString()}</td>
+                        <td className="amount">{statement.previousOpeningBalance.toLocaleString()}</td>
+                        <td className="amount">{(statement.openingBalance - statement.previousOpeningBalance).toLocaleString()}</td>
+                    </tr>
+                    <tr>
+                        <th>수입</th>
+                        <td className="amount">{income.total.total.toLocaleString()}</td>
+                        <td className="amount">{income.total.previous.toLocaleString()}</td>
+                        <td className="amount">{(income.total.total - income.total.previous).toLocaleString()}</td>
+                    </tr>
+                    <tr>
+                        <th>지출</th>
+                        <td className="amount">{expense.total.total.toLocaleString()}</td>
+                        <td className="amount">{expense.total.previous.toLocaleString()}</td>
+                        <td className="amount">{(expense.total.total - expense.total.previous).toLocaleString()}</td>
+                    </tr>
+                    <tr className="report-total">
+                        <th>차기 이월</th>
+                        <td className="amount">{statement.closingBalance.toLocaleString()}</td>
+                        <td className="amount">{previousClosing.toLocaleString()}</td>
+                        <td className="amount">{(statement.closingBalance - previousClosing).toLocaleString()}</td>
+                    </tr>
+                </tbody>
+            </table>
+            {renderSection('수입', income, false)}
+            {renderSection('지출', expense, true)}
+            <table className="report-table">
+                <thead><tr><th>재정</th><th>기말 잔액</th></tr></thead>
+                <tbody>
+                    {statement.closingFundBalances.map(f => (
+                        <tr key={f.fund}><td>{f.fund}</td><td className="amount">{f.balance.toLocaleString()}</td></tr>
+                    ))}
+                </tbody>
+            </table>
         </div>
-      </div>
-    </div>
-    <div className="summary-row">
-      <span className="row-label">잔액</span>
-      <div className="row-values">
-        <div className="value-item">
-          <span className="value-label">금주 잔액</span>
-          <span className="value-amount">{weeklyBalance.toLocaleString()}원</span>
+    );
+};
+
+const FinancialStatementModal: React.FC<{
+    transactions: Transaction[];
+    budgets: BudgetLine[];
+    closings: PeriodClosing[];
+    fundTransfers: FundTransfer[];
+    incomeCategories: IncomeCategory[];
+    expenseCategories: string[];
+    funds: string[];
+    fiscalStartMonth: number;
+    churchName: string;
+    onChangeFiscalStartMonth: (month: number) => void;
+    onClose: () => void;
+}> = ({ transactions, budgets, closings, fundTransfers, incomeCategories, expenseCategories, funds, fiscalStartMonth, churchName, onChangeFiscalStartMonth, onClose }) => {
+    const [year, setYear] = useState(() => fiscalYearOf(todayString(), fiscalStartMonth));
+    const [showMonths, setShowMonths] = useState(true);
+    const [printJob, setPrintJob] = usePrintJob<FinancialStatement>();
+
+    const years = useMemo(() => {
+        const set = new Set<number>(transactions.map(tx => fiscalYearOf(tx.date, fiscalStartMonth)).filter(y => !isNaN(y)));
+        set.add(fiscalYearOf(todayString(), fiscalStartMonth));
+        set.add(year);
+        return Array.from(set).sort((a, b) => b - a);
+    }, [transactions, fiscalStartMonth, year]);
+
+    const statement = useMemo(
+        () => buildFinancialStatement(transactions, budgets, closings, fundTransfers, incomeCategories, expenseCategories, funds, year, fiscalStartMonth),
+        [transactions, budgets, closings, fundTransfers, incomeCategories, expenseCategories, funds, year, fiscalStartMonth]
+    );
+
+    const handleExportCsv = () => {
+        const monthHeaders = statement.months.map(m => `${Number(m.slice(5, 7))}월`);
+        const sectionRows = (label: string, section: StatementSection, ratioLabel: string) => [
+            [label, ...monthHeaders, '합계', '전년', '증감', label === '수입' ? '목표' : '예산', ratioLabel],
+            ...[...section.rows, section.total].map(r => [r.category, ...r.months, r.total, r.previous, r.total - r.previous, r.budget, statementRatio(r.total, r.budget)]),
+            [],
+        ];
+        const rows: (string | number)[][] = [
+            [`${formatFiscalYear(statement.year, statement.fiscalStartMonth)} 결산서`, `${statement.start} ~ ${statement.end}`],
+            [],
+            ['전기 이월', statement.openingBalance],
+            ['수입', statement.income.total.total],
+            ['지출', statement.expense.total.total],
+            ['차기 이월', statement.closingBalance],
+            [],
+            ...sectionRows('수입', statement.income, '달성률'),
+            ...sectionRows('지출', statement.expense, '집행률'),
+            ['재정', '기말 잔액'],
+            ...statement.closingFundBalances.map(f => [f.fund, f.balance]),
+        ];
+        downloadFile(toCsv(rows), `church_statement_${statement.year}.csv`, 'text/csv;charset=utf-8');
+    };
+
+    const handleFiscalStartChange = (month: number) => {
+        if (closings.some(c => !c.reopenedAt && c.kind === 'year') &&
+            !window.confirm('이미 연마감한 회계연도가 있습니다. 시작 월을 바꿔도 지난 마감 기록의 기간은 그대로 남습니다. 계속하시겠습니까?')) return;
+        onChangeFiscalStartMonth(month);
+    };
+
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content large scrollable">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>결산서</h2>
+                <div className="search-controls">
+                    <div className="form-group date-range">
+                        <label>회계연도:</label>
+                        <select value={year} onChange={e => setYear(Number(e.target.value))}>
+                            {years.map(y => <option key={y} value={y}>{formatFiscalYear(y, fiscalStartMonth)}</option>)}
+                        </select>
+                        <label>시작 월:</label>
+                        <select value={fiscalStartMonth} onChange={e => handleFiscalStartChange(Number(e.target.value))}>
+                            {Array.from({ length: 12 }, (_, i) => i + 1).map(m => <option key={m} value={m}>{m}월</option>)}
+                        </select>
+                        <label>
+                            <input type="checkbox" checked={showMonths} onChange={e => setShowMonths(e.target.checked)} /> 월별 보기
+                        </label>
+                    </div>
+                    <div className="receipt-batch-actions">
+                        <span>{statement.start} ~ {statement.end}</span>
+                        <button type="button" className="data-btn" onClick={handleExportCsv}>CSV 내보내기</button>
+                        <button type="button" className="data-btn" onClick={() => setPrintJob(statement)}>인쇄</button>
+                    </div>
+                </div>
+                <div className="statement-scroll">
+                    <FinancialStatementDocument statement={statement} churchName={churchName} showMonths={showMonths} />
+                </div>
+            </div>
+            {printJob && (
+                <PrintPortal>
+                    <div className="print-page landscape">
+                        <FinancialStatementDocument statement={printJob} churchName={churchName} showMonths={showMonths} />
+                    </div>
+                </PrintPortal>
+            )}
         </div>
-        <div className="value-item">
-          <span className="value-label">금년 잔액</span>
-          <span className="value-amount">{yearlyBalance.toLocaleString()}원</span>
+    );
+};
+
+// --- 작정헌금 ---
+interface PledgeStatus {
+    pledge: Pledge;
+    fulfilled: number;
+    remaining: number;
+    // 분납 일정상 오늘까지 냈어야 하는 금액
+    expected: number;
+    behind: number;
+}
+
+const monthIndex = (month: string) => Number(month.slice(0, 4)) * 12 + Number(month.slice(5, 7)) - 1;
+
+// 작정 기간 중 오늘까지 돌아온 분납 회차만큼을 기대 금액으로 본다.
+const expectedPledgeAmount = (pledge: Pledge, today: string): number => {
+    const months = monthIndex(pledge.endMonth) - monthIndex(pledge.startMonth) + 1;
+    const elapsed = Math.min(months, Math.max(0, monthIndex(today.slice(0, 7)) - monthIndex(pledge.startMonth) + 1));
+    if (pledge.schedule === 'lump') return elapsed === months ? pledge.amount : 0;
+    const step = pledge.schedule === 'quarterly' ? 3 : 1;
+    const installments = Math.ceil(months / step);
+    const due = Math.ceil(elapsed / step);
+    return Math.round((pledge.amount * due) / installments);
+};
+
+const buildPledgeStatuses = (pledges: Pledge[], transactions: Transaction[], today: string): PledgeStatus[] =>
+    pledges.map(pledge => {
+        const from = `${pledge.startMonth}-01`;
+        const to = `${pledge.endMonth}-31`;
+        const fulfilled = transactions
+            .filter(tx => tx.type === 'income' && tx.memberId === pledge.memberId && tx.category === pledge.category && tx.date >= from && tx.date <= to)
+            .reduce((sum, tx) => sum + tx.amount, 0);
+        const expected = expectedPledgeAmount(pledge, today);
+        return {
+            pledge,
+            fulfilled,
+            remaining: Math.max(0, pledge.amount - fulfilled),
+            expected,
+            behind: Math.max(0, expected - fulfilled),
+        };
+    });
+
+const PledgesModal: React.FC<{
+    pledges: Pledge[];
+    members: Member[];
+    transactions: Transaction[];
+    incomeCategoryNames: string[];
+    getMemberName: (id?: number) => string;
+    onSave: (pledge: Omit<Pledge, 'id'>, id: number | undefined, onDone: () => void) => void;
+    onDelete: (id: number) => void;
+    onClose: () => void;
+}> = ({ pledges, members, transactions, incomeCategoryNames, getMemberName, onSave, onDelete, onClose }) => {
+    const thisYear = new Date().getFullYear();
+    const emptyForm = (category: string) => ({
+        memberId: '' as number | '',
+        category,
+        amount: '' as number | '',
+        startMonth: `${thisYear}-01`,
+        endMonth: `${thisYear}-12`,
+        schedule: 'monthly' as PledgeSchedule,
+        memo: '',
+    });
+    const campaignCategories = Array.from(new Set(pledges.map(p => p.category)));
+    const [campaign, setCampaign] = useState(() => campaignCategories[0] ?? '');
+    const [behindOnly, setBehindOnly] = useState(false);
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [form, setForm] = useState(() => emptyForm(incomeCategoryNames.find(c => c.includes('건축')) ?? incomeCategoryNames[0] ?? ''));
+
+    const statuses = useMemo(() => buildPledgeStatuses(pledges, transactions, todayString()), [pledges, transactions]);
+    const campaignStatuses = statuses
+        .filter(s => !campaign || s.pledge.category === campaign)
+        .sort((a, b) => getMemberName(a.pledge.memberId).localeCompare(getMemberName(b.pledge.memberId), 'ko'));
+    const visibleStatuses = behindOnly ? campaignStatuses.filter(s => s.behind > 0) : campaignStatuses;
+    const pledgedTotal = campaignStatuses.reduce((sum, s) => sum + s.pledge.amount, 0);
+    const fulfilledTotal = campaignStatuses.reduce((sum, s) => sum + Math.min(s.fulfilled, s.pledge.amount), 0);
+    const progress = pledgedTotal > 0 ? Math.round((fulfilledTotal / pledgedTotal) * 1000) / 10 : 0;
+    const behindCount = campaignStatuses.filter(s => s.behind > 0).length;
+
+    const handleEdit = (pledge: Pledge) => {
+        setEditingId(pledge.id);
+        setForm({ ...pledge, memo: pledge.memo ?? '' });
+    };
+
+    const handleCancel = () => {
+        setEditingId(null);
+        setForm(emptyForm(form.category));
+    };
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        if (form.memberId === '' || form.amount === '' || form.amount <= 0 || !form.category) {
+            alert('성도, 항목, 작정 금액을 입력해주세요.');
+            return;
+        }
+        if (!form.startMonth || !form.endMonth || form.startMonth > form.endMonth) {
+            alert('작정 기간을 확인해주세요.');
+            return;
+        }
+        // 같은 성도·항목의 기간이 겹치면 같은 입금이 두 작정에 모두 잡힌다.
+        const overlapping = pledges.find(p => p.id !== editingId && p.memberId === form.memberId && p.category === form.category &&
+            p.startMonth <= form.endMonth && form.startMonth <= p.endMonth);
+        if (overlapping && !window.confirm(`${getMemberName(overlapping.memberId)}님의 ${overlapping.category} 작정(${overlapping.startMonth} ~ ${overlapping.endMonth})과 기간이 겹칩니다.\n겹치는 기간의 입금은 두 작정에 모두 이행액으로 잡힙니다. 그래도 저장하시겠습니까?`)) return;
+        onSave({
+            memberId: form.memberId,
+            category: form.category,
+            amount: form.amount,
+            startMonth: form.startMonth,
+            endMonth: form.endMonth,
+            schedule: form.schedule,
+            ...(form.memo.trim() ? { memo: form.memo.trim() } : {}),
+        }, editingId ?? undefined, () => {
+            if (!campaign) setCampaign(form.category);
+            handleCancel();
+        });
+    };
+
+    const handleDelete = (pledge: Pledge) => {
+        if (window.confirm(`${getMemberName(pledge.memberId)}님의 ${pledge.category} 작정(${pledge.amount.toLocaleString()}원)을 삭제하시겠습니까?\n입금 내역은 그대로 남습니다.`)) {
+            onDelete(pledge.id);
+        }
+    };
+
+    const formCategories = incomeCategoryNames.includes(form.category) ? incomeCategoryNames : [...incomeCategoryNames, form.category];
+
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content large scrollable">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>작정헌금</h2>
+                <div className="list-header">
+                    <select value={campaign} onChange={e => setCampaign(e.target.value)} aria-label="작정 항목">
+                        <option value="">전체 항목</option>
+                        {campaignCategories.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                    <label>
+                        <input type="checkbox" checked={behindOnly} onChange={e => setBehindOnly(e.target.checked)} /> 일정보다 늦은 성도만 ({behindCount}명)
+                    </label>
+                </div>
+                <div className="pledge-progress">
+                    <div className="pledge-progress-bar"><div style={{ width: `${Math.min(100, progress)}%` }} /></div>
+                    <span>작정 {pledgedTotal.toLocaleString()}원 중 {fulfilledTotal.toLocaleString()}원 이행 ({progress}%) · 남은 금액 {(pledgedTotal - fulfilledTotal).toLocaleString()}원</span>
+                </div>
+
+                {visibleStatuses.length === 0 ? (
+                    <p className="empty-list">{behindOnly ? '일정보다 늦은 성도가 없습니다.' : '등록된 작정헌금이 없습니다.'}</p>
+                ) : (
+                    <table className="report-table">
+                        <thead>
+                            <tr><th>성도</th><th>항목</th><th>기간</th><th>분납</th><th className="amount">작정</th><th className="amount">이행</th><th className="amount">남은 금액</th><th>상태</th><th></th></tr>
+                        </thead>
+                        <tbody>
+                            {visibleStatuses.map(({ pledge, fulfilled, remaining, expected, behind }) => (
+                                <tr key={pledge.id} className={behind > 0 ? 'budget-over' : undefined} title={pledge.memo}>
+                                    <td>{getMemberName(pledge.memberId)}</td>
+                                    <td>{pledge.category}</td>
+                                    <td>{pledge.startMonth} ~ {pledge.endMonth}</td>
+                                    <td>{PLEDGE_SCHEDULE_LABELS[pledge.schedule]}</td>
+                                    <td className="amount">{pledge.amount.toLocaleString()}원</td>
+                                    <td className="amount">{fulfilled.toLocaleString()}원</td>
+                                    <td className="amount">{remaining.toLocaleString()}원</td>
+                                    <td>{remaining === 0 ? '완료' : behind > 0 ? `${behind.toLocaleString()}원 늦음 (예정 ${expected.toLocaleString()}원)` : '정상'}</td>
+                                    <td className="row-actions">
+                                        <button type="button" className="edit-btn" onClick={() => handleEdit(pledge)}>수정</button>
+                                        <button type="button" className="delete-btn" onClick={() => handleDelete(pledge)}>삭제</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+
+                <h3>{editingId === null ? '작정 등록' : '작정 수정'}</h3>
+                <p className="form-hint">작정 기간 동안 그 성도가 같은 항목으로 낸 입금이 이행액으로 잡힙니다.</p>
+                <form onSubmit={handleSubmit} className="transaction-form">
+                    <div className="form-group">
+                        <label htmlFor="pledge-member">성도</label>
+                        <select id="pledge-member" value={form.memberId} onChange={e => setForm({ ...form, memberId: e.target.value === '' ? '' : Number(e.target.value) })} required>
+                            <option value="" disabled>-- 성도 선택 --</option>
+                            {members.filter(m => !isAnonymousPlaceholder(m) && (isMemberActive(m) || m.id === form.memberId)).map(m => <option key={m.id} value={m.id}>{m.name} ({m.position})</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="pledge-category">항목</label>
+                        <select id="pledge-category" value={form.category} onChange={e => setForm({ ...form, category: e.target.value })}>
+                            {formCategories.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="pledge-amount">작정 금액 (원)</label>
+                        <input id="pledge-amount" type="number" placeholder="숫자만 입력" value={form.amount} onChange={e => setForm({ ...form, amount: e.target.value === '' ? '' : Number(e.target.value) })} required min="1" />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="pledge-start">시작 월</label>
+                        <input id="pledge-start" type="month" value={form.startMonth} onChange={e => setForm({ ...form, startMonth: e.target.value })} required />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="pledge-end">종료 월</label>
+                        <input id="pledge-end" type="month" value={form.endMonth} onChange={e => setForm({ ...form, endMonth: e.target.value })} required />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="pledge-schedule">분납</label>
+                        <select id="pledge-schedule" value={form.schedule} onChange={e => setForm({ ...form, schedule: e.target.value as PledgeSchedule })}>
+                            {(Object.keys(PLEDGE_SCHEDULE_LABELS) as PledgeSchedule[]).map(s => <option key={s} value={s}>{PLEDGE_SCHEDULE_LABELS[s]}</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="pledge-memo">비고</label>
+                        <input id="pledge-memo" type="text" value={form.memo} onChange={e => setForm({ ...form, memo: e.target.value })} />
+                    </div>
+                    <div className="form-actions">
+                        {editingId !== null && <button type="button" className="cancel-btn" onClick={handleCancel}>취소</button>}
+                        <button type="submit" className="submit-btn">{editingId === null ? '작정 등록' : '저장'}</button>
+                    </div>
+                </form>
+            </div>
         </div>
-      </div>
-    </div>
-  </section>
-);
+    );
+};
+
+// --- 정기 지출 ---
+const WEEKDAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'];
+
+const describeRecurrenceRule = (rule: RecurrenceRule): string => {
+    if (rule.kind === 'weekly') return `매주 ${WEEKDAY_LABELS[rule.weekday]}요일`;
+    if (rule.kind === 'yearly') return `매년 ${rule.month}월 ${rule.day}일`;
+    return `매월 ${rule.day}일`;
+};
+
+const recurringHandledThrough = (template: RecurringExpense) => template.handledThrough ?? addDays(template.startDate, -1);
+
+// 처리할 차례인 회차. 밀린 회차가 여러 개면 가장 이른 것부터 하나씩 보여준다.
+interface RecurringDue {
+    template: RecurringExpense;
+    occurrence: string;
+    pendingCount: number;
+}
+
+interface RecurringPosting {
+    templateId: number;
+    occurrence: string;
+    date: string;
+    amount: number;
+    memo: string;
+}
+
+const findDueRecurringExpenses = (templates: RecurringExpense[], today: string): RecurringDue[] =>
+    templates
+        .filter(t => t.active)
+        .map(template => ({ template, dates: recurrenceDatesBetween(template.rule, recurringHandledThrough(template), today) }))
+        .filter(({ dates }) => dates.length > 0)
+        .map(({ template, dates }) => ({ template, occurrence: dates[0], pendingCount: dates.length }))
+        .sort((a, b) => a.occurrence.localeCompare(b.occurrence));
+
+const findUpcomingRecurringExpenses = (templates: RecurringExpense[], today: string, days: number) =>
+    templates
+        .filter(t => t.active)
+        .flatMap(template => {
+            const handled = recurringHandledThrough(template);
+            return recurrenceDatesBetween(template.rule, handled > today ? handled : today, addDays(today, days)).map(date => ({ template, date }));
+        })
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+const UpcomingExpensesSummary: React.FC<{
+    recurringExpenses: RecurringExpense[];
+    onOpenQueue: () => void;
+    onOpenTemplates: () => void;
+}> = ({ recurringExpenses, onOpenQueue, onOpenTemplates }) => {
+    const today = todayString();
+    const due = findDueRecurringExpenses(recurringExpenses, today);
+    const upcoming = findUpcomingRecurringExpenses(recurringExpenses, today, 30);
+    if (recurringExpenses.length === 0) return null;
+    const upcomingTotal = upcoming.reduce((sum, u) => sum + u.template.amount, 0);
+
+    return (
+        <section className="card upcoming-expenses">
+            <div className="list-header">
+                <h2>예정된 지출 <small>앞으로 30일 {upcomingTotal.toLocaleString()}원</small></h2>
+                <div className="receipt-batch-actions">
+                    {due.length > 0 && <button className="data-btn" onClick={onOpenQueue}>처리할 지출 {due.length}건</button>}
+                    <button className="data-btn" onClick={onOpenTemplates}>정기 지출 관리</button>
+                </div>
+            </div>
+            {due.length === 0 && upcoming.length === 0 ? (
+                <p className="empty-list">앞으로 30일 안에 예정된 지출이 없습니다.</p>
+            ) : (
+                <ul className="upcoming-expense-list">
+                    {due.map(d => (
+                        <li key={`due-${d.template.id}`} className="budget-over">
+                            <span>{d.occurrence} ({getDayOfWeek(d.occurrence)})</span>
+                            <span>{d.template.category}{d.template.payee ? ` · ${d.template.payee}` : ''}{d.pendingCount > 1 ? ` 외 ${d.pendingCount - 1}회 밀림` : ''}</span>
+                            <span className="expense-color">{d.template.amount.toLocaleString()}원</span>
+                        </li>
+                    ))}
+                    {upcoming.map(u => (
+                        <li key={`${u.template.id}-${u.date}`}>
+                            <span>{u.date} ({getDayOfWeek(u.date)})</span>
+                            <span>{u.template.category}{u.template.payee ? ` · ${u.template.payee}` : ''}</span>
+                            <span>{u.template.amount.toLocaleString()}원</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </section>
+    );
+};
+
+// 처리할 차례가 된 정기 지출을 하나씩 확인해 등록하거나 건너뛴다.
+// 날짜·금액·비고는 이번 회차에만 바꿔 등록할 수 있다.
+const RecurringQueueModal: React.FC<{
+    recurringExpenses: RecurringExpense[];
+    fundBalances: Map<string, number>;
+    onPost: (postings: RecurringPosting[]) => void;
+    onSkip: (templateId: number, occurrence: string) => void;
+    onOpenTemplates: () => void;
+    onClose: () => void;
+}> = ({ recurringExpenses, fundBalances, onPost, onSkip, onOpenTemplates, onClose }) => {
+    const due = findDueRecurringExpenses(recurringExpenses, todayString());
+    const [drafts, setDrafts] = useState<Record<string, { date: string; amount: number | ''; memo: string }>>({});
+
+    const draftKey = (d: RecurringDue) => `${d.template.id}:${d.occurrence}`;
+    const draftOf = (d: RecurringDue) => drafts[draftKey(d)] ?? { date: d.occurrence, amount: d.template.amount as number | '', memo: d.template.memo ?? '' };
+    const updateDraft = (d: RecurringDue, changes: Partial<{ date: string; amount: number | ''; memo: string }>) =>
+        setDrafts(prev => ({ ...prev, [draftKey(d)]: { ...draftOf(d), ...changes } }));
+
+    const toPosting = (d: RecurringDue): RecurringPosting | null => {
+        const draft = draftOf(d);
+        if (draft.amount === '' || draft.amount <= 0 || !draft.date) {
+            alert(`${d.template.category} ${d.occurrence} 회차의 날짜와 금액을 확인해주세요.`);
+            return null;
+        }
+        return { templateId: d.template.id, occurrence: d.occurrence, date: draft.date, amount: draft.amount, memo: draft.memo };
+    };
+
+    const handlePostAll = () => {
+        const postings = due.map(toPosting);
+        if (postings.some(p => p === null)) return;
+        const total = postings.reduce((sum, p) => sum + p!.amount, 0);
+        if (window.confirm(`${postings.length}건, 합계 ${total.toLocaleString()}원을 출금으로 등록하시겠습니까?`)) {
+            onPost(postings as RecurringPosting[]);
+        }
+    };
+
+    const handleSkip = (d: RecurringDue) => {
+        if (window.confirm(`${d.template.category} ${d.occurrence} 회차를 등록하지 않고 건너뛰시겠습니까?`)) {
+            onSkip(d.template.id, d.occurrence);
+        }
+    };
+
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content large scrollable">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>처리할 정기 지출</h2>
+                {due.length === 0 ? (
+                    <p className="empty-list">처리할 정기 지출이 없습니다.</p>
+                ) : (
+                    <>
+                        <p className="form-hint">등록하면 출금 내역에 추가되고, 건너뛰면 이번 회차는 기록하지 않습니다. 밀린 회차가 있으면 처리한 뒤 다음 회차가 이어서 나타납니다.</p>
+                        <table className="report-table">
+                            <thead>
+                                <tr><th>회차</th><th>항목</th><th>재정</th><th>출금 날짜</th><th className="amount">금액</th><th>비고</th><th></th></tr>
+                            </thead>
+                            <tbody>
+                                {due.map(d => {
+                                    const draft = draftOf(d);
+                                    const fund = d.template.fund ?? GENERAL_FUND;
+                                    const overBalance = draft.amount !== '' && draft.amount > (fundBalances.get(fund) ?? 0);
+                                    return (
+                                        <tr key={draftKey(d)}>
+                                            <td>{d.occurrence}{d.pendingCount > 1 && <small> (밀린 {d.pendingCount}회)</small>}</td>
+                                            <td>{d.template.category}{d.template.payee && <small> · {d.template.payee}</small>}</td>
+                                            <td className={overBalance ? 'expense-color' : undefined} title={overBalance ? '재정 잔액보다 큰 금액입니다.' : undefined}>{fund}</td>
+                                            <td><input type="date" value={draft.date} onChange={e => updateDraft(d, { date: e.target.value })} aria-label="출금 날짜" /></td>
+                                            <td className="amount"><input type="number" min="1" value={draft.amount} onChange={e => updateDraft(d, { amount: e.target.value === '' ? '' : Number(e.target.value) })} aria-label="금액" /></td>
+                                            <td><input type="text" value={draft.memo} onChange={e => updateDraft(d, { memo: e.target.value })} aria-label="비고" /></td>
+                                            <td className="row-actions">
+                                                <button type="button" className="save-btn" onClick={() => { const p = toPosting(d); if (p) onPost([p]); }}>등록</button>
+                                                <button type="button" className="cancel-btn" onClick={() => handleSkip(d)}>건너뛰기</button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </>
+                )}
+                <div className="form-actions">
+                    <button type="button" className="data-btn" onClick={onOpenTemplates}>정기 지출 관리</button>
+                    {due.length > 1 && <button type="button" className="submit-btn" onClick={handlePostAll}>모두 등록</button>}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const RecurringExpensesModal: React.FC<{
+    recurringExpenses: RecurringExpense[];
+    payees: Payee[];
+    expenseCategories: string[];
+    funds: string[];
+    onSave: (template: Omit<RecurringExpense, 'id'>, id: number | undefined, onDone: () => void) => void;
+    onDelete: (id: number) => void;
+    onOpenQueue: () => void;
+    onClose: () => void;
+}> = ({ recurringExpenses, payees, expenseCategories, funds, onSave, onDelete, onOpenQueue, onClose }) => {
+    const emptyForm = () => ({
+        category: expenseCategories[0] ?? '',
+        amount: '' as number | '',
+        payee: '',
+        memo: '',
+        fund: GENERAL_FUND,
+        paymentMethod: 'transfer' as PaymentMethod,
+        kind: 'monthly' as RecurrenceRule['kind'],
+        day: 25,
+        weekday: 0,
+        month: 1,
+        startDate: todayString(),
+        active: true,
+    });
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [form, setForm] = useState(emptyForm);
+    const today = todayString();
+
+    const handleEdit = (template: RecurringExpense) => {
+        setEditingId(template.id);
+        const rule = template.rule;
+        setForm({
+            category: template.category,
+            amount: template.amount,
+            payee: template.payee ?? '',
+            memo: template.memo ?? '',
+            fund: template.fund ?? GENERAL_FUND,
+            paymentMethod: template.paymentMethod ?? 'transfer',
+            kind: rule.kind,
+            day: rule.kind === 'weekly' ? 25 : rule.day,
+            weekday: rule.kind === 'weekly' ? rule.weekday : 0,
+            month: rule.kind === 'yearly' ? rule.month : 1,
+            startDate: template.startDate,
+            active: template.active,
+        });
+    };
+
+    const handleCancel = () => {
+        setEditingId(null);
+        setForm(emptyForm());
+    };
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        if (!form.category || form.amount === '' || form.amount <= 0 || !form.startDate) {
+            alert('항목, 금액, 시작일을 입력해주세요.');
+            return;
+        }
+        if (form.kind !== 'weekly' && (form.day < 1 || form.day > 31)) {
+            alert('날짜는 1일부터 31일 사이로 입력해주세요.');
+            return;
+        }
+        const rule: RecurrenceRule = form.kind === 'weekly' ? { kind: 'weekly', weekday: form.weekday }
+            : form.kind === 'yearly' ? { kind: 'yearly', month: form.month, day: form.day }
+            : { kind: 'monthly', day: form.day };
+        const existing = recurringExpenses.find(t => t.id === editingId);
+        // 규칙이나 시작일을 바꿔도 이미 처리한 회차는 다시 묻지 않는다.
+        onSave({
+            category: form.category,
+            amount: form.amount,
+            ...(form.payee ? { payee: form.payee } : {}),
+            ...(form.memo.trim() ? { memo: form.memo.trim() } : {}),
+            fund: form.fund,
+            paymentMethod: form.paymentMethod,
+            rule,
+            startDate: form.startDate,
+            ...(existing?.handledThrough ? { handledThrough: existing.handledThrough } : {}),
+            active: form.active,
+        }, editingId ?? undefined, handleCancel);
+    };
+
+    const handleDelete = (template: RecurringExpense) => {
+        if (window.confirm(`'${template.category}' 정기 지출을 삭제하시겠습니까?\n이미 등록된 출금 내역은 그대로 남습니다.`)) {
+            onDelete(template.id);
+        }
+    };
+
+    const categoryOptions = expenseCategories.includes(form.category) || !form.category ? expenseCategories : [...expenseCategories, form.category];
+    const fundOptions = funds.includes(form.fund) ? funds : [...funds, form.fund];
+
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content large scrollable">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>정기 지출</h2>
+                {recurringExpenses.length === 0 ? (
+                    <p className="empty-list">등록된 정기 지출이 없습니다.</p>
+                ) : (
+                    <table className="report-table">
+                        <thead>
+                            <tr><th>항목</th><th>지급처</th><th>반복</th><th>재정</th><th className="amount">금액</th><th>다음 회차</th><th></th></tr>
+                        </thead>
+                        <tbody>
+                            {recurringExpenses.map(template => {
+                                const next = recurrenceDatesBetween(template.rule, recurringHandledThrough(template), addDays(today, 400))[0];
+                                return (
+                                    <tr key={template.id} title={template.memo}>
+                                        <td>{template.category}</td>
+                                        <td>{template.payee ?? '-'}</td>
+                                        <td>{describeRecurrenceRule(template.rule)}</td>
+                                        <td>{template.fund ?? GENERAL_FUND}</td>
+                                        <td className="amount">{template.amount.toLocaleString()}원</td>
+                                        <td className={template.active && next && next <= today ? 'expense-color' : undefined}>
+                                            {template.active ? (next ?? '-') : '중지됨'}
+                                        </td>
+                                        <td className="row-actions">
+                                            <button type="button" className="edit-btn" onClick={() => handleEdit(template)}>수정</button>
+                                            <button type="button" className="delete-btn" onClick={() => handleDelete(template)}>삭제</button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                )}
+
+                <h3>{editingId === null ? '정기 지출 등록' : '정기 지출 수정'}</h3>
+                <p className="form-hint">시작일부터 회차가 돌아오면 앱을 열 때 처리할 지출로 표시됩니다. 31일처럼 없는 날은 그 달 말일로 처리합니다.</p>
+                <form onSubmit={handleSubmit} className="transaction-form">
+                    <div className="form-group">
+                        <label htmlFor="recurring-category">출금 내역</label>
+                        <select id="recurring-category" value={form.category} onChange={e => setForm({ ...form, category: e.target.value })} required>
+                            <option value="" disabled>-- 항목 선택 --</option>
+                            {categoryOptions.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="recurring-amount">금액 (원)</label>
+                        <input id="recurring-amount" type="number" placeholder="숫자만 입력" value={form.amount} onChange={e => setForm({ ...form, amount: e.target.value === '' ? '' : Number(e.target.value) })} required min="1" />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="recurring-payee">지급처</label>
+                        <select id="recurring-payee" value={form.payee} onChange={e => setForm({ ...form, payee: e.target.value })}>
+                            <PayeeOptions payees={payees} current={form.payee} />
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="recurring-fund">재정</label>
+                        <select id="recurring-fund" value={form.fund} onChange={e => setForm({ ...form, fund: e.target.value })}>
+                            {fundOptions.map(f => <option key={f} value={f}>{f}</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="recurring-payment-method">결제수단</label>
+                        <select id="recurring-payment-method" value={form.paymentMethod} onChange={e => setForm({ ...form, paymentMethod: e.target.value as PaymentMethod })}>
+                            {PAYMENT_METHODS.map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="recurring-kind">반복</label>
+                        <select id="recurring-kind" value={form.kind} onChange={e => setForm({ ...form, kind: e.target.value as RecurrenceRule['kind'] })}>
+                            <option value="monthly">매월</option>
+                            <option value="weekly">매주</option>
+                            <option value="yearly">매년</option>
+                        </select>
+                    </div>
+                    {form.kind === 'weekly' ? (
+                        <div className="form-group">
+                            <label htmlFor="recurring-weekday">요일</label>
+                            <select id="recurring-weekday" value={form.weekday} onChange={e => setForm({ ...form, weekday: Number(e.target.value) })}>
+                                {WEEKDAY_LABELS.map((label, i) => <option key={label} value={i}>{label}요일</option>)}
+                            </select>
+                        </div>
+                    ) : (
+                        <div className="form-group">
+                            <label htmlFor="recurring-day">{form.kind === 'yearly' ? '날짜' : '매월 며칠'}</label>
+                            <div className="category-input">
+                                {form.kind === 'yearly' && (
+                                    <select value={form.month} onChange={e => setForm({ ...form, month: Number(e.target.value) })} aria-label="월">
+                                        {Array.from({ length: 12 }, (_, i) => <option key={i + 1} value={i + 1}>{i + 1}월</option>)}
+                                    </select>
+                                )}
+                                <input id="recurring-day" type="number" min="1" max="31" value={form.day} onChange={e => setForm({ ...form, day: Number(e.target.value) })} required />
+                            </div>
+                        </div>
+                    )}
+                    <div className="form-group">
+                        <label htmlFor="recurring-start">시작일</label>
+                        <input id="recurring-start" type="date" value={form.startDate} onChange={e => setForm({ ...form, startDate: e.target.value })} required />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="recurring-memo">비고</label>
+                        <input id="recurring-memo" type="text" value={form.memo} onChange={e => setForm({ ...form, memo: e.target.value })} placeholder="메모 (선택사항)" />
+                    </div>
+                    <div className="form-group">
+                        <label>
+                            <input type="checkbox" checked={form.active} onChange={e => setForm({ ...form, active: e.target.checked })} /> 사용 (끄면 처리할 지출에 나타나지 않습니다)
+                        </label>
+                    </div>
+                    <div className="form-actions">
+                        <button type="button" className="data-btn" onClick={onOpenQueue}>처리할 지출 보기</button>
+                        {editingId !== null && <button type="button" className="cancel-btn" onClick={handleCancel}>취소</button>}
+                        <button type="submit" className="submit-btn">{editingId === null ? '등록' : '저장'}</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+// --- 지급처 ---
+interface PayeeYearTotal {
+    name: string;
+    total: number;
+    count: number;
+    byCategory: { category: string; amount: number }[];
+}
+
+// 한 회계연도의 출금을 지급처 이름별로 합산한다.
+const computePayeeYearTotals = (transactions: Transaction[], year: number, fiscalStartMonth: number): Map<string, PayeeYearTotal> => {
+    const totals = new Map<string, PayeeYearTotal>();
+    const { start, end } = fiscalYearRange(year, fiscalStartMonth);
+    transactions
+        .filter(tx => tx.type === 'expense' && tx.payee && tx.date >= start && tx.date <= end)
+        .forEach(tx => {
+            const entry = totals.get(tx.payee!) ?? { name: tx.payee!, total: 0, count: 0, byCategory: [] };
+            entry.total += tx.amount;
+            entry.count += 1;
+            const line = entry.byCategory.find(c => c.category === tx.category);
+            if (line) line.amount += tx.amount;
+            else entry.byCategory.push({ category: tx.category, amount: tx.amount });
+            totals.set(tx.payee!, entry);
+        });
+    return totals;
+};
+
+const PayeesModal: React.FC<{
+    payees: Payee[];
+    transactions: Transaction[];
+    fiscalStartMonth: number;
+    onSave: (payee: Omit<Payee, 'id'>, id: number | undefined, onDone: () => void) => void;
+    onDelete: (id: number) => void;
+    onAssignFromMemo: (name: string) => void;
+    onClose: () => void;
+}> = ({ payees, transactions, fiscalStartMonth, onSave, onDelete, onAssignFromMemo, onClose }) => {
+    const thisYear = fiscalYearOf(todayString(), fiscalStartMonth);
+    const emptyForm = (name = '') => ({ name, kind: 'company' as PayeeKind, bankAccount: '', contact: '', memo: '' });
+    const [year, setYear] = useState(thisYear);
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [form, setForm] = useState(() => emptyForm());
+
+    const years = useMemo(() => {
+        const set = new Set<number>(transactions.map(tx => fiscalYearOf(tx.date, fiscalStartMonth)).filter(y => !isNaN(y)));
+        set.add(thisYear);
+        return Array.from(set).sort((a, b) => b - a);
+    }, [transactions, thisYear, fiscalStartMonth]);
+    const totals = useMemo(() => computePayeeYearTotals(transactions, year, fiscalStartMonth), [transactions, year, fiscalStartMonth]);
+    const yearLabel = formatFiscalYear(year, fiscalStartMonth);
+    const sortedPayees = [...payees].sort((a, b) => a.name.localeCompare(b.name, 'ko'));
+    // 출금에 적혀 있지만 목록에 없는 이름 (가져온 데이터나 지급처를 삭제한 경우)
+    const unregistered = Array.from(new Set<string>(transactions.filter(tx => tx.type === 'expense' && tx.payee).map(tx => tx.payee!)))
+        .filter(name => !payees.some(p => p.name === name))
+        .sort((a, b) => a.localeCompare(b, 'ko'));
+    const memoMatchCount = (name: string) => transactions.filter(tx => tx.type === 'expense' && !tx.payee && tx.memo?.includes(name)).length;
+    const totalList: PayeeYearTotal[] = Array.from(totals.values());
+    const yearTotal = totalList.reduce((sum, t) => sum + t.total, 0);
+
+    const handleEdit = (payee: Payee) => {
+        setEditingId(payee.id);
+        setForm({ name: payee.name, kind: payee.kind, bankAccount: payee.bankAccount ?? '', contact: payee.contact ?? '', memo: payee.memo ?? '' });
+    };
+
+    const handleCancel = () => {
+        setEditingId(null);
+        setForm(emptyForm());
+    };
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        const name = form.name.trim();
+        if (!name) {
+            alert('지급처 이름을 입력해주세요.');
+            return;
+        }
+        if (payees.some(p => p.id !== editingId && p.name === name)) {
+            alert('같은 이름의 지급처가 이미 있습니다.');
+            return;
+        }
+        onSave({
+            name,
+            kind: form.kind,
+            ...(form.bankAccount.trim() ? { bankAccount: form.bankAccount.trim() } : {}),
+            ...(form.contact.trim() ? { contact: form.contact.trim() } : {}),
+            ...(form.memo.trim() ? { memo: form.memo.trim() } : {}),
+        }, editingId ?? undefined, handleCancel);
+    };
+
+    const handleDelete = (payee: Payee) => {
+        if (window.confirm(`'${payee.name}' 지급처를 삭제하시겠습니까?\n이미 기록된 출금의 지급처 이름은 그대로 남습니다.`)) {
+            onDelete(payee.id);
+        }
+    };
 
-const BalanceSummary: React.FC<{previousBalance: number, todaysChange: number, todaysBalance: number}> = ({ previousBalance, todaysChange, todaysBalance }) => (
-  <section className="balance-summary">
-    <div className="summary-item">
-      <span className="summary-label">이전 잔액</span>
-      <span className="summary-value">{previousBalance.toLocaleString()}원</span>
-    </div>
-    <div className="summary-item">
-      <span className="summary-label">오늘 변동금액</span>
-      <span className={`summary-value ${todaysChange >= 0 ? 'income-color' : 'expense-color'}`}>{todaysChange.toLocaleString()}원</span>
-    </div>
-    <div className="summary-item">
-      <span className="summary-label">금일 잔액</span>
-      <span className="summary-value bold">{todaysBalance.toLocaleString()}원</span>
-    </div>
-  </section>
-);
+    const handleExportCsv = () => {
+        const kindOf = (name: string) => payees.find(p => p.name === name);
+        const rows = [...totalList]
+            .sort((a, b) => b.total - a.total)
+            .map(t => [t.name, kindOf(t.name) ? PAYEE_KIND_LABELS[kindOf(t.name)!.kind] : '미등록', kindOf(t.name)?.bankAccount ?? '', t.count, t.total,
+                t.byCategory.map(c => `${c.category} ${c.amount}`).join(' / ')]);
+        downloadFile(toCsv([['지급처', '구분', '계좌', '건수', '합계', '항목별'], ...rows, ['합계', '', '', '', yearTotal, '']]), `church_payees_${year}.csv`, 'text/csv;charset=utf-8');
+    };
 
-const IncomeForm: React.FC<{members: Member[], onAddTransaction: (tx: Omit<Transaction, 'id'>) => void}> = ({ members, onAddTransaction }) => {
-  const [date, setDate] = useState(todayString);
-  const [category, setCategory] = useState(INCOME_CATEGORIES[0]);
-  const [memberId, setMemberId] = useState<number | ''>('');
-  const [amount, setAmount] = useState<number | ''>('');
+    const renderTotal = (name: string) => {
+        const total = totals.get(name);
+        return (
+            <>
+                <td className="amount">{total ? `${total.total.toLocaleString()}원` : '-'}</td>
+                <td>{total ? total.byCategory.map(c => `${c.category} ${c.amount.toLocaleString()}`).join(' · ') : ''}</td>
+            </>
+        );
+    };
 
-  const handleSubmit = (e: FormEvent) => {
-    e.preventDefault();
-    if (amount === '' || amount <= 0 || memberId === '') {
-      alert('모든 필수 항목을 입력해주세요.');
-      return;
-    }
-    onAddTransaction({ type: 'income', date, category, amount, memberId: Number(memberId) });
-    setMemberId('');
-    setAmount('');
-  };
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content large scrollable">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>지급처</h2>
+                <div className="list-header">
+                    <select value={year} onChange={e => setYear(Number(e.target.value))} aria-label="연도">
+                        {years.map(y => <option key={y} value={y}>{formatFiscalYear(y, fiscalStartMonth)}</option>)}
+                    </select>
+                    <span>{yearLabel} 지급처 지정 출금 합계 {yearTotal.toLocaleString()}원</span>
+                    <button type="button" className="data-btn" onClick={handleExportCsv}>연간 합계 CSV</button>
+                </div>
 
-  return (
-    <form onSubmit={handleSubmit} className="transaction-form">
-      <div className="form-group">
-        <label htmlFor="income-date" className="label-with-day">
-          <span>입금 날짜</span>
-          <span>{getDayOfWeek(date)}</span>
-        </label>
-        <input id="income-date" type="date" value={date} onChange={e => setDate(e.target.value)} required />
-      </div>
-      <div className="form-group">
-        <label htmlFor="income-category">입금 내역</label>
-        <select id="income-category" value={category} onChange={e => setCategory(e.target.value)}>
-          {INCOME_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
-        </select>
-      </div>
-      <div className="form-group">
-        <label htmlFor="income-member">헌금자</label>
-        <select id="income-member" value={memberId} onChange={e => setMemberId(Number(e.target.value))} required>
-          <option value="" disabled>-- 성도 선택 --</option>
-          {members.map(m => <option key={m.id} value={m.id}>{m.name} ({m.position})</option>)}
-        </select>
-      </div>
-      <div className="form-group">
-        <label htmlFor="income-amount">금액 (원)</label>
-        <input id="income-amount" type="number" placeholder="숫자만 입력" value={amount} onChange={e => setAmount(Number(e.target.value))} required min="1" />
-      </div>
-      <button type="submit" className="submit-btn">등록 완료</button>
-    </form>
-  );
+                {sortedPayees.length === 0 && unregistered.length === 0 ? (
+                    <p className="empty-list">등록된 지급처가 없습니다.</p>
+                ) : (
+                    <table className="report-table">
+                        <thead>
+                            <tr><th>지급처</th><th>구분</th><th>계좌</th><th>연락처</th><th className="amount">{yearLabel} 합계</th><th>항목별</th><th></th></tr>
+                        </thead>
+                        <tbody>
+                            {sortedPayees.map(payee => {
+                                const matches = memoMatchCount(payee.name);
+                                return (
+                                    <tr key={payee.id} title={payee.memo}>
+                                        <td>{payee.name}</td>
+                                        <td>{PAYEE_KIND_LABELS[payee.kind]}</td>
+                                        <td>{payee.bankAccount ?? ''}</td>
+                                        <td>{payee.contact ?? ''}</td>
+                                        {renderTotal(payee.name)}
+                                        <td className="row-actions">
+                                            {matches > 0 && <button type="button" className="data-btn" onClick={() => onAssignFromMemo(payee.name)} title="비고에 이 이름이 적힌 출금에 지급처를 지정합니다.">비고에서 찾기 ({matches})</button>}
+                                            <button type="button" className="edit-btn" onClick={() => handleEdit(payee)}>수정</button>
+                                            <button type="button" className="delete-btn" onClick={() => handleDelete(payee)}>삭제</button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            {unregistered.map(name => (
+                                <tr key={`unregistered-${name}`}>
+                                    <td>{name}</td>
+                                    <td colSpan={3}>미등록</td>
+                                    {renderTotal(name)}
+                                    <td className="row-actions">
+                                        <button type="button" className="edit-btn" onClick={() => { setEditingId(null); setForm(emptyForm(name)); }}>등록</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+
+                <h3>{editingId === null ? '지급처 등록' : '지급처 수정'}</h3>
+                <form onSubmit={handleSubmit} className="transaction-form">
+                    <div className="form-group">
+                        <label htmlFor="payee-name">이름</label>
+                        <input id="payee-name" type="text" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="예: 한국전력" required />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="payee-kind">구분</label>
+                        <select id="payee-kind" value={form.kind} onChange={e => setForm({ ...form, kind: e.target.value as PayeeKind })}>
+                            {(Object.keys(PAYEE_KIND_LABELS) as PayeeKind[]).map(k => <option key={k} value={k}>{PAYEE_KIND_LABELS[k]}</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="payee-account">계좌</label>
+                        <input id="payee-account" type="text" value={form.bankAccount} onChange={e => setForm({ ...form, bankAccount: e.target.value })} placeholder="은행 계좌번호 예금주" />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="payee-contact">연락처</label>
+                        <input id="payee-contact" type="text" value={form.contact} onChange={e => setForm({ ...form, contact: e.target.value })} />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="payee-memo">비고</label>
+                        <input id="payee-memo" type="text" value={form.memo} onChange={e => setForm({ ...form, memo: e.target.value })} />
+                    </div>
+                    <div className="form-actions">
+                        {(editingId !== null || form.name) && <button type="button" className="cancel-btn" onClick={handleCancel}>취소</button>}
+                        <button type="submit" className="submit-btn">{editingId === null ? '등록' : '저장'}</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
 };
 
-const ExpenseForm: React.FC<{members: Member[], categories: string[], onAddCategory: (cat: string) => void, onAddTransaction: (tx: Omit<Transaction, 'id'>) => void}> = ({ members, categories, onAddCategory, onAddTransaction }) => {
-  const [date, setDate] = useState(todayString);
-  const [category, setCategory] = useState(categories[0] || '');
-  const [memberId, setMemberId] = useState<number | ''>('');
-  const [amount, setAmount] = useState<number | ''>('');
-  const [memo, setMemo] = useState('');
-  
-  const handleAddCategory = () => {
-    const newCategory = prompt('추가할 출금 항목 이름을 입력하세요:');
-    if (newCategory) onAddCategory(newCategory.trim());
-  };
+// --- 마감 ---
+// 해제하지 않은 마감 중 가장 늦은 마감일. 이 날까지의 거래는 추가·수정·삭제할 수 없다.
+const getLockedThrough = (closings: PeriodClosing[]): string =>
+    closings.filter(c => !c.reopenedAt).reduce((latest, c) => c.closedThrough > latest ? c.closedThrough : latest, '');
 
-  const handleSubmit = (e: FormEvent) => {
-    e.preventDefault();
-    if (amount === '' || amount <= 0 || !category) {
-      alert('출금 내역과 금액을 정확히 입력해주세요.');
-      return;
-    }
-    onAddTransaction({ type: 'expense', date, category, amount, memberId: memberId === '' ? undefined : Number(memberId), memo });
-    setMemberId('');
-    setAmount('');
-    setMemo('');
-  };
+const monthEndDate = (month: string): string => {
+    const lastDay = new Date(Date.UTC(Number(month.slice(0, 4)), Number(month.slice(5, 7)), 0)).getUTCDate();
+    return `${month}-${String(lastDay).padStart(2, '0')}`;
+};
 
-  return (
-    <form onSubmit={handleSubmit} className="transaction-form">
-      <div className="form-group">
-        <label htmlFor="expense-date" className="label-with-day">
-          <span>출금 날짜</span>
-          <span>{getDayOfWeek(date)}</span>
-        </label>
-        <input id="expense-date" type="date" value={date} onChange={e => setDate(e.target.value)} required />
-      </div>
-      <div className="form-group">
-        <label htmlFor="expense-category">출금 내역</label>
-        <div className="category-input">
-          <select id="expense-category" value={category} onChange={e => setCategory(e.target.value)} required>
-            <option value="" disabled>-- 항목 선택 --</option>
-            {categories.map(c => <option key={c} value={c}>{c}</option>)}
-          </select>
-          <button type="button" onClick={handleAddCategory} className="add-category-btn">+</button>
-        </div>
-      </div>
-      <div className="form-group">
-        <label htmlFor="expense-user">사용자</label>
-        <select id="expense-user" value={memberId} onChange={e => setMemberId(Number(e.target.value))}>
-          <option value="">-- 선택 사항 --</option>
-          {members.map(m => <option key={m.id} value={m.id}>{m.name} ({m.position})</option>)}
-        </select>
-      </div>
-      <div className="form-group">
-        <label htmlFor="expense-amount">금액 (원)</label>
-        <input id="expense-amount" type="number" placeholder="숫자만 입력" value={amount} onChange={e => setAmount(Number(e.target.value))} required min="1" />
-      </div>
-      <div className="form-group">
-        <label htmlFor="expense-memo">비고</label>
-        <input id="expense-memo" type="text" value={memo} onChange={e => setMemo(e.target.value)} placeholder="메모 (선택사항)" />
-      </div>
-      <button type="submit" className="submit-btn">등록</button>
-    </form>
-  );
+// 연마감은 회계연도 단위로 한다.
+const closingRange = (kind: PeriodClosing['kind'], period: string, fiscalStartMonth: number) => {
+    if (kind === 'month') return { periodStart: `${period}-01`, closedThrough: monthEndDate(period) };
+    const { start, end } = fiscalYearRange(Number(period), fiscalStartMonth);
+    return { periodStart: start, closedThrough: end };
 };
 
-const TransactionList: React.FC<{
-  transactions: (Transaction & {balance: number})[], 
-  getMemberName: (id?: number) => string,
-  onSaveData: () => void,
-  onLoadData: (event: ChangeEvent<HTMLInputElement>) => void
-}> = ({ transactions, getMemberName, onSaveData, onLoadData }) => {
-    const [currentPage, setCurrentPage] = useState(1);
-    const ITEMS_PER_PAGE = 20;
+const CLOSING_KIND_LABELS: Record<PeriodClosing['kind'], string> = { month: '월마감', year: '연마감' };
 
-    useEffect(() => {
-        setCurrentPage(1);
-    }, [transactions]);
+const formatClosingPeriod = (closing: Pick<PeriodClosing, 'kind' | 'period'>) =>
+    closing.kind === 'month' ? `${closing.period.slice(0, 4)}년 ${Number(closing.period.slice(5, 7))}월` : `${closing.period}년`;
 
-    const totalPages = Math.ceil(transactions.length / ITEMS_PER_PAGE);
-    const paginatedTransactions = transactions.slice(
-        (currentPage - 1) * ITEMS_PER_PAGE,
-        currentPage * ITEMS_PER_PAGE
+// 마감 시점의 수입·지출과 잔액을 계산한다. 이체는 재정 사이의 이동이라 전체 잔액에는 영향이 없다.
+const buildClosingSnapshot = (
+    kind: PeriodClosing['kind'],
+    period: string,
+    fiscalStartMonth: number,
+    transactions: Transaction[],
+    fundTransfers: FundTransfer[],
+    incomeCategories: IncomeCategory[],
+    funds: string[],
+): Omit<PeriodClosing, 'id' | 'closedAt' | 'closedBy'> => {
+    const { periodStart, closedThrough } = closingRange(kind, period, fiscalStartMonth);
+    const inPeriod = transactions.filter(tx => tx.date >= periodStart && tx.date <= closedThrough);
+    const fundBalances = Array.from(computeFundBalances(transactions, fundTransfers, incomeCategories, funds, closedThrough).entries())
+        .map(([fund, balance]) => ({ fund, balance }));
+    return {
+        kind,
+        period,
+        periodStart,
+        closedThrough,
+        income: inPeriod.filter(tx => tx.type === 'income').reduce((sum, tx) => sum + tx.amount, 0),
+        expense: inPeriod.filter(tx => tx.type === 'expense').reduce((sum, tx) => sum + tx.amount, 0),
+        balance: fundBalances.reduce((sum, f) => sum + f.balance, 0),
+        fundBalances,
+    };
+};
+
+const balanceThrough = (transactions: Transaction[], date: string) =>
+    transactions.reduce((sum, tx) => tx.date <= date ? sum + (tx.type === 'income' ? tx.amount : -tx.amount) : sum, 0);
+
+// 마감 때 기록한 재정별 잔액과 지금 다시 계산한 잔액이 다른 재정들
+const findClosingFundDrift = (
+    closing: PeriodClosing,
+    transactions: Transaction[],
+    fundTransfers: FundTransfer[],
+    incomeCategories: IncomeCategory[],
+): { fund: string; balance: number }[] => {
+    const current = computeFundBalances(transactions, fundTransfers, incomeCategories, closing.fundBalances.map(f => f.fund), closing.closedThrough);
+    return Array.from(current.entries())
+        .filter(([fund, balance]) => balance !== (closing.fundBalances.find(f => f.fund === fund)?.balance ?? 0))
+        .map(([fund, balance]) => ({ fund, balance }));
+};
+
+const PeriodClosingModal: React.FC<{
+    closings: PeriodClosing[];
+    transactions: Transaction[];
+    fundTransfers: FundTransfer[];
+    incomeCategories: IncomeCategory[];
+    funds: string[];
+    fiscalStartMonth: number;
+    onClosePeriod: (kind: PeriodClosing['kind'], period: string) => void;
+    onReopen: (id: number, reason: string) => void;
+    onClose: () => void;
+}> = ({ closings, transactions, fundTransfers, incomeCategories, funds, fiscalStartMonth, onClosePeriod, onReopen, onClose }) => {
+    const today = todayString();
+    const lockedThrough = getLockedThrough(closings);
+    // 다음에 마감할 달: 잠긴 날 다음 달, 마감 기록이 없으면 지난달
+    const suggestedMonth = lockedThrough ? addDays(lockedThrough, 1).slice(0, 7) : addDays(`${today.slice(0, 7)}-01`, -1).slice(0, 7);
+    const [kind, setKind] = useState<PeriodClosing['kind']>('month');
+    const [month, setMonth] = useState(suggestedMonth);
+    const [year, setYear] = useState(String(fiscalYearOf(today, fiscalStartMonth) - 1));
+    const period = kind === 'month' ? month : year;
+
+    const preview = useMemo(
+        () => /^\d{4}(-\d{2})?$/.test(period) ? buildClosingSnapshot(kind, period, fiscalStartMonth, transactions, fundTransfers, incomeCategories, funds) : null,
+        [kind, period, fiscalStartMonth, transactions, fundTransfers, incomeCategories, funds],
     );
+    const openingBalance = preview ? preview.balance - preview.income + preview.expense : 0;
+    const sortedClosings = [...closings].sort((a, b) => b.closedThrough.localeCompare(a.closedThrough) || b.closedAt.localeCompare(a.closedAt));
+    const latestActiveId = sortedClosings.find(c => !c.reopenedAt && c.closedThrough === lockedThrough)?.id;
 
-    const handlePageChange = (page: number) => {
-        if (page >= 1 && page <= totalPages) {
-            setCurrentPage(page);
+    const handleClosePeriod = () => {
+        if (!preview) return;
+        const label = `${formatClosingPeriod({ kind, period })} ${CLOSING_KIND_LABELS[kind]}`;
+        if (preview.closedThrough > today) {
+            alert(`${formatKoreanDate(preview.closedThrough)}이 지나야 ${label}할 수 있습니다.`);
+            return;
         }
+        if (closings.some(c => !c.reopenedAt && c.kind === kind && c.period === period)) {
+            alert(`${label}이 이미 되어 있습니다.`);
+            return;
+        }
+        if (kind === 'month' && preview.closedThrough <= lockedThrough) {
+            alert(`${formatKoreanDate(lockedThrough)}까지 이미 마감되어 있습니다.`);
+            return;
+        }
+        const skipped = lockedThrough ? preview.periodStart > addDays(lockedThrough, 1) : false;
+        const message = [
+            `${label}을 합니다.`,
+            `수입 ${preview.income.toLocaleString()}원 · 지출 ${preview.expense.toLocaleString()}원 · 기말 잔액 ${preview.balance.toLocaleString()}원`,
+            `${formatKoreanDate(preview.closedThrough)}까지의 거래는 마감을 해제하기 전까지 추가·수정·삭제할 수 없습니다.`,
+            ...(skipped ? [`${formatKoreanDate(addDays(lockedThrough, 1))}부터 마감하지 않은 기간도 함께 잠깁니다.`] : []),
+            '계속하시겠습니까?',
+        ].join('\n');
+        if (window.confirm(message)) onClosePeriod(kind, period);
     };
-    
+
+    const handleReopen = (closing: PeriodClosing) => {
+        const reason = prompt(`${formatClosingPeriod(closing)} ${CLOSING_KIND_LABELS[closing.kind]}을 해제합니다.\n해제 사유를 입력하세요 (예: 공동의회 승인 후 정정):`);
+        if (reason === null) return;
+        onReopen(closing.id, reason.trim());
+    };
+
     return (
-        <section className="card">
-            <h2>거래 내역</h2>
-            <div className="transaction-list">
-                <div className="transaction-header">
-                    <span>날짜</span>
-                    <span>입금</span>
-                    <span>출금</span>
-                    <span>금액</span>
-                    <span>잔액</span>
+        <div className="modal-backdrop">
+            <div className="modal-content large scrollable">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>마감</h2>
+                <p className="form-hint">
+                    {lockedThrough ? `${formatKoreanDate(lockedThrough)}까지 마감되어 그 이전 날짜의 거래는 추가·수정·삭제할 수 없습니다.` : '아직 마감한 기간이 없습니다.'}
+                </p>
+
+                <div className="list-header">
+                    <select value={kind} onChange={e => setKind(e.target.value as PeriodClosing['kind'])} aria-label="마감 구분">
+                        <option value="month">월마감</option>
+                        <option value="year">연마감</option>
+                    </select>
+                    {kind === 'month'
+                        ? <input type="month" value={month} onChange={e => setMonth(e.target.value)} aria-label="마감할 달" />
+                        : <input type="number" value={year} min="2000" max="2100" onChange={e => setYear(e.target.value)} aria-label="마감할 연도" />}
+                    <button type="button" className="submit-btn" onClick={handleClosePeriod} disabled={!preview}>마감하기</button>
                 </div>
-                {transactions.length === 0 ? (
-                    <p className="empty-list">거래 내역이 없습니다.</p>
+                {preview && (
+                    <table className="report-table">
+                        <tbody>
+                            <tr><th>기간</th><td className="amount">{preview.periodStart} ~ {preview.closedThrough}</td></tr>
+                            <tr><th>{kind === 'month' ? '전월 이월' : '전년 이월'}</th><td className="amount">{openingBalance.toLocaleString()}원</td></tr>
+                            <tr><th>수입</th><td className="amount income-color">{preview.income.toLocaleString()}원</td></tr>
+                            <tr><th>지출</th><td className="amount expense-color">{preview.expense.toLocaleString()}원</td></tr>
+                            <tr><th>기말 잔액 {kind === 'year' && `(${Number(period) + 1}년 이월)`}</th><td className="amount">{preview.balance.toLocaleString()}원</td></tr>
+                            {preview.fundBalances.map(f => <tr key={f.fund}><th>· {f.fund}</th><td className="amount">{f.balance.toLocaleString()}원</td></tr>)}
+                        </tbody>
+                    </table>
+                )}
+
+                <h3>마감 기록</h3>
+                {sortedClosings.length === 0 ? (
+                    <p className="empty-list">마감 기록이 없습니다.</p>
                 ) : (
-                    paginatedTransactions.map(tx => (
-                        <div key={tx.id} className={`transaction-item ${tx.type}`}>
-                            <span>{tx.date}</span>
-                            <span>{tx.type === 'income' ? `${getMemberName(tx.memberId)} (${tx.category})` : '-'}</span>
-                            <span>{tx.type === 'expense' ? tx.category : '-'}</span>
-                            <span className={tx.type === 'income' ? 'income-color' : 'expense-color'}>{tx.amount.toLocaleString()}원</span>
-                            <span>{tx.balance.toLocaleString()}원</span>
-                        </div>
-                    ))
+                    <table className="report-table">
+                        <thead>
+                            <tr><th>기간</th><th>구분</th><th className="amount">수입</th><th className="amount">지출</th><th className="amount">기말 잔액</th><th>마감</th><th>상태</th><th></th></tr>
+                        </thead>
+                        <tbody>
+                            {sortedClosings.map(closing => {
+                                const current = closing.reopenedAt ? closing.balance : balanceThrough(transactions, closing.closedThrough);
+                                const fundDrift = closing.reopenedAt ? [] : findClosingFundDrift(closing, transactions, fundTransfers, incomeCategories);
+                                return (
+                                    <tr key={closing.id} className={closing.reopenedAt ? 'closing-reopened' : undefined}>
+                                        <td>{formatClosingPeriod(closing)}</td>
+                                        <td>{CLOSING_KIND_LABELS[closing.kind]}</td>
+                                        <td className="amount">{closing.income.toLocaleString()}원</td>
+                                        <td className="amount">{closing.expense.toLocaleString()}원</td>
+                                        <td className="amount" title={closing.fundBalances.map(f => `${f.fund} ${f.balance.toLocaleString()}원`).join('\n')}>
+                                            {closing.balance.toLocaleString()}원
+                                            {closing.kind === 'year' && <small> ({Number(closing.period) + 1}년 이월)</small>}
+                                        </td>
+                                        <td>{closing.closedBy} · {formatDateTime(closing.closedAt)}</td>
+                                        <td>
+                                            {closing.reopenedAt
+                                                ? `해제됨 (${closing.reopenedBy} · ${formatDateTime(closing.reopenedAt)}${closing.reopenReason ? ` · ${closing.reopenReason}` : ''})`
+                                                : current !== closing.balance
+                                                    ? <span className="expense-color">마감 후 잔액이 달라짐 (현재 {current.toLocaleString()}원)</span>
+                                                    : fundDrift.length > 0
+                                                        ? <span className="expense-color">마감 후 재정별 잔액이 달라짐 ({fundDrift.map(f => `${f.fund} ${f.balance.toLocaleString()}원`).join(', ')})</span>
+                                                        : '마감'}
+                                        </td>
+                                        <td className="row-actions">
+                                            {closing.id === latestActiveId && <button type="button" className="delete-btn" onClick={() => handleReopen(closing)}>마감 해제</button>}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
                 )}
+                <p className="form-hint">마감 해제는 가장 최근 마감부터 차례로 할 수 있습니다.</p>
             </div>
-            
-            {totalPages > 1 && (
-                <div className="pagination-controls">
-                    <button onClick={() => handlePageChange(currentPage - 1)} disabled={currentPage === 1}>
-                        &lt;
-                    </button>
-                    {Array.from({ length: totalPages }, (_, i) => i + 1).map(page => (
-                        <button 
-                            key={page} 
-                            onClick={() => handlePageChange(page)}
-                            className={currentPage === page ? 'active' : ''}
-                        >
-                            {page}
-                        </button>
+        </div>
+    );
+};
+
+// --- 기부금영수증 ---
+interface DonationReceipt {
+    serial: string;
+    member: Member;
+    // 가정 단위로 합산해 발행한 경우 가정과 합산된 구성원
+    household?: { id: number; name: string; contributors: string[] };
+    year: number;
+    byCategory: { category: string; amount: number }[];
+    total: number;
+}
+
+// 연도별로 성도의 입금 내역을 항목별로 합산한다. 헌금 내역이 없는 성도는 제외.
+// 가정 단위로 발행하면 구성원의 헌금을 합쳐 수령인 한 사람 앞으로 발행한다.
+const buildDonationReceipts = (
+    transactions: Transaction[],
+    members: Member[],
+    incomeCategories: IncomeCategory[],
+    year: number,
+    householdUnit?: { households: Household[]; recipients: Record<number, number> },
+): DonationReceipt[] => {
+    const yearPrefix = `${year}-`;
+    const givingByMember = new Map<number, Map<string, number>>();
+    transactions.forEach(tx => {
+        if (tx.type !== 'income' || tx.memberId === undefined || !tx.date.startsWith(yearPrefix)) return;
+        const categoryTotals = givingByMember.get(tx.memberId) ?? new Map<string, number>();
+        categoryTotals.set(tx.category, (categoryTotals.get(tx.category) ?? 0) + tx.amount);
+        givingByMember.set(tx.memberId, categoryTotals);
+    });
+
+    const recipientOf = new Map<number, number>();
+    const householdOfRecipient = new Map<number, Household>();
+    householdUnit?.households.forEach(household => {
+        const memberIds = members.filter(m => m.householdId === household.id).map(m => m.id);
+        const givers = memberIds.filter(id => givingByMember.has(id));
+        if (givers.length === 0) return;
+        const preferred = householdUnit.recipients[household.id] ?? household.receiptMemberId;
+        const recipient = preferred !== undefined && memberIds.includes(preferred) ? preferred : givers[0];
+        memberIds.forEach(id => recipientOf.set(id, recipient));
+        householdOfRecipient.set(recipient, household);
+    });
+
+    const totalsByMember = new Map<number, Map<string, number>>();
+    const contributorsByMember = new Map<number, number[]>();
+    givingByMember.forEach((categoryTotals, memberId) => {
+        const recipient = recipientOf.get(memberId) ?? memberId;
+        const merged = totalsByMember.get(recipient) ?? new Map<string, number>();
+        categoryTotals.forEach((amount, category) => merged.set(category, (merged.get(category) ?? 0) + amount));
+        totalsByMember.set(recipient, merged);
+        contributorsByMember.set(recipient, [...(contributorsByMember.get(recipient) ?? []), memberId]);
+    });
+    const nameOf = (id: number) => members.find(m => m.id === id)?.name ?? '';
+
+    const categoryIndex = (category: string) => incomeCategoryIndex(incomeCategories, category);
+
+    return members
+        .filter(m => totalsByMember.has(m.id))
+        .map(member => {
+            const byCategory = Array.from(totalsByMember.get(member.id)!.entries())
+                .map(([category, amount]) => ({ category, amount }))
+                .sort((a, b) => categoryIndex(a.category) - categoryIndex(b.category));
+            const household = householdOfRecipient.get(member.id);
+            return {
+                // 목록 순서가 바뀌어도 다시 발행한 영수증의 번호가 같도록 성도(가정 단위면 가정) id로 매긴다.
+                serial: household ? `${year}-H${household.id}` : `${year}-${member.id}`,
+                member,
+                ...(household ? { household: { id: household.id, name: household.name, contributors: contributorsByMember.get(member.id)!.map(nameOf) } } : {}),
+                year,
+                byCategory,
+                total: byCategory.reduce((sum, line) => sum + line.amount, 0),
+            };
+        });
+};
+
+const DonationReceiptDocument: React.FC<{ receipt: DonationReceipt; churchInfo: ChurchInfo; issueDate: string }> = ({ receipt, churchInfo, issueDate }) => {
+    const issueDateText = formatKoreanDate(issueDate);
+
+    return (
+        <div className="receipt-document">
+            <div className="receipt-serial">일련번호: {receipt.serial}</div>
+            <h1 className="receipt-title">기부금 영수증</h1>
+            <table className="receipt-table">
+                <tbody>
+                    <tr><th colSpan={4} className="receipt-section">① 기부자</th></tr>
+                    <tr>
+                        <th>성명</th><td>{receipt.member.name}</td>
+                        <th>주민등록번호</th><td>{receipt.member.residentNumber ?? ''}</td>
+                    </tr>
+                    <tr><th>주소</th><td colSpan={3}>{receipt.member.address ?? ''}</td></tr>
+                    {receipt.household && (
+                        <tr><th>비고</th><td colSpan={3}>{receipt.household.name} 합산 ({receipt.household.contributors.join(', ')})</td></tr>
+                    )}
+                    <tr><th colSpan={4} className="receipt-section">② 기부금 단체</th></tr>
+                    <tr>
+                        <th>단체명</th><td>{churchInfo.name}</td>
+                        <th>고유번호</th><td>{churchInfo.registrationNumber}</td>
+                    </tr>
+                    <tr>
+                        <th>소재지</th><td>{churchInfo.address}</td>
+                        <th>대표자</th><td>{churchInfo.representative}</td>
+                    </tr>
+                </tbody>
+            </table>
+            <table className="receipt-table">
+                <thead>
+                    <tr><th colSpan={6} className="receipt-section">③ 기부내용</th></tr>
+                    <tr><th>유형</th><th>코드</th><th>구분</th><th>연월일</th><th>내용</th><th>금액</th></tr>
+                </thead>
+                <tbody>
+                    {receipt.byCategory.map(line => (
+                        <tr key={line.category}>
+                            <td>종교단체</td>
+                            <td>41</td>
+                            <td>금전</td>
+                            <td>{receipt.year}.01.01 ~ {receipt.year}.12.31</td>
+                            <td>{line.category}</td>
+                            <td className="amount">{line.amount.toLocaleString()}원</td>
+                        </tr>
                     ))}
-                    <button onClick={() => handlePageChange(currentPage + 1)} disabled={currentPage === totalPages}>
-                        &gt;
-                    </button>
+                    <tr className="receipt-total">
+                        <td colSpan={5}>합계</td>
+                        <td className="amount">{receipt.total.toLocaleString()}원</td>
+                    </tr>
+                </tbody>
+            </table>
+            <p className="receipt-statement">
+                「소득세법」 제34조, 「조세특례제한법」 제58조·제76조·제88조의4 및 「법인세법」 제24조에 따른 기부금을 위와 같이 기부하였음을 증명하여 주시기 바랍니다.
+            </p>
+            <p className="receipt-signature">{issueDateText}<br />신청인 {receipt.member.name} (서명 또는 인)</p>
+            <p className="receipt-statement">위와 같이 기부금을 기부받았음을 증명합니다.</p>
+            <p className="receipt-signature">{issueDateText}<br />기부금 수령인 {churchInfo.name} {churchInfo.representative} (서명 또는 인)</p>
+        </div>
+    );
+};
+
+const ReceiptModal: React.FC<{
+    transactions: Transaction[];
+    members: Member[];
+    households: Household[];
+    incomeCategories: IncomeCategory[];
+    churchInfo: ChurchInfo;
+    onUpdateChurchInfo: (info: ChurchInfo) => void;
+    onClose: () => void;
+}> = ({ transactions, members, households, incomeCategories, churchInfo, onUpdateChurchInfo, onClose }) => {
+    const [year, setYear] = useState(() => {
+        // 연초에는 보통 지난해 영수증을 발행하므로 기본값을 지난해로 둔다.
+        const now = new Date();
+        return now.getMonth() < 3 ? now.getFullYear() - 1 : now.getFullYear();
+    });
+    const [issueDate, setIssueDate] = useState(todayString);
+    const [selectedMemberId, setSelectedMemberId] = useState<number | ''>('');
+    const [byHousehold, setByHousehold] = useState(false);
+    // 이번 발행에서만 바꾼 가정별 수령인. 기본 수령인은 가정 관리에서 지정한다.
+    const [recipients, setRecipients] = useState<Record<number, number>>({});
+    const [editingInfo, setEditingInfo] = useState(false);
+    const [infoDraft, setInfoDraft] = useState<ChurchInfo>(churchInfo);
+    const [printQueue, setPrintQueue] = usePrintJob<DonationReceipt[]>();
+
+    const years = useMemo(() => {
+        const set = new Set<number>(transactions.map(tx => Number(tx.date.slice(0, 4))).filter(y => !isNaN(y)));
+        set.add(new Date().getFullYear());
+        set.add(year);
+        return Array.from(set).sort((a, b) => b - a);
+    }, [transactions, year]);
+
+    const receipts = useMemo(
+        () => buildDonationReceipts(transactions, members, incomeCategories, year, byHousehold ? { households, recipients } : undefined),
+        [transactions, members, households, incomeCategories, year, byHousehold, recipients],
+    );
+    const selectedReceipt = receipts.find(r => r.member.id === selectedMemberId);
+    const grandTotal = receipts.reduce((sum, r) => sum + r.total, 0);
+    // 무명 헌금은 받을 사람이 없으므로 영수증 대상에서 빠진다.
+    const anonymousTotal = useMemo(() => transactions
+        .filter(tx => tx.type === 'income' && tx.memberId === undefined && tx.date.startsWith(`${year}-`))
+        .reduce((sum, tx) => sum + tx.amount, 0), [transactions, year]);
+
+    const handleSaveInfo = (e: FormEvent) => {
+        e.preventDefault();
+        onUpdateChurchInfo({ ...infoDraft, name: infoDraft.name.trim() || DEFAULT_CHURCH_INFO.name });
+        setEditingInfo(false);
+    };
+
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content large scrollable">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>기부금영수증 발행</h2>
+                <div className="search-controls">
+                    <div className="form-group date-range">
+                        <label>귀속 연도:</label>
+                        <select value={year} onChange={e => { setYear(Number(e.target.value)); setSelectedMemberId(''); }}>
+                            {years.map(y => <option key={y} value={y}>{y}년</option>)}
+                        </select>
+                        <label>발행일:</label>
+                        <input type="date" value={issueDate} onChange={e => setIssueDate(e.target.value)} />
+                        <label>발행 단위:</label>
+                        <select value={byHousehold ? 'household' : 'member'} onChange={e => { setByHousehold(e.target.value === 'household'); setSelectedMemberId(''); }}>
+                            <option value="member">개인별</option>
+                            <option value="household">가정 합산</option>
+                        </select>
+                    </div>
+                    <div className="church-info-summary">
+                        <span>{churchInfo.name} · 고유번호 {churchInfo.registrationNumber || '미입력'} · 대표자 {churchInfo.representative || '미입력'}</span>
+                        <button type="button" className="edit-btn" onClick={() => { setInfoDraft(churchInfo); setEditingInfo(!editingInfo); }}>교회 정보 수정</button>
+                    </div>
+                    {editingInfo && (
+                        <form onSubmit={handleSaveInfo} className="transaction-form">
+                            <div className="form-group">
+                                <label htmlFor="church-name">단체명</label>
+                                <input id="church-name" type="text" value={infoDraft.name} onChange={e => setInfoDraft({ ...infoDraft, name: e.target.value })} required />
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="church-reg-no">고유번호</label>
+                                <input id="church-reg-no" type="text" value={infoDraft.registrationNumber} onChange={e => setInfoDraft({ ...infoDraft, registrationNumber: e.target.value })} placeholder="000-00-00000" />
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="church-address">소재지</label>
+                                <input id="church-address" type="text" value={infoDraft.address} onChange={e => setInfoDraft({ ...infoDraft, address: e.target.value })} />
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="church-representative">대표자</label>
+                                <input id="church-representative" type="text" value={infoDraft.representative} onChange={e => setInfoDraft({ ...infoDraft, representative: e.target.value })} />
+                            </div>
+                            <button type="submit" className="submit-btn">저장</button>
+                        </form>
+                    )}
                 </div>
-            )}
 
-            <div className="data-management">
-                <button onClick={onSaveData} className="data-btn">데이터 저장</button>
-                <label htmlFor="load-data-input" className="data-btn">
-                    데이터 불러오기
-                </label>
-                <input 
-                    id="load-data-input"
-                    type="file"
-                    accept=".json"
-                    onChange={onLoadData}
-                    style={{ display: 'none' }}
-                />
+                {receipts.length === 0 ? (
+                    <p className="empty-list">{year}년 헌금 내역이 없습니다.</p>
+                ) : (
+                    <>
+                        <div className="receipt-batch-actions">
+                            <span>
+                                발행 대상 {receipts.length}명 · 총 {grandTotal.toLocaleString()}원
+                                {anonymousTotal > 0 && ` · ${ANONYMOUS_DONOR} 헌금 ${anonymousTotal.toLocaleString()}원 제외`}
+                            </span>
+                            <button type="button" className="data-btn" onClick={() => setPrintQueue(receipts)}>전체 일괄 인쇄</button>
+                        </div>
+                        <ul className="member-list">
+                            {receipts.map(receipt => (
+                                <li key={receipt.member.id} className="member-item">
+                                    <div className="member-info">
+                                        <span>{receipt.member.name}{receipt.household ? ` · ${receipt.household.name}` : ''}</span>
+                                        <small>
+                                            {receipt.member.position} · {receipt.total.toLocaleString()}원
+                                            {(!receipt.member.residentNumber || !receipt.member.address) && <span className="expense-color"> · 주민등록번호/주소 미입력</span>}
+                                        </small>
+                                    </div>
+                                    <div className="member-actions">
+                                        {receipt.household && (
+                                            <select
+                                                value={receipt.member.id}
+                                                onChange={e => { setRecipients({ ...recipients, [receipt.household!.id]: Number(e.target.value) }); setSelectedMemberId(Number(e.target.value)); }}
+                                                aria-label="영수증 수령인"
+                                            >
+                                                {members.filter(m => m.householdId === receipt.household!.id).map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                                            </select>
+                                        )}
+                                        <button onClick={() => setSelectedMemberId(receipt.member.id)} className="edit-btn">미리보기</button>
+                                        <button onClick={() => setPrintQueue([receipt])} className="save-btn">인쇄</button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                        {selectedReceipt && (
+                            <div className="receipt-preview">
+                                <DonationReceiptDocument receipt={selectedReceipt} churchInfo={churchInfo} issueDate={issueDate} />
+                            </div>
+                        )}
+                    </>
+                )}
             </div>
-        </section>
+            {printQueue && (
+                <PrintPortal>
+                    {printQueue.map(receipt => (
+                        <div className="print-page" key={receipt.member.id}>
+                            <DonationReceiptDocument receipt={receipt} churchInfo={churchInfo} issueDate={issueDate} />
+                        </div>
+                    ))}
+                </PrintPortal>
+            )}
+        </div>
     );
 };
 
-const AddMemberModal: React.FC<{onAddMember: (name: string, position: string) => void, onClose: () => void}> = ({ onAddMember, onClose }) => {
-  const [name, setName] = useState('');
-  const [position, setPosition] = useState(POSITIONS[0]);
-  
-  const handleSubmit = (e: FormEvent) => {
-    e.preventDefault();
-    onAddMember(name, position);
-  };
-
-  return (
-    <div className="modal-backdrop">
-      <div className="modal-content">
-        <button onClick={onClose} className="close-btn">&times;</button>
-        <h2>새 성도 추가</h2>
-        <form onSubmit={handleSubmit}>
-          <div className="form-group">
-            <label htmlFor="new-member-name">이름</label>
-            <input id="new-member-name" type="text" value={name} onChange={e => setName(e.target.value)} required />
-          </div>
-          <div className="form-group">
-            <label htmlFor="new-member-position">직분</label>
-            <select id="new-member-position" value={position} onChange={e => setPosition(e.target.value)}>
-              {POSITIONS.map(p => <option key={p} value={p}>{p}</option>)}
-            </select>
-          </div>
-          <button type="submit" className="submit-btn">추가</button>
-        </form>
-      </div>
-    </div>
-  );
-};
-
-const EditMembersModal: React.FC<{
-    members: Member[];
+const BackupSaveModal: React.FC<{
+    onSave: (passphrase: string | null) => Promise<void>;
     onClose: () => void;
-    onUpdateMember: (id: number, newName: string, newPosition: string) => void;
-    onDeleteMember: (id: number) => void;
-}> = ({ members, onClose, onUpdateMember, onDeleteMember }) => {
-    const [editingId, setEditingId] = useState<number | null>(null);
-    const [editName, setEditName] = useState('');
-    const [editPosition, setEditPosition] = useState('');
+}> = ({ onSave, onClose }) => {
+    const [encrypt, setEncrypt] = useState(true);
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmPassphrase, setConfirmPassphrase] = useState('');
+    const [error, setError] = useState('');
+    const [saving, setSaving] = useState(false);
 
-    const handleEditStart = (member: Member) => {
-        setEditingId(member.id);
-        setEditName(member.name);
-        setEditPosition(member.position);
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        setError('');
+        if (encrypt) {
+            if (passphrase.length < 8) {
+                setError('암호 문구는 8자 이상이어야 합니다.');
+                return;
+            }
+            if (passphrase !== confirmPassphrase) {
+                setError('암호 문구가 일치하지 않습니다.');
+                return;
+            }
+        } else if (!window.confirm('암호화하지 않은 파일에는 성도 이름과 헌금 내역이 그대로 담깁니다. 계속하시겠습니까?')) {
+            return;
+        }
+        setSaving(true);
+        await onSave(encrypt ? passphrase : null);
+        setSaving(false);
     };
 
-    const handleEditCancel = () => {
-        setEditingId(null);
-    };
+    return (
+        <div className="modal-backdrop">
+            <div className="modal-content">
+                <button onClick={onClose} className="close-btn">&times;</button>
+                <h2>데이터 저장</h2>
+                <form onSubmit={handleSubmit}>
+                    <div className="merge-conflict-options">
+                        <label>
+                            <input type="radio" name="backup-format" checked={encrypt} onChange={() => setEncrypt(true)} />
+                            암호화하여 저장 (권장)
+                        </label>
+                        <label>
+                            <input type="radio" name="backup-format" checked={!encrypt} onChange={() => setEncrypt(false)} />
+                            일반 JSON으로 저장
+                        </label>
+                    </div>
+                    {encrypt && (
+                        <>
+                            <div className="form-group">
+                                <label htmlFor="backup-passphrase">암호 문구 (8자 이상)</label>
+                                <input id="backup-passphrase" type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} autoComplete="new-password" required autoFocus />
+                            </div>
+                            <div className="form-group">
+                                <label htmlFor="backup-passphrase-confirm">암호 문구 확인</label>
+                                <input id="backup-passphrase-confirm" type="password" value={confirmPassphrase} onChange={e => setConfirmPassphrase(e.target.value)} autoComplete="new-password" required />
+                            </div>
+                            <p className="form-hint">암호 문구를 잊으면 파일을 열 수 없습니다. 안전한 곳에 따로 보관해 주세요.</p>
+                        </>
+                    )}
+                    {error && <p className="error-message">{error}</p>}
+                    <button type="submit" className="submit-btn full-width" disabled={saving}>저장</button>
+                </form>
+            </div>
+        </div>
+    );
+};
 
-    const handleEditSave = () => {
-        if (editingId && editName.trim()) {
-            onUpdateMember(editingId, editName.trim(), editPosition);
-            setEditingId(null);
-        } else {
-            alert('이름을 입력해주세요.');
-        }
-    };
+const PassphraseModal: React.FC<{
+    onConfirm: (passphrase: string) => Promise<string | null>;
+    onClose: () => void;
+}> = ({ onConfirm, onClose }) => {
+    const [passphrase, setPassphrase] = useState('');
+    const [error, setError] = useState('');
+    const [working, setWorking] = useState(false);
 
-    const handleDelete = (member: Member) => {
-        if (window.confirm(`${member.name} (${member.position}) 님을 삭제하시겠습니까?\n관련된 모든 거래 내역은 유지되지만, 이름이 '미지정'으로 표시됩니다.`)) {
-            onDeleteMember(member.id);
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setWorking(true);
+        const result = await onConfirm(passphrase);
+        setWorking(false);
+        if (result) {
+            setError(result);
+            setPassphrase('');
         }
     };
 
     return (
         <div className="modal-backdrop">
-            <div className="modal-content large">
+            <div className="modal-content">
                 <button onClick={onClose} className="close-btn">&times;</button>
-                <h2>회원 수정 및 삭제</h2>
-                <ul className="member-list">
-                    {members.map(member => (
-                        <li key={member.id} className="member-item">
-                            {editingId === member.id ? (
-                                <>
-                                    <div className="edit-form">
-                                        <input 
-                                            type="text" 
-                                            value={editName} 
-                                            onChange={(e) => setEditName(e.target.value)} 
-                                            placeholder="이름"
-                                        />
-                                        <select value={editPosition} onChange={(e) => setEditPosition(e.target.value)}>
-                                            {POSITIONS.map(p => <option key={p} value={p}>{p}</option>)}
-                                        </select>
-                                    </div>
-                                    <div className="member-actions">
-                                        <button onClick={handleEditSave} className="save-btn">저장</button>
-                                        <button onClick={handleEditCancel} className="cancel-btn">취소</button>
-                                    </div>
-                                </>
-                            ) : (
-                                <>
-                                    <div className="member-info">
-                                        <span>{member.name}</span>
-                                        <small>{member.position}</small>
-                                    </div>
-                                    <div className="member-actions">
-                                        <button onClick={() => handleEditStart(member)} className="edit-btn">수정</button>
-                                        <button onClick={() => handleDelete(member)} className="delete-btn">삭제</button>
-                                    </div>
-                                </>
-                            )}
-                        </li>
-                    ))}
-                </ul>
+                <h2>암호화된 백업 열기</h2>
+                <form onSubmit={handleSubmit}>
+                    <div className="form-group">
+                        <label htmlFor="restore-passphrase">암호 문구</label>
+                        <input id="restore-passphrase" type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} autoComplete="off" required autoFocus />
+                    </div>
+                    {error && <p className="error-message">{error}</p>}
+                    <button type="submit" className="submit-btn full-width" disabled={working}>{working ? '여는 중...' : '열기'}</button>
+                </form>
             </div>
         </div>
     );
 };
 
-const SearchModal: React.FC<{
-    transactions: Transaction[], 
-    members: Member[], 
-    getMemberName: (id?: number) => string,
-    incomeCategories: string[],
-    expenseCategories: string[],
-    onClose: () => void
-}> = ({ transactions, members, getMemberName, incomeCategories, expenseCategories, onClose }) => {
-    const [searchType, setSearchType] = useState<'name' | 'category'>('name');
-    const [nameQuery, setNameQuery] = useState<number | ''>('');
-    
-    const [categoryType, setCategoryType] = useState<'income' | 'expense'>('income');
-    const [categoryQuery, setCategoryQuery] = useState('');
+const BackupFileSummary: React.FC<{ report: BackupReadResult }> = ({ report }) => (
+    <>
+        <p>
+            파일 형식 v{report.sourceVersion}
+            {report.sourceVersion < BACKUP_SCHEMA_VERSION && ` → v${BACKUP_SCHEMA_VERSION} 변환`}
+            {report.checksumValid === null ? ' · 체크섬 없음' : report.checksumValid ? ' · 체크섬 확인' : ' · 체크섬 불일치'}
+        </p>
+        <p>성도 {report.data.members.length}명 · 가정 {report.data.households.length}곳 · 거래 {report.data.transactions.length}건 · 재정 이체 {report.data.fundTransfers.length}건 · 변경 이력 {report.data.auditLog.length}건</p>
+        {report.rejected.length === 0 ? (
+            <p className="empty-list">거부된 레코드가 없습니다.</p>
+        ) : (
+            <>
+                <h3 className="expense-color">거부된 레코드 {report.rejected.length}건</h3>
+                <table className="report-table">
+                    <thead><tr><th>종류</th><th>레코드</th><th>사유</th></tr></thead>
+                    <tbody>
+                        {report.rejected.map((record, i) => (
+                            <tr key={i}>
+                                <td>{record.kind}</td>
+                                <td>{record.label}</td>
+                                <td>{record.reason}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </>
+        )}
+    </>
+);
 
-    const [startDate, setStartDate] = useState(() => {
-        const d = new Date();
-        d.setFullYear(d.getFullYear() - 1);
-        return d.toISOString().slice(0, 10);
+const ImportReportModal: React.FC<{ report: BackupReadResult; onClose: () => void }> = ({ report, onClose }) => (
+    <div className="modal-backdrop">
+        <div className="modal-content large scrollable">
+            <button onClick={onClose} className="close-btn">&times;</button>
+            <h2>불러오기 결과</h2>
+            <BackupFileSummary report={report} />
+            <button type="button" className="submit-btn full-width" onClick={onClose}>확인</button>
+        </div>
+    </div>
+);
+
+const BackupLoadModal: React.FC<{
+    report: BackupReadResult;
+    onOverwrite: () => void;
+    onMerge: () => void;
+    onClose: () => void;
+}> = ({ report, onOverwrite, onMerge, onClose }) => (
+    <div className="modal-backdrop">
+        <div className="modal-content large scrollable">
+            <button onClick={onClose} className="close-btn">&times;</button>
+            <h2>데이터 불러오기</h2>
+            <BackupFileSummary report={report} />
+            <div className="load-mode-actions">
+                <button type="button" className="submit-btn" onClick={onMerge}>현재 데이터와 병합</button>
+                <button type="button" className="data-btn" onClick={onOverwrite}>전체 덮어쓰기</button>
+            </div>
+        </div>
+    </div>
+);
+
+// --- 백업 병합 ---
+interface MemberConflict {
+    local: Member;
+    incoming: Member;
+}
+
+interface TransactionConflict {
+    local: Transaction;
+    incoming: Transaction;
+}
+
+interface BackupMergePlan {
+    newMembers: Member[];
+    matchedMemberCount: number;
+    memberConflicts: MemberConflict[];
+    newTransactions: Transaction[];
+    duplicateTransactionCount: number;
+    transactionConflicts: TransactionConflict[];
+    newExpenseCategories: string[];
+    newIncomeCategories: IncomeCategory[];
+    newFunds: string[];
+    newFundTransfers: FundTransfer[];
+    newBudgets: BudgetLine[];
+    newCountingSessions: CountingSession[];
+    newCashDeposits: CashDeposit[];
+    newHouseholds: Household[];
+    newMemberMerges: MemberMerge[];
+    newPledges: Pledge[];
+    newRecurringExpenses: RecurringExpense[];
+    newPayees: Payee[];
+    newPeriodClosings: PeriodClosing[];
+    // 현재 데이터에서 마감된 기간이라 병합하지 않는 거래·재정 이체
+    lockedTransactionCount: number;
+    lockedTransferCount: number;
+    // 두 쪽 중 더 늦은 대사 완료 월
+    reconciledThrough: string;
+    newAuditLog: AuditLogEntry[];
+}
+
+type ConflictChoice = 'local' | 'incoming';
+
+const memberContentKey = (member: Member) =>
+    [member.name, member.position, ...MEMBER_TEXT_FIELDS.map(key => member[key] ?? ''), isMemberActive(member), member.householdId ?? ''].join('|');
+
+const transactionContentKey = (tx: Transaction) =>
+    [tx.type, tx.date, tx.category, tx.amount, tx.memberId ?? '', tx.memo ?? '', tx.fund ?? '', getPaymentMethod(tx), tx.payee ?? ''].join('|');
+
+// 성도는 id 또는 이름+직분으로 짝을 찾고, 거래는 id 또는 내용이 같으면 중복으로 본다.
+// 현재 데이터에서 마감된 기간의 거래는 추가하거나 바꾸지 않는다.
+const planBackupMerge = (local: BackupData, incoming: BackupData): BackupMergePlan => {
+    const lockedThrough = getLockedThrough(local.periodClosings);
+    const isLocked = (date: string) => !!lockedThrough && date <= lockedThrough;
+    const localMembersById = new Map(local.members.map(m => [m.id, m]));
+    const localMembersByKey = new Map(local.members.map(m => [`${m.name}|${m.position}`, m]));
+    const memberIdMap = new Map<number, number>();
+    const plan: BackupMergePlan = {
+        newMembers: [],
+        matchedMemberCount: 0,
+        memberConflicts: [],
+        newTransactions: [],
+        duplicateTransactionCount: 0,
+        transactionConflicts: [],
+        newExpenseCategories: incoming.expenseCategories.filter(c => !local.expenseCategories.includes(c)),
+        newIncomeCategories: incoming.incomeCategories.filter(c => !local.incomeCategories.some(l => l.name === c.name)),
+        newFunds: incoming.funds.filter(f => !local.funds.includes(f)),
+        newFundTransfers: [],
+        // 같은 연도·항목의 예산이 이미 있으면 현재 값을 유지한다.
+        newBudgets: incoming.budgets.filter(b => !local.budgets.some(l => budgetKey(l) === budgetKey(b))),
+        newCountingSessions: [],
+        newCashDeposits: incoming.cashDeposits.filter(d => !local.cashDeposits.some(l => l.id === d.id)),
+        newHouseholds: [],
+        newMemberMerges: incoming.memberMerges.filter(m => !local.memberMerges.some(l => l.id === m.id)),
+        newPledges: [],
+        newRecurringExpenses: incoming.recurringExpenses.filter(r => !local.recurringExpenses.some(l => l.id === r.id)),
+        // 지급처는 이름으로 연결되므로 같은 이름이 이미 있으면 현재 정보를 유지한다.
+        newPayees: incoming.payees.filter(p => !local.payees.some(l => l.name === p.name)),
+        // 같은 마감 기록이 이미 있으면 해제 여부까지 현재 기록을 유지한다.
+        newPeriodClosings: incoming.periodClosings.filter(c => !local.periodClosings.some(l => l.id === c.id)),
+        lockedTransactionCount: 0,
+        lockedTransferCount: 0,
+        reconciledThrough: incoming.reconciledThrough > local.reconciledThrough ? incoming.reconciledThrough : local.reconciledThrough,
+        newAuditLog: [],
+    };
+
+    incoming.members.forEach(member => {
+        // 이쪽에서 이미 다른 성도로 병합된 성도는 남긴 성도로 이어 붙인다.
+        const survivorId = resolveMergedMemberId(local.memberMerges, member.id);
+        if (survivorId !== member.id && localMembersById.has(survivorId)) {
+            memberIdMap.set(member.id, survivorId);
+            plan.matchedMemberCount++;
+            return;
+        }
+        const sameId = localMembersById.get(member.id);
+        if (sameId) {
+            memberIdMap.set(member.id, sameId.id);
+            if (memberContentKey(sameId) === memberContentKey(member)) {
+                plan.matchedMemberCount++;
+            } else {
+                plan.memberConflicts.push({ local: sameId, incoming: member });
+            }
+            return;
+        }
+        const sameName = localMembersByKey.get(`${member.name}|${member.position}`);
+        if (sameName) {
+            memberIdMap.set(member.id, sameName.id);
+            plan.matchedMemberCount++;
+        } else {
+            memberIdMap.set(member.id, member.id);
+            plan.newMembers.push(member);
+        }
     });
-    const [endDate, setEndDate] = useState(todayString);
 
-    const filteredTransactions = useMemo(() => {
-        return transactions.filter(tx => tx.date >= startDate && tx.date <= endDate);
-    }, [transactions, startDate, endDate]);
+    const localTransactionsById = new Map(local.transactions.map(tx => [tx.id, tx]));
+    // 같은 내용의 거래가 여러 건일 수 있으므로 아직 짝이 정해지지 않은 id 목록으로 비교한다.
+    const localIdsByContent = new Map<string, number[]>();
+    local.transactions.forEach(tx => {
+        const key = transactionContentKey(tx);
+        localIdsByContent.set(key, [...(localIdsByContent.get(key) ?? []), tx.id]);
+    });
+    // 들어오는 거래 id → 병합 후 남는 거래 id. 병합하지 않는 거래는 없다.
+    const transactionIdMap = new Map<number, number>();
 
-    const todaysTotals = useMemo(() => {
-        const today = todayString();
-        const todaysTransactions = transactions.filter(tx => tx.date === today);
-        
-        const totalIncome = todaysTransactions
-            .filter(tx => tx.type === 'income')
-            .reduce((sum, tx) => sum + tx.amount, 0);
+    incoming.transactions.forEach(original => {
+        const tx: Transaction = original.memberId === undefined
+            ? original
+            : { ...original, memberId: memberIdMap.get(original.memberId) ?? original.memberId };
+        const key = transactionContentKey(tx);
+        const sameId = localTransactionsById.get(tx.id);
+        if (sameId) {
+            transactionIdMap.set(tx.id, sameId.id);
+            if (transactionContentKey(sameId) === key) {
+                plan.duplicateTransactionCount++;
+            } else if (isLocked(sameId.date) || isLocked(tx.date)) {
+                plan.lockedTransactionCount++;
+            } else {
+                plan.transactionConflicts.push({ local: sameId, incoming: tx });
+            }
+            return;
+        }
+        const matchedLocalId = localIdsByContent.get(key)?.shift();
+        if (matchedLocalId !== undefined) {
+            transactionIdMap.set(tx.id, matchedLocalId);
+            plan.duplicateTransactionCount++;
+        } else if (isLocked(tx.date)) {
+            plan.lockedTransactionCount++;
+        } else {
+            transactionIdMap.set(tx.id, tx.id);
+            plan.newTransactions.push(tx);
+        }
+    });
 
-        const totalExpense = todaysTransactions
-            .filter(tx => tx.type === 'expense')
-            .reduce((sum, tx) => sum + tx.amount, 0);
-            
-        return { totalIncome, totalExpense };
-    }, [transactions]);
+    // 계수 회차의 봉투 성도와 거래 id도 병합 결과에 맞춘다. 병합하지 않은 거래의 id는 뺀다.
+    const localSessionIds = new Set(local.countingSessions.map(c => c.id));
+    plan.newCountingSessions = incoming.countingSessions
+        .filter(c => !localSessionIds.has(c.id))
+        .map(c => ({
+            ...c,
+            envelopes: c.envelopes.map(e => e.memberId === undefined ? e : { ...e, memberId: memberIdMap.get(e.memberId) ?? e.memberId }),
+            transactionIds: c.transactionIds.flatMap(id => transactionIdMap.has(id) ? [transactionIdMap.get(id)!] : []),
+        }));
 
-    const nameSearchResult = useMemo(() => {
-        if (searchType !== 'name' || nameQuery === '') return null;
-        const result = filteredTransactions.filter(tx => tx.memberId === nameQuery && tx.type === 'income');
-        const total = result.reduce((sum, tx) => sum + tx.amount, 0);
-        return { transactions: result, total };
-    }, [filteredTransactions, searchType, nameQuery]);
+    // 가정은 id로 짝을 찾는다. 영수증 수령인은 합쳐진 성도 id로 바꿔 둔다.
+    const localHouseholdIds = new Set(local.households.map(h => h.id));
+    plan.newHouseholds = incoming.households
+        .filter(h => !localHouseholdIds.has(h.id))
+        .map(h => h.receiptMemberId === undefined ? h : { ...h, receiptMemberId: memberIdMap.get(h.receiptMemberId) ?? h.receiptMemberId });
 
-    const categorySearchResult = useMemo(() => {
-        if (searchType !== 'category' || categoryQuery === '') return null;
-        const result = filteredTransactions.filter(tx => tx.type === categoryType && tx.category === categoryQuery);
-        const total = result.reduce((sum, tx) => sum + tx.amount, 0);
-        return { transactions: result, total };
-    }, [filteredTransactions, searchType, categoryType, categoryQuery]);
+    const localPledgeIds = new Set(local.pledges.map(p => p.id));
+    plan.newPledges = incoming.pledges
+        .filter(p => !localPledgeIds.has(p.id))
+        .map(p => ({ ...p, memberId: memberIdMap.get(p.memberId) ?? p.memberId }));
+
+    const localTransferIds = new Set(local.fundTransfers.map(t => t.id));
+    const incomingTransfers = incoming.fundTransfers.filter(t => !localTransferIds.has(t.id));
+    plan.newFundTransfers = incomingTransfers.filter(t => !isLocked(t.date));
+    plan.lockedTransferCount = incomingTransfers.length - plan.newFundTransfers.length;
+
+    const localAuditIds = new Set(local.auditLog.map(entry => entry.id));
+    plan.newAuditLog = incoming.auditLog.filter(entry => !localAuditIds.has(entry.id));
+    return plan;
+};
+
+// 선택한 결과대로 병합된 데이터를 만든다. 들어오는 쪽을 택한 거래 충돌은 변경 이력에 남긴다.
+// 교회 정보·회계연도 시작 월 같은 설정은 현재 값을 유지한다. 파일의 설정을 쓰려면 전체 덮어쓰기를 한다.
+const applyBackupMerge = (
+    local: BackupData,
+    plan: BackupMergePlan,
+    memberChoices: Record<number, ConflictChoice>,
+    transactionChoices: Record<number, ConflictChoice>,
+): BackupData => {
+    const replacedMembers = new Map(
+        plan.memberConflicts.filter(c => memberChoices[c.local.id] === 'incoming').map(c => [c.local.id, c.incoming])
+    );
+    const replacedTransactions = plan.transactionConflicts.filter(c => transactionChoices[c.local.id] === 'incoming');
+    const replacedTransactionMap = new Map(replacedTransactions.map(c => [c.local.id, c.incoming]));
+    const timestamp = new Date().toISOString();
+
+    return {
+        ...local,
+        members: [...local.members.map(m => replacedMembers.get(m.id) ?? m), ...plan.newMembers],
+        transactions: [...local.transactions.map(tx => replacedTransactionMap.get(tx.id) ?? tx), ...plan.newTransactions],
+        expenseCategories: [...local.expenseCategories, ...plan.newExpenseCategories],
+        incomeCategories: [...local.incomeCategories, ...plan.newIncomeCategories],
+        funds: [...local.funds, ...plan.newFunds],
+        fundTransfers: [...local.fundTransfers, ...plan.newFundTransfers],
+        budgets: [...local.budgets, ...plan.newBudgets],
+        countingSessions: [...local.countingSessions, ...plan.newCountingSessions],
+        cashDeposits: [...local.cashDeposits, ...plan.newCashDeposits],
+        households: [...local.households, ...plan.newHouseholds],
+        memberMerges: [...local.memberMerges, ...plan.newMemberMerges],
+        pledges: [...local.pledges, ...plan.newPledges],
+        recurringExpenses: [...local.recurringExpenses, ...plan.newRecurringExpenses],
+        payees: [...local.payees, ...plan.newPayees],
+        periodClosings: [...local.periodClosings, ...plan.newPeriodClosings],
+        reconciledThrough: plan.reconciledThrough,
+        auditLog: [
+            ...plan.newAuditLog,
+            ...replacedTransactions.map(c => ({
+                id: generateId(),
+                timestamp,
+                action: 'update' as const,
+                transactionId: c.local.id,
+                before: c.local,
+                after: c.incoming,
+            })),
+        ],
+    };
+};
+
+const MergeImportModal: React.FC<{
+    local: BackupData;
+    incoming: BackupReadResult;
+    getMemberName: (id?: number) => string;
+    onCommit: (merged: BackupData) => void;
+    onClose: () => void;
+}> = ({ local, incoming, getMemberName, onCommit, onClose }) => {
+    const plan = useMemo(() => planBackupMerge(local, incoming.data), [local, incoming]);
+    const [memberChoices, setMemberChoices] = useState<Record<number, ConflictChoice>>({});
+    const [transactionChoices, setTransactionChoices] = useState<Record<number, ConflictChoice>>({});
+    const [showSummary, setShowSummary] = useState(false);
+
+    // 병합 대상에만 있는 성도 이름도 표시할 수 있도록 한다.
+    const memberName = (id?: number) => plan.newMembers.find(m => m.id === id)?.name ?? getMemberName(id);
+    const describe = (tx: Transaction) =>
+        `${tx.date} ${tx.type === 'income' ? '입금' : '출금'} ${tx.category} ${tx.amount.toLocaleString()}원` +
+        (tx.memberId !== undefined ? ` · ${memberName(tx.memberId)}` : '') +
+        (tx.memo ? ` · ${tx.memo}` : '');
+
+    const incomingChosenCount =
+        Object.values(memberChoices).filter(c => c === 'incoming').length +
+        Object.values(transactionChoices).filter(c => c === 'incoming').length;
+
+    const handleCommit = () => {
+        onCommit(applyBackupMerge(local, plan, memberChoices, transactionChoices));
+    };
+
+    const renderChoice = (name: string, choice: ConflictChoice, onChange: (next: ConflictChoice) => void, localText: string, incomingText: string) => (
+        <div className="merge-conflict-options">
+            <label>
+                <input type="radio" name={name} checked={choice === 'local'} onChange={() => onChange('local')} />
+                현재: {localText}
+            </label>
+            <label>
+                <input type="radio" name={name} checked={choice === 'incoming'} onChange={() => onChange('incoming')} />
+                파일: {incomingText}
+            </label>
+        </div>
+    );
 
     return (
         <div className="modal-backdrop">
-            <div className="modal-content large">
+            <div className="modal-content large scrollable">
                 <button onClick={onClose} className="close-btn">&times;</button>
-                <h2>조회</h2>
-                <div className="search-controls">
-                    <div className="form-group date-range">
-                        <label>기간 설정:</label>
-                        <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} />
-                        <span>~</span>
-                        <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} />
-                    </div>
-                    <div className="tabs">
-                        <button className={`tab-button ${searchType === 'name' ? 'active' : ''}`} onClick={() => setSearchType('name')}>이름 조회</button>
-                        <button className={`tab-button ${searchType === 'category' ? 'active' : ''}`} onClick={() => setSearchType('category')}>항목별 조회</button>
-                    </div>
-
-                    {searchType === 'name' && (
-                        <div className="form-group">
-                            <label>이름:</label>
-                            <select value={nameQuery} onChange={e => setNameQuery(Number(e.target.value))}>
-                                <option value="" disabled>-- 성도 선택 --</option>
-                                {members.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
-                            </select>
-                        </div>
-                    )}
-                    {searchType === 'category' && (
-                        <div className="category-search-container">
-                            <div className="category-search-group">
-                                <select value={categoryType} onChange={e => { setCategoryType(e.target.value as 'income' | 'expense'); setCategoryQuery(''); }}>
-                                    <option value="income">입금</option>
-                                    <option value="expense">출금</option>
-                                </select>
-                                <select value={categoryQuery} onChange={e => setCategoryQuery(e.target.value)}>
-                                    <option value="" disabled>-- 항목 선택 --</option>
-                                    {(categoryType === 'income' ? incomeCategories : expenseCategories).map(c => <option key={c} value={c}>{c}</option>)}
-                                </select>
-                            </div>
-                            <div className="today-totals-summary">
-                                <div>
-                                    <span>오늘의 입금 총액</span>
-                                    <span className="income-color">{todaysTotals.totalIncome.toLocaleString()}원</span>
-                                </div>
-                                <div>
-                                    <span>오늘의 출금 총액</span>
-                                    <span className="expense-color">{todaysTotals.totalExpense.toLocaleString()}원</span>
-                                </div>
-                            </div>
+                <h2>데이터 병합</h2>
+                {!showSummary ? (
+                    <>
+                        {incoming.rejected.length > 0 && (
+                            <p className="expense-color">파일에서 거부된 레코드 {incoming.rejected.length}건은 병합에서 제외됩니다.</p>
+                        )}
+                        {plan.lockedTransactionCount + plan.lockedTransferCount > 0 && (
+                            <p className="expense-color">마감된 기간의 거래 {plan.lockedTransactionCount}건과 재정 이체 {plan.lockedTransferCount}건은 병합에서 제외됩니다.</p>
+                        )}
+                        {plan.memberConflicts.length === 0 && plan.transactionConflicts.length === 0 ? (
+                            <p className="empty-list">충돌하는 레코드가 없습니다.</p>
+                        ) : (
+                            <>
+                                <p>같은 id이지만 내용이 다른 레코드입니다. 남길 쪽을 선택해 주세요.</p>
+                                {plan.memberConflicts.length > 0 && <h3>성도 충돌 {plan.memberConflicts.length}건</h3>}
+                                <ul className="merge-conflict-list">
+                                    {plan.memberConflicts.map(c => (
+                                        <li key={`m-${c.local.id}`}>
+                                            {renderChoice(
+                                                `member-${c.local.id}`,
+                                                memberChoices[c.local.id] ?? 'local',
+                                                next => setMemberChoices({ ...memberChoices, [c.local.id]: next }),
+                                                `${c.local.name} (${c.local.position})`,
+                                                `${c.incoming.name} (${c.incoming.position})`,
+                                            )}
+                                        </li>
+                                    ))}
+                                </ul>
+                                {plan.transactionConflicts.length > 0 && <h3>거래 충돌 {plan.transactionConflicts.length}건</h3>}
+                                <ul className="merge-conflict-list">
+                                    {plan.transactionConflicts.map(c => (
+                                        <li key={`t-${c.local.id}`}>
+                                            {renderChoice(
+                                                `tx-${c.local.id}`,
+                                                transactionChoices[c.local.id] ?? 'local',
+                                                next => setTransactionChoices({ ...transactionChoices, [c.local.id]: next }),
+                                                describe(c.local),
+                                                describe(c.incoming),
+                                            )}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </>
+                        )}
+                        <button type="button" className="submit-btn full-width" onClick={() => setShowSummary(true)}>병합 요약 보기</button>
+                    </>
+                ) : (
+                    <>
+                        <table className="report-table">
+                            <tbody>
+                                <tr><th>새로 추가되는 성도</th><td className="amount">{plan.newMembers.length}명</td></tr>
+                                <tr><th>이미 있는 성도 (id 또는 이름+직분 일치)</th><td className="amount">{plan.matchedMemberCount}명</td></tr>
+                                <tr><th>새로 추가되는 거래</th><td className="amount">{plan.newTransactions.length}건</td></tr>
+                                <tr><th>중복으로 건너뛰는 거래</th><td className="amount">{plan.duplicateTransactionCount}건</td></tr>
+                                <tr><th>마감된 기간이라 건너뛰는 거래</th><td className="amount">{plan.lockedTransactionCount}건</td></tr>
+                                <tr><th>충돌 (파일 내용으로 교체)</th><td className="amount">{incomingChosenCount}건</td></tr>
+                                <tr><th>충돌 (현재 내용 유지)</th><td className="amount">{plan.memberConflicts.length + plan.transactionConflicts.length - incomingChosenCount}건</td></tr>
+                                <tr><th>새 출금 항목</th><td className="amount">{plan.newExpenseCategories.join(', ') || '없음'}</td></tr>
+                                <tr><th>새 입금 항목</th><td className="amount">{plan.newIncomeCategories.map(c => c.name).join(', ') || '없음'}</td></tr>
+                                <tr><th>새 재정 계정</th><td className="amount">{plan.newFunds.join(', ') || '없음'}</td></tr>
+                                <tr><th>추가할 재정 이체</th><td className="amount">{plan.newFundTransfers.length}건{plan.lockedTransferCount > 0 ? ` (마감 기간 ${plan.lockedTransferCount}건 제외)` : ''}</td></tr>
+                                <tr><th>추가할 예산 항목</th><td className="amount">{plan.newBudgets.length}건</td></tr>
+                                <tr><th>추가할 계수 회차</th><td className="amount">{plan.newCountingSessions.length}건</td></tr>
+                                <tr><th>추가할 은행 입금</th><td className="amount">{plan.newCashDeposits.length}건</td></tr>
+                                <tr><th>추가할 가정</th><td className="amount">{plan.newHouseholds.length}곳</td></tr>
+                                <tr><th>추가할 성도 병합 기록</th><td className="amount">{plan.newMemberMerges.length}건</td></tr>
+                                <tr><th>추가할 작정헌금</th><td className="amount">{plan.newPledges.length}건</td></tr>
+                                <tr><th>추가할 정기 지출</th><td className="amount">{plan.newRecurringExpenses.length}건</td></tr>
+                                <tr><th>추가할 지급처</th><td className="amount">{plan.newPayees.length}곳</td></tr>
+                                <tr><th>추가할 마감 기록</th><td className="amount">{plan.newPeriodClosings.length}건</td></tr>
+                                <tr><th>추가되는 변경 이력</th><td className="amount">{plan.newAuditLog.length}건</td></tr>
+                                <tr>
+                                    <th>회계연도 시작 월 (현재 설정 유지)</th>
+                                    <td className="amount">
+                                        {local.fiscalYearStartMonth}월
+                                        {incoming.data.fiscalYearStartMonth !== local.fiscalYearStartMonth && ` (파일의 ${incoming.data.fiscalYearStartMonth}월은 반영하지 않음)`}
+                                    </td>
+                                </tr>
+                            </tbody>
+                        </table>
+                        <div className="load-mode-actions">
+                            <button type="button" className="data-btn" onClick={() => setShowSummary(false)}>충돌 다시 보기</button>
+                            <button type="button" className="submit-btn" onClick={handleCommit}>병합 실행</button>
                         </div>
-                    )}
-                </div>
-                <div className="search-results">
-                    {nameSearchResult && (
-                        <>
-                            <h3>{getMemberName(nameQuery)}님 헌금 내역 (총: {nameSearchResult.total.toLocaleString()}원)</h3>
-                            <ul>{nameSearchResult.transactions.map(tx => <li key={tx.id}>{tx.date} | {tx.category}: {tx.amount.toLocaleString()}원</li>)}</ul>
-                        </>
-                    )}
-                    {categorySearchResult && (
-                        <>
-                           <h3>{categoryQuery} 내역 (총: {categorySearchResult.total.toLocaleString()}원)</h3>
-                           <ul>{categorySearchResult.transactions.map(tx => <li key={tx.id}>{tx.date} | {tx.type === 'income' ? getMemberName(tx.memberId) : (tx.memo || '메모 없음')}: {tx.amount.toLocaleString()}원</li>)}</ul>
-                        </>
-                    )}
-                </div>
+                    </>
+                )}
             </div>
         </div>
     );
@@ -1000,4 +8281,4 @@ const SearchModal: React.FC<{
 
 const container = document.getElementById('root');
 const root = createRoot(container!);
-root.render(<App />);
\ No newline at end of file
+migrateLocalStorage().then(() => root.render(<App />));
\ No newline at end of file